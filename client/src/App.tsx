@@ -3,12 +3,17 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import StudioNavbar from "@/components/ui/studio-navbar";
 import StudioFooter from "@/components/ui/studio-footer";
 import Home from "@/pages/home";
 import Generate from "@/pages/generate";
 import Assets from "@/pages/assets";
+import Pipelines from "@/pages/pipelines";
+import Bulk from "@/pages/bulk";
 import Playground from "@/pages/playground";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -18,8 +23,11 @@ function Router() {
       <main className="flex-1">
         <Switch>
           <Route path="/" component={Home} />
-          <Route path="/generate" component={Generate} />
-          <Route path="/assets" component={Assets} />
+          <Route path="/auth" component={AuthPage} />
+          <ProtectedRoute path="/generate" component={Generate} />
+          <ProtectedRoute path="/assets" component={Assets} />
+          <ProtectedRoute path="/pipelines" component={Pipelines} />
+          <ProtectedRoute path="/bulk" component={Bulk} />
           <Route path="/playground" component={Playground} />
           {/* Fallback to 404 */}
           <Route component={NotFound} />
@@ -33,10 +41,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,198 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useJobEvents, isTerminalStatus } from "@/hooks/use-job-events";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Star, Box, XCircle, Ban, Eye, LayoutGrid } from "lucide-react";
+
+interface BatchJob {
+  id: string;
+  prompt: string;
+  status: string;
+  seed?: number;
+  assetUrls: string[] | null;
+  previewImage: string | null;
+  thumbnailUrl?: string | null; // Small WebP version of the image, when the server made one
+  progress?: { percent: number; stage?: string; etaSeconds?: number } | null;
+  isFavorite: boolean;
+  error?: string;
+}
+
+interface Batch {
+  id: string;
+  tool: string;
+  prompt: string;
+  count: number;
+  creditsUsed: number;
+  jobs: BatchJob[];
+}
+
+interface BatchGridProps {
+  batchId: string;
+  onSelectJob: (jobId: string) => void;
+  onClose: () => void;
+}
+
+export function BatchGrid({ batchId, onSelectJob, onClose }: BatchGridProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/batches", batchId];
+
+  // The per-user stream carries every job; keep the ones in this batch
+  const streaming = useJobEvents("/api/jobs/events", (event) => {
+    queryClient.setQueryData<Batch>(queryKey, (previous) => {
+      if (!previous || !previous.jobs.some(job => job.id === event.jobId)) return previous;
+
+      return {
+        ...previous,
+        jobs: previous.jobs.map(job => job.id === event.jobId ? {
+          ...job,
+          status: event.status,
+          assetUrls: event.assetUrls ?? job.assetUrls,
+          previewImage: event.previewImage ?? job.previewImage,
+          progress: event.progress ?? job.progress,
+          error: event.error ?? job.error,
+        } : job),
+      };
+    });
+
+    if (isTerminalStatus(event.status)) {
+      queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+    }
+  });
+
+  const { data: batch, isLoading } = useQuery<Batch>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/batches/${batchId}`);
+      if (!response.ok) throw new Error("Failed to fetch batch");
+      return response.json();
+    },
+    refetchInterval: (query) => {
+      // Poll only while the stream is down and some variations are still running
+      if (streaming) return false;
+      const jobs = query.state.data?.jobs || [];
+      return jobs.every(job => isTerminalStatus(job.status)) ? false : 2000;
+    }
+  });
+
+  const favoriteMutation = useMutation({
+    mutationFn: async ({ jobId, favorite }: { jobId: string; favorite: boolean }) => {
+      const response = await fetch(`/api/jobs/${jobId}/favorite`, {
+        method: "POST",
+        body: JSON.stringify({ favorite }),
+        headers: { "Content-Type": "application/json" }
+      });
+      if (!response.ok) throw new Error("Failed to update favourite");
+      return response.json();
+    },
+    onSuccess: ({ id, isFavorite }: { id: string; isFavorite: boolean }) => {
+      queryClient.setQueryData<Batch>(queryKey, (previous) => previous && {
+        ...previous,
+        jobs: previous.jobs.map(job => job.id === id ? { ...job, isFavorite } : job),
+      });
+    }
+  });
+
+  if (isLoading || !batch) {
+    return (
+      <Card className="bg-black/20 backdrop-blur-sm border border-white/10">
+        <CardContent className="p-6">
+          <div className="text-center text-white">Loading variations...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const finished = batch.jobs.filter(job => isTerminalStatus(job.status)).length;
+
+  const renderPreview = (job: BatchJob) => {
+    if (job.status === "failed") {
+      return <XCircle className="h-8 w-8 text-red-400" />;
+    }
+    if (job.status === "cancelled") {
+      return <Ban className="h-8 w-8 text-gray-400" />;
+    }
+    if (job.status !== "completed") {
+      return (
+        <div className="w-3/4 space-y-2">
+          <Progress value={job.progress?.percent ?? 0} className="h-2" />
+          <div className="text-xs text-white/40 text-center">
+            {job.status === "queued" ? "Queued" : `${Math.round(job.progress?.percent ?? 0)}%`}
+          </div>
+        </div>
+      );
+    }
+
+    const image = job.thumbnailUrl || (batch.tool === "text2image" ? job.assetUrls?.[0] : job.previewImage);
+    if (image) {
+      return <img src={image} alt={job.prompt} className="w-full h-full object-cover" />;
+    }
+    return <Box className="h-8 w-8 text-blue-400" />;
+  };
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <LayoutGrid className="h-5 w-5 text-blue-400" />
+            <div>
+              <div className="text-white">Variations</div>
+              <div className="text-sm text-white/60 font-normal line-clamp-1">{batch.prompt}</div>
+            </div>
+          </div>
+          <Badge className="bg-white/10 text-white/80 border-white/10">
+            {finished}/{batch.count} done
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {batch.jobs.map((job, index) => (
+            <div
+              key={job.id}
+              className="rounded-lg border border-white/10 bg-white/5 overflow-hidden"
+              data-testid={`batch-variant-${index}`}
+            >
+              <div className="relative aspect-square bg-black/20 flex items-center justify-center">
+                {renderPreview(job)}
+                <button
+                  type="button"
+                  className="absolute top-2 right-2 rounded-full bg-black/40 p-1.5 disabled:opacity-50"
+                  onClick={() => favoriteMutation.mutate({ jobId: job.id, favorite: !job.isFavorite })}
+                  disabled={favoriteMutation.isPending}
+                  aria-label={job.isFavorite ? "Remove from favourites" : "Add to favourites"}
+                  data-testid={`button-favorite-${index}`}
+                >
+                  <Star className={job.isFavorite ? "h-4 w-4 fill-yellow-400 text-yellow-400" : "h-4 w-4 text-white/70"} />
+                </button>
+              </div>
+              <div className="p-2 flex items-center justify-between gap-2">
+                <div className="text-xs text-white/50 truncate" title={job.error || job.prompt}>
+                  {job.seed !== undefined ? `Seed ${job.seed}` : `#${index + 1}`}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-white/70"
+                  onClick={() => onSelectJob(job.id)}
+                  data-testid={`button-view-variant-${index}`}
+                >
+                  <Eye className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center text-sm text-white/60">
+          <span>Credits used: <span className="text-white font-medium">{batch.creditsUsed}</span></span>
+          <Button onClick={onClose} variant="outline" data-testid="button-close-batch">
+            Close
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Coins } from "lucide-react";
+
+interface CreditTransaction {
+  id: string;
+  kind: "charge" | "refund" | "grant" | "adjustment";
+  amount: number;
+  jobId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface CreditHistoryResponse {
+  balance: number;
+  transactions: CreditTransaction[];
+}
+
+const kindLabels: Record<CreditTransaction["kind"], string> = {
+  charge: "Charge",
+  refund: "Refund",
+  grant: "Grant",
+  adjustment: "Adjustment",
+};
+
+export function CreditHistory() {
+  // Keyed under /api/credits so invalidating the balance refreshes the ledger too
+  const { data, isLoading } = useQuery<CreditHistoryResponse>({
+    queryKey: ["/api/credits", "history"],
+    refetchInterval: 30000, // Refunds land after a job fails
+  });
+
+  const transactions = data?.transactions || [];
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          Credit History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-white/60 py-6">Loading...</div>
+        ) : transactions.length === 0 ? (
+          <div className="text-center text-white/60 py-6">No credit activity yet</div>
+        ) : (
+          <ScrollArea className="h-64 pr-3">
+            <div className="space-y-2">
+              {transactions.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between gap-3 rounded-md bg-white/5 px-3 py-2 text-sm"
+                  data-testid={`credit-transaction-${entry.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="border-white/20 text-white/80">
+                        {kindLabels[entry.kind] || entry.kind}
+                      </Badge>
+                      <span className="text-xs text-white/40">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    {entry.note && (
+                      <div className="text-white/60 truncate mt-1">{entry.note}</div>
+                    )}
+                  </div>
+                  <div className={`font-medium ${entry.amount < 0 ? "text-red-400" : "text-green-400"}`}>
+                    {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
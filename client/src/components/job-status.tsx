@@ -1,5 +1,8 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { useJobEvents, isTerminalStatus } from "@/hooks/use-job-events";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -11,7 +14,9 @@ import {
   Download, 
   ExternalLink,
   Eye,
-  RotateCcw
+  RotateCcw,
+  Ban,
+  Shuffle
 } from "lucide-react";
 import "@google/model-viewer";
 
@@ -24,14 +29,159 @@ declare global {
   }
 }
 
+interface JobProgress {
+  percent: number;
+  stage?: string;
+  etaSeconds?: number;
+}
+
+interface JobAttempt {
+  provider: string;
+  attempt: number;
+  status: "running" | "completed" | "failed";
+  error?: string;
+}
+
+function formatStage(job: { status: string; progress?: JobProgress | null }) {
+  if (job.status === "waiting") return "Waiting for earlier pipeline steps";
+  if (job.status === "queued") return "Waiting in queue";
+  const stage = job.progress?.stage;
+  return stage ? stage.charAt(0).toUpperCase() + stage.slice(1) : "Processing";
+}
+
+function formatEta(seconds: number) {
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} min` : `${seconds}s`;
+}
+
+// Result of a mesh optimization job: one GLB per triangle budget
+interface MeshLod {
+  budget: number;
+  triangles: number;
+  vertices: number;
+  sizeBytes: number;
+  url: string;
+}
+
+interface MeshProcessingMeta {
+  source: { triangles: number; vertices: number; sizeBytes: number };
+  lods: MeshLod[];
+  compression: string;
+  textures: string;
+  warnings: string[];
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Inspection report the server stores for each glTF a 3D job outputs
+interface ModelInspection {
+  triangles: number;
+  vertices: number;
+  meshes: number;
+  materials: number;
+  bounds: { min: number[]; max: number[]; size: number[] } | null;
+  textures: { image: number; name: string | null; width: number | null; height: number | null; sizeBytes: number }[];
+  watertight: boolean;
+  openEdges: number;
+  nonManifoldEdges: number;
+}
+
+interface InspectionEntry {
+  url: string;
+  report: ModelInspection | null;
+  error: string | null;
+}
+
+function ModelStats({ inspection }: { inspection: InspectionEntry }) {
+  const report = inspection.report;
+  if (!report) {
+    return (
+      <div className="text-xs text-white/40" data-testid="model-stats-error">
+        Model stats unavailable: {inspection.error}
+      </div>
+    );
+  }
+
+  const size = report.bounds?.size.map(value => Number(value.toPrecision(3))).join(" × ");
+  const stats = [
+    { label: "Triangles", value: report.triangles.toLocaleString() },
+    { label: "Vertices", value: report.vertices.toLocaleString() },
+    { label: "Materials", value: report.materials.toLocaleString() },
+    { label: "Bounding box", value: size ?? "Empty" },
+  ];
+
+  return (
+    <div className="bg-black/20 rounded-lg p-3 space-y-2 text-sm" data-testid="model-stats">
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {stats.map(stat => (
+          <div key={stat.label} className="flex justify-between">
+            <span className="text-white/40">{stat.label}</span>
+            <span className="text-white">{stat.value}</span>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <Badge
+          variant="outline"
+          className={report.watertight ? "text-green-400 border-green-500/20" : "text-yellow-400 border-yellow-500/20"}
+          data-testid="badge-watertight"
+        >
+          {report.watertight ? "Watertight" : "Not watertight"}
+        </Badge>
+        {!report.watertight && report.triangles > 0 && (
+          <span className="text-xs text-white/40">
+            {report.openEdges.toLocaleString()} open, {report.nonManifoldEdges.toLocaleString()} non-manifold edges
+          </span>
+        )}
+      </div>
+      {report.textures.length > 0 && (
+        <div className="text-xs text-white/60" data-testid="model-stats-textures">
+          Textures:{" "}
+          {report.textures
+            .map(texture => `${texture.width && texture.height ? `${texture.width}×${texture.height}` : "unknown size"} (${formatBytes(texture.sizeBytes)})`)
+            .join(", ")}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface JobStatusProps {
   jobId: string | null;
   onClose: () => void;
 }
 
 export function JobStatus({ jobId, onClose }: JobStatusProps) {
-  const [progress, setProgress] = useState(0);
   const [modelError, setModelError] = useState(false);
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Push updates over SSE; the query below only polls while the stream is down
+  const streaming = useJobEvents(
+    jobId ? `/api/jobs/${jobId}/events` : null,
+    (event) => {
+      queryClient.setQueryData(["/api/jobs", jobId], (previous: any) => previous && ({
+        ...previous,
+        status: event.status,
+        assetUrls: event.assetUrls ?? previous.assetUrls,
+        previewImage: event.previewImage ?? previous.previewImage,
+        progress: event.progress ?? previous.progress,
+        meta: event.error ? { ...(previous.meta || {}), error: event.error } : previous.meta,
+        updatedAt: event.updatedAt,
+      }));
+
+      if (isTerminalStatus(event.status)) {
+        // Pick up the final row (meta) and any refund
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+      }
+    },
+    { closeOn: (event) => isTerminalStatus(event.status) }
+  );
 
   const { data: job, isLoading, error } = useQuery({
     queryKey: ["/api/jobs", jobId],
@@ -42,30 +192,42 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
       return response.json();
     },
     enabled: !!jobId,
-    refetchInterval: (data) => {
-      // Stop polling when job is completed or failed
-      if (!data) return 2000;
-      return data.status === "completed" || data.status === "failed" ? false : 2000;
+    refetchInterval: (query) => {
+      // Stop polling when the stream is live or the job is completed or failed
+      if (streaming) return false;
+      return isTerminalStatus(query.state.data?.status) ? false : 2000;
     }
   });
 
-  // Simulate progress for visual feedback
-  useEffect(() => {
-    if (!job) return;
-    
-    if (job.status === "queued") {
-      setProgress(10);
-    } else if (job.status === "processing") {
-      const interval = setInterval(() => {
-        setProgress(prev => Math.min(prev + Math.random() * 10, 85));
-      }, 1000);
-      return () => clearInterval(interval);
-    } else if (job.status === "completed") {
-      setProgress(100);
-    } else if (job.status === "failed") {
-      setProgress(0);
+  // Cancel mutation; the refund lands on the server in the same step
+  const cancelJobMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/jobs/${jobId}/cancel`, { method: "POST" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to cancel job");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Job cancelled",
+        description: `${data.creditsRefunded} credits refunded`
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not cancel job",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId] });
     }
-  }, [job?.status]);
+  });
 
   if (!jobId) return null;
 
@@ -99,8 +261,12 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
 
   if (!job) return null;
 
+  // Text and image to 3D both produce a model plus a preview image
+  const isMeshJob = job.tool === "text2mesh" || job.tool === "img2mesh";
+
   const getStatusIcon = () => {
     switch (job.status) {
+      case "waiting":
       case "queued":
         return <Clock className="h-5 w-5 text-yellow-400" />;
       case "processing":
@@ -109,6 +275,8 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
         return <CheckCircle className="h-5 w-5 text-green-400" />;
       case "failed":
         return <XCircle className="h-5 w-5 text-red-400" />;
+      case "cancelled":
+        return <Ban className="h-5 w-5 text-gray-400" />;
       default:
         return <Clock className="h-5 w-5 text-gray-400" />;
     }
@@ -116,6 +284,7 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
 
   const getStatusColor = () => {
     switch (job.status) {
+      case "waiting":
       case "queued":
         return "bg-yellow-500/20 text-yellow-400 border-yellow-500/20";
       case "processing":
@@ -124,6 +293,8 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
         return "bg-green-500/20 text-green-400 border-green-500/20";
       case "failed":
         return "bg-red-500/20 text-red-400 border-red-500/20";
+      case "cancelled":
+        return "bg-gray-500/20 text-gray-300 border-gray-500/20";
       default:
         return "bg-gray-500/20 text-gray-400 border-gray-500/20";
     }
@@ -135,6 +306,7 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
     }
 
     const firstAsset = job.assetUrls[0];
+    const inspections: InspectionEntry[] = Array.isArray(job.meta?.inspections) ? job.meta.inspections : [];
 
     // Handle different asset types based on tool
     if (job.tool === "text2image") {
@@ -150,7 +322,53 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
       );
     }
 
-    if (job.tool === "text2mesh") {
+    if (job.tool === "meshprocess" && job.meta?.lods) {
+      const meta = job.meta as MeshProcessingMeta;
+      return (
+        <div className="mt-4 space-y-3" data-testid="mesh-lods">
+          <div className="text-white/60 text-sm">
+            Source: {meta.source.triangles.toLocaleString()} triangles, {meta.source.vertices.toLocaleString()} vertices, {formatBytes(meta.source.sizeBytes)}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-white/40 text-left">
+                <th className="font-normal pb-1">LOD</th>
+                <th className="font-normal pb-1">Triangles</th>
+                <th className="font-normal pb-1">Vertices</th>
+                <th className="font-normal pb-1">Size</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody className="text-white">
+              {meta.lods.map((lod, index) => (
+                <tr key={lod.url} data-testid={`mesh-lod-${index}`}>
+                  <td>{index}</td>
+                  <td>
+                    {lod.triangles.toLocaleString()}
+                    <span className="text-white/40"> / {lod.budget.toLocaleString()}</span>
+                  </td>
+                  <td>{lod.vertices.toLocaleString()}</td>
+                  <td>{formatBytes(lod.sizeBytes)}</td>
+                  <td className="text-right">
+                    <a href={lod.url} download className="text-blue-400 hover:underline">GLB</a>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-xs text-white/40">
+            Compression: {meta.compression} · Textures: {meta.textures === "ktx2" ? "KTX2" : "original"}
+          </div>
+          {meta.warnings.length > 0 && (
+            <ul className="text-xs text-yellow-400 space-y-1" data-testid="list-mesh-warnings">
+              {meta.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+            </ul>
+          )}
+        </div>
+      );
+    }
+
+    if (isMeshJob) {
       return (
         <div className="mt-4 space-y-4">
           <div className="text-white/60 mb-2">
@@ -184,7 +402,7 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
                       <div className="text-6xl">🎲</div>
                       <div className="text-white/80 font-medium">3D Model Generated</div>
                       <div className="text-white/60 text-sm max-w-xs">
-                        File: <span className="font-mono text-blue-400">{firstAsset.split('/').pop()}</span>
+                        File: <span className="font-mono text-blue-400">{firstAsset.split('?')[0].split('/').pop()}</span>
                       </div>
                       <div className="text-white/40 text-xs">
                         Use View 3D or Download buttons to access the model
@@ -200,7 +418,7 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
                 <div className="text-center">
                   <div className="text-red-400 text-sm mb-2">Model failed to load</div>
                   <div className="text-white/40 text-xs mb-4">
-                    File: {firstAsset?.split('/').pop()}
+                    File: {firstAsset?.split('?')[0].split('/').pop()}
                   </div>
                   <Button 
                     onClick={() => window.open(firstAsset, '_blank')}
@@ -227,6 +445,8 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
               ) : null}
             </div>
           </div>
+
+          {inspections.map(inspection => <ModelStats key={inspection.url} inspection={inspection} />)}
         </div>
       );
     }
@@ -250,6 +470,11 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
               </div>
             ))}
           </div>
+          {inspections.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {inspections.map(inspection => <ModelStats key={inspection.url} inspection={inspection} />)}
+            </div>
+          )}
         </div>
       );
     }
@@ -291,14 +516,19 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {/* Progress bar for active jobs */}
-        {(job.status === "queued" || job.status === "processing") && (
+        {/* Progress bar for active jobs, as reported by the provider */}
+        {(job.status === "waiting" || job.status === "queued" || job.status === "processing") && (
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-white/60">
-              <span>Progress</span>
-              <span>{Math.round(progress)}%</span>
+              <span data-testid="text-progress-stage">{formatStage(job)}</span>
+              <span>
+                {job.progress ? `${Math.round(job.progress.percent)}%` : ""}
+                {job.progress?.etaSeconds !== undefined && job.progress.etaSeconds > 0 && (
+                  <span className="ml-2 text-white/40">~{formatEta(job.progress.etaSeconds)} left</span>
+                )}
+              </span>
             </div>
-            <Progress value={progress} className="h-2" />
+            <Progress value={job.progress?.percent ?? 0} className="h-2" />
           </div>
         )}
 
@@ -310,11 +540,42 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
           </div>
         </div>
 
+        {job.parentJobId && (
+          <div className="text-xs text-white/40" data-testid="text-parent-job">
+            Remix of job {job.parentJobId.slice(0, 8)}
+          </div>
+        )}
+
         {/* Credits used */}
         <div className="text-sm text-white/60">
           Credits used: <span className="text-white font-medium">{job.creditsUsed}</span>
         </div>
 
+        {/* Effective image parameters, enough to regenerate the same image */}
+        {job.tool === "text2image" && job.inputs?.options?.seed !== undefined && (
+          <div className="text-xs text-white/40" data-testid="text-image-params">
+            Seed {job.inputs.options.seed} · {job.inputs.options.width}×{job.inputs.options.height} · {job.inputs.options.steps} steps · guidance {job.inputs.options.guidanceScale} · {job.inputs.options.sampler} sampler
+            {job.inputs.options.negativePrompt && <div>Negative: {job.inputs.options.negativePrompt}</div>}
+          </div>
+        )}
+
+        {/* Provider that ran (or produced) the job, with any retries and failovers on the way */}
+        {job.provider && (
+          <div className="text-sm text-white/60">
+            Provider: <span className="text-white font-medium" data-testid="text-provider">{job.provider}</span>
+          </div>
+        )}
+        {job.attempts?.length > 1 && (
+          <ul className="text-xs text-white/40 space-y-1" data-testid="list-attempts">
+            {job.attempts.map((attempt: JobAttempt, index: number) => (
+              <li key={index}>
+                {attempt.provider} try {attempt.attempt}: {attempt.status}
+                {attempt.error && <span className="text-white/30"> ({attempt.error})</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Error message for failed jobs */}
         {job.status === "failed" && job.meta?.error && (
           <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
@@ -324,6 +585,12 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
           </div>
         )}
 
+        {job.status === "cancelled" && (
+          <div className="p-3 bg-white/5 border border-white/10 rounded-lg text-sm text-white/60">
+            Cancelled. {job.creditsUsed} credits were refunded.
+          </div>
+        )}
+
         {/* Asset preview for completed jobs */}
         {job.status === "completed" && renderAssetPreview()}
 
@@ -331,7 +598,7 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
         <div className="flex gap-2 pt-4">
           {job.status === "completed" && job.assetUrls && job.assetUrls.length > 0 && (
             <>
-              {job.tool === "text2mesh" ? (
+              {isMeshJob ? (
                 <Button
                   variant="outline"
                   className="flex-1"
@@ -374,6 +641,28 @@ export function JobStatus({ jobId, onClose }: JobStatusProps) {
               </Button>
             </>
           )}
+          {(job.status === "waiting" || job.status === "queued" || job.status === "processing") && (
+            <Button
+              variant="outline"
+              className="flex-1 text-red-400 hover:text-red-300"
+              onClick={() => cancelJobMutation.mutate()}
+              disabled={cancelJobMutation.isPending}
+              data-testid="button-cancel-job"
+            >
+              <Ban className="h-4 w-4 mr-2" />
+              {cancelJobMutation.isPending ? "Cancelling..." : "Cancel"}
+            </Button>
+          )}
+          {isTerminalStatus(job.status) && (
+            <Button
+              variant="outline"
+              onClick={() => setLocation(`/generate?remix=${job.id}`)}
+              data-testid="button-remix"
+            >
+              <Shuffle className="h-4 w-4 mr-2" />
+              Remix
+            </Button>
+          )}
           <Button 
             onClick={onClose} 
             variant="outline"
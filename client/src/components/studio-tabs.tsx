@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,17 +7,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Upload, Wand2, Palette, Video, Image, Cpu, Layers } from "lucide-react";
+import { Upload, Wand2, Palette, Video, Image, Cpu, Layers, Box, SlidersHorizontal, Dices, ChevronDown, Shuffle, X, Bookmark, Trash2 } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-
-const toolCosts = {
-  "text2image": 1,
-  "text2mesh": 5,
-  "texturing": 3,
-  "img2video": 4,
-} as const;
+import { toolCosts } from "@shared/schema";
 
 const toolInfo = {
   "text2image": {
@@ -32,6 +26,12 @@ const toolInfo = {
     description: "Create 3D models from text descriptions",
     category: "3D Generation"
   },
+  "img2mesh": {
+    icon: Box,
+    title: "Image to 3D",
+    description: "Turn an uploaded or generated image into a 3D model",
+    category: "3D Generation"
+  },
   "texturing": {
     icon: Layers,
     title: "AI Texturing",
@@ -46,13 +46,91 @@ const toolInfo = {
   }
 };
 
+// Tools with a studio tab; mesh optimization starts from the asset library instead
+type StudioTool = keyof typeof toolInfo;
+
+interface GeneratedImage {
+  id: string;
+  prompt: string;
+  status: string;
+  assetUrls: string[] | null;
+  thumbnailUrl: string | null;
+}
+
+// The job being remixed, as returned by /api/jobs/:id
+interface RemixSource {
+  id: string;
+  tool: StudioTool;
+  prompt: string;
+  inputs: Record<string, any> | null;
+}
+
+// A saved preset, as returned by /api/presets
+interface Preset {
+  id: string;
+  tool: string;
+  name: string;
+  description: string | null;
+  promptTemplate: string | null;
+  inputs: Record<string, any> | null;
+  isShared: boolean;
+  isOwner: boolean;
+}
+
+// Upload a job input and return the URL the server stored it under
+async function uploadInput(file: File, kind: "model" | "image"): Promise<string> {
+  const formData = new FormData();
+  formData.append("kind", kind);
+  formData.append("file", file);
+
+  const response = await fetch("/api/uploads", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Upload failed");
+  }
+
+  const { url } = await response.json();
+  return url;
+}
+
+// Text to image presets; the server maps aspect ratios to exact sizes
+const aspectRatios = ["1:1", "16:9", "9:16", "4:3", "3:4", "3:2", "2:3"] as const;
+const samplers = [
+  { value: "default", label: "Model default" },
+  { value: "euler", label: "Euler" },
+  { value: "euler_a", label: "Euler Ancestral" },
+  { value: "dpmpp_2m", label: "DPM++ 2M" },
+  { value: "ddim", label: "DDIM" },
+] as const;
+
+// Variation counts offered per generation; more than one creates a batch
+const variationOptions = [1, 2, 4] as const;
+
 interface StudioTabsProps {
   userCredits: number;
   onJobCreated: (jobId: string) => void;
+  onBatchCreated: (batchId: string) => void;
+  remixJobId?: string | null;
+  onRemixCleared?: () => void;
 }
 
-export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
+export function StudioTabs({ userCredits, onJobCreated, onBatchCreated, remixJobId, onRemixCleared }: StudioTabsProps) {
   const [activeTab, setActiveTab] = useState("text2image");
+  const [variations, setVariations] = useState<number>(1);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [imageParams, setImageParams] = useState({
+    aspectRatio: "1:1",
+    negativePrompt: "",
+    seed: "", // Blank picks a random seed
+    guidanceScale: 0,
+    steps: 4,
+    sampler: "default"
+  });
   const [customizations, setCustomizations] = useState({
     style: "",
     color: "",
@@ -62,23 +140,197 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
   const [prompts, setPrompts] = useState({
     text2image: "",
     text2mesh: "",
+    img2mesh: "",
     texturing: "",
     img2video: ""
   });
   const [uploadedFiles, setUploadedFiles] = useState<Record<string, File | null>>({
+    img2mesh: null,
     texturing: null,
     img2video: null
   });
+  const [imageSource, setImageSource] = useState<"upload" | "generated">("upload");
+  const [selectedImageUrl, setSelectedImageUrl] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedPresets, setSelectedPresets] = useState<Record<string, string>>({}); // Tool -> preset ID
+  const [presetDraft, setPresetDraft] = useState<{ tool: string; name: string; promptTemplate: string; isShared: boolean } | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Completed text2image results the user can turn into 3D
+  const { data: generatedImagesData } = useQuery<{ jobs: GeneratedImage[] }>({
+    queryKey: ["/api/jobs", "text2image"],
+    queryFn: async () => {
+      const response = await fetch("/api/jobs?tool=text2image&limit=12");
+      if (!response.ok) throw new Error("Failed to fetch images");
+      return response.json();
+    },
+    enabled: activeTab === "img2mesh" && imageSource === "generated",
+  });
+
+  const generatedImages = (generatedImagesData?.jobs || []).filter(
+    job => job.status === "completed" && job.assetUrls && job.assetUrls.length > 0
+  );
+
+  const { data: remixSource } = useQuery<RemixSource>({
+    queryKey: ["/api/jobs", remixJobId],
+    queryFn: async () => {
+      const response = await fetch(`/api/jobs/${remixJobId}`);
+      if (!response.ok) throw new Error("Failed to fetch job");
+      return response.json();
+    },
+    enabled: !!remixJobId,
+  });
+  const remixing = !!remixJobId && !!remixSource;
+
+  // Prefill the form with the remixed job's settings
+  useEffect(() => {
+    if (!remixSource) return;
+    const { tool, prompt } = remixSource;
+    const inputs = remixSource.inputs || {};
+    const options = inputs.options || {};
+
+    setActiveTab(tool);
+    setVariations(1);
+    setPrompts(prev => ({ ...prev, [tool]: prompt }));
+
+    if (tool === "text2image") {
+      setImageParams({
+        aspectRatio: options.aspectRatio || "1:1",
+        negativePrompt: options.negativePrompt || "",
+        seed: options.seed !== undefined ? String(options.seed) : "",
+        guidanceScale: options.guidanceScale ?? 0,
+        steps: options.steps ?? 4,
+        sampler: options.sampler || "default"
+      });
+      setShowAdvanced(true);
+    } else if (tool === "text2mesh") {
+      setCustomizations({
+        style: options.customizations?.style || "",
+        color: options.customizations?.color || "",
+        material: options.customizations?.material || "",
+        quality: options.customizations?.quality || "standard"
+      });
+    } else if (tool === "img2mesh" && inputs.imageUrl) {
+      setImageSource("generated");
+      setSelectedImageUrl(inputs.imageUrl);
+    }
+  }, [remixSource?.id]); // Only once per remix, so refetches don't undo the user's edits
+
+  const { data: presetsData } = useQuery<{ presets: Preset[] }>({
+    queryKey: ["/api/presets"],
+    queryFn: async () => {
+      const response = await fetch("/api/presets");
+      if (!response.ok) throw new Error("Failed to fetch presets");
+      return response.json();
+    },
+  });
+  const presets = presetsData?.presets || [];
+
+  // Load a preset's settings into the form; its prompt template is applied by the server
+  const applyPreset = (tool: string, preset: Preset | null) => {
+    setSelectedPresets(prev => {
+      const next = { ...prev };
+      if (preset) next[tool] = preset.id;
+      else delete next[tool];
+      return next;
+    });
+    if (!preset) return;
+
+    const options = preset.inputs?.options || {};
+    if (tool === "text2image") {
+      setImageParams(prev => ({
+        ...prev,
+        aspectRatio: options.aspectRatio ?? prev.aspectRatio,
+        negativePrompt: options.negativePrompt ?? prev.negativePrompt,
+        guidanceScale: options.guidanceScale ?? prev.guidanceScale,
+        steps: options.steps ?? prev.steps,
+        sampler: options.sampler ?? prev.sampler
+      }));
+    } else if (tool === "text2mesh") {
+      setCustomizations({
+        style: options.customizations?.style || "",
+        color: options.customizations?.color || "",
+        material: options.customizations?.material || "",
+        quality: options.customizations?.quality || "standard"
+      });
+    }
+  };
+
+  // The form settings worth keeping in a preset; seeds stay per generation
+  const currentPresetInputs = (tool: string) => {
+    if (tool === "text2image") {
+      const { seed, ...options } = imageParams;
+      return { options: { ...options, negativePrompt: options.negativePrompt.trim() || undefined } };
+    }
+    if (tool === "text2mesh") {
+      return { options: { customizations } };
+    }
+    return undefined;
+  };
+
+  const savePresetMutation = useMutation({
+    mutationFn: async (draft: { tool: string; name: string; promptTemplate: string; isShared: boolean }) => {
+      const response = await fetch("/api/presets", {
+        method: "POST",
+        body: JSON.stringify({
+          tool: draft.tool,
+          name: draft.name,
+          promptTemplate: draft.promptTemplate.trim() || undefined,
+          inputs: currentPresetInputs(draft.tool),
+          isShared: draft.isShared
+        }),
+        headers: { "Content-Type": "application/json" }
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || "Failed to save preset");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({ title: "Preset saved", description: data.preset.name });
+      setPresetDraft(null);
+      setSelectedPresets(prev => ({ ...prev, [data.preset.tool]: data.preset.id }));
+      queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save preset",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deletePresetMutation = useMutation({
+    mutationFn: async (preset: Preset) => {
+      const response = await fetch(`/api/presets/${preset.id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to delete preset");
+      return preset;
+    },
+    onSuccess: (preset: Preset) => {
+      applyPreset(preset.tool, null);
+      queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete preset",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
   // Create job mutation
   const createJobMutation = useMutation({
-    mutationFn: async ({ tool, prompt, inputs }: { tool: string; prompt: string; inputs?: any }) => {
+    mutationFn: async ({ tool, prompt, inputs, presetId }: { tool: string; prompt: string; inputs?: any; presetId?: string }) => {
       const response = await fetch(`/api/jobs`, {
         method: "POST",
-        body: JSON.stringify({ tool, prompt, inputs }),
+        body: JSON.stringify({ tool, prompt, inputs, presetId }),
         headers: { "Content-Type": "application/json" }
       });
       
@@ -114,7 +366,82 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
     }
   });
 
-  const handleSubmit = async (tool: keyof typeof toolCosts) => {
+  // Remix mutation: the server copies the original job and applies these overrides
+  const remixJobMutation = useMutation({
+    mutationFn: async ({ prompt, inputs }: { prompt: string; inputs?: any }) => {
+      const response = await fetch(`/api/jobs/${remixJobId}/remix`, {
+        method: "POST",
+        body: JSON.stringify({ prompt, inputs }),
+        headers: { "Content-Type": "application/json" }
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || 'Failed to remix job');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      onJobCreated(data.job.id);
+      toast({
+        title: "Remix started!",
+        description: `Started ${toolInfo[data.job.tool as keyof typeof toolInfo].title} generation`
+      });
+      setPrompts(prev => ({
+        ...prev,
+        [data.job.tool]: ""
+      }));
+      onRemixCleared?.();
+      queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remix job",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Create batch mutation: several variations of one prompt, charged together
+  const createBatchMutation = useMutation({
+    mutationFn: async ({ tool, prompt, inputs, count, presetId }: { tool: string; prompt: string; inputs?: any; count: number; presetId?: string }) => {
+      const response = await fetch(`/api/batches`, {
+        method: "POST",
+        body: JSON.stringify({ tool, prompt, inputs, count, presetId }),
+        headers: { "Content-Type": "application/json" }
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || 'Failed to create batch');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      onBatchCreated(data.batch.id);
+      toast({
+        title: "Batch created successfully!",
+        description: `Started ${data.batch.count} ${toolInfo[data.batch.tool as keyof typeof toolInfo].title} variations`
+      });
+      setPrompts(prev => ({
+        ...prev,
+        [data.batch.tool]: ""
+      }));
+      queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create batch",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSubmit = async (tool: StudioTool) => {
     const prompt = prompts[tool];
     if (!prompt.trim()) {
       toast({
@@ -125,7 +452,7 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
       return;
     }
 
-    const cost = toolCosts[tool];
+    const cost = toolCosts[tool] * variations;
     if (userCredits < cost) {
       toast({
         title: "Insufficient credits",
@@ -136,21 +463,62 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
     }
 
     let inputs = {};
+    // A remix inherits the original's inputs, so a cleared field has to be sent as null
+    const cleared = remixing ? null : undefined;
 
-    // Handle file uploads for texturing and img2video
-    if (tool === "texturing" && uploadedFiles.texturing) {
-      // For demo purposes, we'll use a placeholder URL
-      // In a real implementation, you'd upload the file first
+    // Upload the picked file first so the job gets a real URL
+    const fileKinds: Record<string, "model" | "image"> = { texturing: "model", img2video: "image", img2mesh: "image" };
+    const file = uploadedFiles[tool];
+    let uploadedUrl: string | null = null;
+    if (file && fileKinds[tool] && !(tool === "img2mesh" && imageSource === "generated")) {
+      setIsUploading(true);
+      try {
+        uploadedUrl = await uploadInput(file, fileKinds[tool]);
+      } catch (error) {
+        toast({
+          title: "Upload failed",
+          description: error instanceof Error ? error.message : "Could not upload file",
+          variant: "destructive"
+        });
+        return;
+      } finally {
+        setIsUploading(false);
+      }
+    }
+
+    if (tool === "texturing" && uploadedUrl) {
       inputs = {
-        modelUrl: "https://example.com/uploaded-model.glb",
+        modelUrl: uploadedUrl,
         options: { resolution: 1024 }
       };
-    } else if (tool === "img2video" && uploadedFiles.img2video) {
-      // For demo purposes, we'll use a placeholder URL
+    } else if (tool === "img2video" && uploadedUrl) {
       inputs = {
-        imageUrl: "https://example.com/uploaded-image.jpg",
+        imageUrl: uploadedUrl,
         options: { duration: 5, fps: 24 }
       };
+    } else if (tool === "img2mesh") {
+      const imageUrl = imageSource === "generated" ? selectedImageUrl : uploadedUrl;
+      if (!imageUrl) {
+        toast({
+          title: "Image required",
+          description: "Upload an image or pick one you generated",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      inputs = { imageUrl };
+    } else if (tool === "text2image") {
+      inputs = {
+        options: {
+          aspectRatio: imageParams.aspectRatio,
+          negativePrompt: imageParams.negativePrompt.trim() || cleared,
+          seed: imageParams.seed !== "" ? Number(imageParams.seed) : cleared,
+          guidanceScale: imageParams.guidanceScale,
+          steps: imageParams.steps,
+          sampler: imageParams.sampler
+        }
+      };
     } else if (tool === "text2mesh") {
       // Enhanced Text to 3D with customizations
       inputs = {
@@ -165,7 +533,13 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
       };
     }
 
-    createJobMutation.mutate({ tool, prompt, inputs });
+    if (remixing && tool === remixSource.tool) {
+      remixJobMutation.mutate({ prompt, inputs });
+    } else if (variations > 1) {
+      createBatchMutation.mutate({ tool, prompt, inputs, count: variations, presetId: selectedPresets[tool] });
+    } else {
+      createJobMutation.mutate({ tool, prompt, inputs, presetId: selectedPresets[tool] });
+    }
   };
 
   const handleFileUpload = (tool: string, event: React.ChangeEvent<HTMLInputElement>) => {
@@ -178,17 +552,38 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
     }
   };
 
-  const canAfford = (tool: keyof typeof toolCosts) => userCredits >= toolCosts[tool];
-  const isLoading = createJobMutation.isPending;
+  const canAfford = (tool: StudioTool) => userCredits >= toolCosts[tool] * variations;
+  const hasImageInput = imageSource === "generated" ? !!selectedImageUrl : !!uploadedFiles.img2mesh;
+  const isLoading = createJobMutation.isPending || createBatchMutation.isPending || remixJobMutation.isPending || isUploading;
 
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
+      {remixing && (
+        <div className="flex items-center gap-3 rounded-lg border border-blue-500/30 bg-blue-500/10 px-4 py-3 text-sm text-white" data-testid="banner-remix">
+          <Shuffle className="h-4 w-4 text-blue-400 shrink-0" />
+          <div className="flex-1 min-w-0">
+            Remixing <span className="text-white/70 truncate">"{remixSource.prompt}"</span>. Change any settings, then generate.
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-white/70"
+            onClick={() => onRemixCleared?.()}
+            aria-label="Stop remixing"
+            data-testid="button-clear-remix"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 p-4 mb-8 bg-black/20 backdrop-blur-sm border border-white/10 rounded-lg relative z-20">
+        <TabsList className="grid w-full grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4 p-4 mb-8 bg-black/20 backdrop-blur-sm border border-white/10 rounded-lg relative z-20">
           {Object.entries(toolInfo).map(([key, info]) => {
             const Icon = info.icon;
-            const cost = toolCosts[key as keyof typeof toolCosts];
-            const affordable = canAfford(key as keyof typeof toolCosts);
+            const cost = toolCosts[key as StudioTool];
+            const affordable = canAfford(key as StudioTool);
             
             return (
               <TabsTrigger
@@ -217,11 +612,13 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
         </TabsList>
 
         {Object.entries(toolInfo).map(([key, info]) => {
-          const tool = key as keyof typeof toolCosts;
+          const tool = key as StudioTool;
           const Icon = info.icon;
           const cost = toolCosts[tool];
           const affordable = canAfford(tool);
           const needsFileUpload = tool === "texturing" || tool === "img2video";
+          const toolPresets = presets.filter(preset => preset.tool === tool);
+          const selectedPreset = toolPresets.find(preset => preset.id === selectedPresets[tool]);
 
           return (
             <TabsContent 
@@ -249,6 +646,94 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  {/* Saved presets for this tool: the user's own and shared ones */}
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Label className="text-white text-sm shrink-0">Preset</Label>
+                      <select
+                        className="flex-1 bg-white/5 border border-white/10 text-white rounded px-2 py-1.5 text-sm"
+                        value={selectedPresets[tool] || ""}
+                        onChange={(e) => applyPreset(tool, toolPresets.find(preset => preset.id === e.target.value) || null)}
+                        data-testid={`select-preset-${tool}`}
+                      >
+                        <option value="">None</option>
+                        {toolPresets.map(preset => (
+                          <option key={preset.id} value={preset.id}>
+                            {preset.name}{preset.isShared && !preset.isOwner ? " (shared)" : ""}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPresetDraft(presetDraft?.tool === tool ? null : { tool, name: "", promptTemplate: "", isShared: false })}
+                        title="Save current settings as a preset"
+                        data-testid={`button-save-preset-${tool}`}
+                      >
+                        <Bookmark className="h-4 w-4" />
+                      </Button>
+                      {selectedPreset?.isOwner && (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="text-red-400 hover:text-red-300"
+                          onClick={() => deletePresetMutation.mutate(selectedPreset)}
+                          disabled={deletePresetMutation.isPending}
+                          title="Delete this preset"
+                          data-testid={`button-delete-preset-${tool}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    {selectedPreset?.promptTemplate && (
+                      <p className="text-xs text-white/50">
+                        Your prompt fills in: <span className="text-white/70">{selectedPreset.promptTemplate}</span>
+                      </p>
+                    )}
+
+                    {presetDraft?.tool === tool && (
+                      <div className="rounded-lg border border-white/10 bg-white/5 p-3 space-y-2">
+                        <Input
+                          value={presetDraft.name}
+                          onChange={(e) => setPresetDraft({ ...presetDraft, name: e.target.value })}
+                          placeholder="Preset name"
+                          className="bg-white/5 border-white/10 text-white placeholder:text-white/40"
+                          data-testid={`input-preset-name-${tool}`}
+                        />
+                        <Input
+                          value={presetDraft.promptTemplate}
+                          onChange={(e) => setPresetDraft({ ...presetDraft, promptTemplate: e.target.value })}
+                          placeholder="Prompt template (optional), e.g. {prompt}, studio lighting"
+                          className="bg-white/5 border-white/10 text-white placeholder:text-white/40"
+                          data-testid={`input-preset-template-${tool}`}
+                        />
+                        <div className="flex items-center justify-between">
+                          <label className="flex items-center gap-2 text-sm text-white/80">
+                            <input
+                              type="checkbox"
+                              checked={presetDraft.isShared}
+                              onChange={(e) => setPresetDraft({ ...presetDraft, isShared: e.target.checked })}
+                              data-testid={`checkbox-preset-shared-${tool}`}
+                            />
+                            Share with the team
+                          </label>
+                          <Button
+                            type="button"
+                            size="sm"
+                            onClick={() => savePresetMutation.mutate(presetDraft)}
+                            disabled={!presetDraft.name.trim() || savePresetMutation.isPending}
+                            data-testid={`button-confirm-preset-${tool}`}
+                          >
+                            {savePresetMutation.isPending ? "Saving..." : "Save preset"}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
                   {/* File upload for texturing and img2video */}
                   {needsFileUpload && (
                     <div className="space-y-2">
@@ -258,7 +743,7 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                       <div className="flex items-center gap-2">
                         <Input
                           type="file"
-                          accept={tool === "texturing" ? ".glb,.gltf" : "image/*"}
+                          accept={tool === "texturing" ? ".glb,.gltf" : "image/png,image/jpeg,image/webp"}
                           onChange={(e) => handleFileUpload(tool, e)}
                           className="bg-white/5 border-white/10 text-white file:bg-blue-600 file:text-white file:border-0"
                           data-testid={`input-file-${tool}`}
@@ -267,12 +752,85 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                       </div>
                       {uploadedFiles[tool] && (
                         <p className="text-sm text-green-400">
-                          ✓ {uploadedFiles[tool]!.name} uploaded
+                          ✓ {uploadedFiles[tool]!.name} selected
                         </p>
                       )}
                     </div>
                   )}
 
+                  {/* Image input for image to 3D: a new upload or an earlier text2image result */}
+                  {tool === "img2mesh" && (
+                    <div className="space-y-3">
+                      <div className="flex gap-2">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={imageSource === "upload" ? "secondary" : "outline"}
+                          onClick={() => setImageSource("upload")}
+                          data-testid="button-image-source-upload"
+                        >
+                          <Upload className="h-4 w-4 mr-2" />
+                          Upload Image
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={imageSource === "generated" ? "secondary" : "outline"}
+                          onClick={() => setImageSource("generated")}
+                          data-testid="button-image-source-generated"
+                        >
+                          <Image className="h-4 w-4 mr-2" />
+                          My Generated Images
+                        </Button>
+                      </div>
+
+                      {imageSource === "upload" ? (
+                        <div className="space-y-2">
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="file"
+                              accept="image/png,image/jpeg,image/webp"
+                              onChange={(e) => handleFileUpload(tool, e)}
+                              className="bg-white/5 border-white/10 text-white file:bg-blue-600 file:text-white file:border-0"
+                              data-testid="input-file-img2mesh"
+                            />
+                            <Upload className="h-4 w-4 text-white/60" />
+                          </div>
+                          {uploadedFiles.img2mesh && (
+                            <p className="text-sm text-green-400">
+                              ✓ {uploadedFiles.img2mesh.name} selected
+                            </p>
+                          )}
+                        </div>
+                      ) : generatedImages.length === 0 ? (
+                        <p className="text-sm text-white/60">
+                          No generated images yet. Create one in the Text to Image tab first.
+                        </p>
+                      ) : (
+                        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                          {generatedImages.map((image) => {
+                            const url = image.assetUrls![0];
+                            return (
+                              <button
+                                key={image.id}
+                                type="button"
+                                onClick={() => setSelectedImageUrl(url)}
+                                className={cn(
+                                  "aspect-square rounded-md overflow-hidden border-2 transition-colors",
+                                  selectedImageUrl === url ? "border-blue-500" : "border-transparent hover:border-white/30"
+                                )}
+                                title={image.prompt}
+                                data-testid={`button-select-image-${image.id}`}
+                              >
+                                <img src={image.thumbnailUrl || url} alt={image.prompt} className="w-full h-full object-cover" />
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Prompt input */}
                   <div className="space-y-2">
                     <Label htmlFor={`prompt-${tool}`} className="text-white">
@@ -283,6 +841,7 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                       placeholder={
                         tool === "text2image" ? "A beautiful sunset over a mountain range..." :
                         tool === "text2mesh" ? "A futuristic robot with glowing eyes..." :
+                        tool === "img2mesh" ? "Describe the object in the image..." :
                         tool === "texturing" ? "Rusty metal with scratches and wear..." :
                         "Describe the motion or scene you want..."
                       }
@@ -307,6 +866,7 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                           <Label className="text-white text-xs">Style</Label>
                           <select 
                             className="w-full bg-white/5 border border-white/10 text-white rounded px-2 py-1 text-sm"
+                            value={customizations.style}
                             onChange={(e) => setCustomizations(prev => ({ ...prev, style: e.target.value }))}
                           >
                             <option value="">Default</option>
@@ -323,6 +883,7 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                           <Label className="text-white text-xs">Color Scheme</Label>
                           <select 
                             className="w-full bg-white/5 border border-white/10 text-white rounded px-2 py-1 text-sm"
+                            value={customizations.color}
                             onChange={(e) => setCustomizations(prev => ({ ...prev, color: e.target.value }))}
                           >
                             <option value="">Default</option>
@@ -339,6 +900,7 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                           <Label className="text-white text-xs">Material</Label>
                           <select 
                             className="w-full bg-white/5 border border-white/10 text-white rounded px-2 py-1 text-sm"
+                            value={customizations.material}
                             onChange={(e) => setCustomizations(prev => ({ ...prev, material: e.target.value }))}
                           >
                             <option value="">Default</option>
@@ -355,6 +917,7 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                           <Label className="text-white text-xs">Quality</Label>
                           <select 
                             className="w-full bg-white/5 border border-white/10 text-white rounded px-2 py-1 text-sm"
+                            value={customizations.quality}
                             onChange={(e) => setCustomizations(prev => ({ ...prev, quality: e.target.value }))}
                           >
                             <option value="standard">Standard</option>
@@ -366,6 +929,135 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                     </div>
                   )}
 
+                  {/* Advanced text to image parameters */}
+                  {tool === "text2image" && (
+                    <div className="space-y-4 border-t border-white/10 pt-4">
+                      <button
+                        type="button"
+                        className="w-full text-sm font-medium text-white flex items-center gap-2"
+                        onClick={() => setShowAdvanced(prev => !prev)}
+                        data-testid="button-toggle-advanced"
+                      >
+                        <SlidersHorizontal className="h-4 w-4" />
+                        Advanced Settings
+                        <ChevronDown className={cn("h-4 w-4 ml-auto transition-transform", showAdvanced && "rotate-180")} />
+                      </button>
+
+                      {showAdvanced && (
+                        <div className="space-y-4">
+                          {/* Aspect Ratio */}
+                          <div className="space-y-2">
+                            <Label className="text-white text-xs">Aspect Ratio</Label>
+                            <div className="flex flex-wrap gap-2">
+                              {aspectRatios.map(ratio => (
+                                <Button
+                                  key={ratio}
+                                  type="button"
+                                  size="sm"
+                                  variant={imageParams.aspectRatio === ratio ? "default" : "outline"}
+                                  onClick={() => setImageParams(prev => ({ ...prev, aspectRatio: ratio }))}
+                                  data-testid={`button-aspect-${ratio}`}
+                                >
+                                  {ratio}
+                                </Button>
+                              ))}
+                            </div>
+                          </div>
+
+                          {/* Negative Prompt */}
+                          <div className="space-y-2">
+                            <Label className="text-white text-xs">Negative Prompt</Label>
+                            <Textarea
+                              placeholder="Things to keep out of the image"
+                              value={imageParams.negativePrompt}
+                              onChange={(e) => setImageParams(prev => ({ ...prev, negativePrompt: e.target.value }))}
+                              className="bg-white/5 border-white/10 text-white placeholder:text-white/40 min-h-[60px]"
+                              data-testid="input-negative-prompt"
+                            />
+                          </div>
+
+                          <div className="grid grid-cols-2 gap-4">
+                            {/* Seed */}
+                            <div className="space-y-2">
+                              <Label className="text-white text-xs">Seed</Label>
+                              <div className="flex gap-2">
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  placeholder="Random"
+                                  value={imageParams.seed}
+                                  onChange={(e) => setImageParams(prev => ({ ...prev, seed: e.target.value }))}
+                                  className="bg-white/5 border-white/10 text-white"
+                                  data-testid="input-seed"
+                                />
+                                <Button
+                                  type="button"
+                                  size="icon"
+                                  variant="outline"
+                                  onClick={() => setImageParams(prev => ({ ...prev, seed: String(Math.floor(Math.random() * 2 ** 31)) }))}
+                                  aria-label="Random seed"
+                                  data-testid="button-random-seed"
+                                >
+                                  <Dices className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </div>
+
+                            {/* Sampler */}
+                            <div className="space-y-2">
+                              <Label className="text-white text-xs">Sampler</Label>
+                              <select
+                                className="w-full bg-white/5 border border-white/10 text-white rounded px-2 py-2 text-sm"
+                                value={imageParams.sampler}
+                                onChange={(e) => setImageParams(prev => ({ ...prev, sampler: e.target.value }))}
+                                data-testid="select-sampler"
+                              >
+                                {samplers.map(sampler => (
+                                  <option key={sampler.value} value={sampler.value}>{sampler.label}</option>
+                                ))}
+                              </select>
+                            </div>
+
+                            {/* Steps */}
+                            <div className="space-y-2">
+                              <Label className="text-white text-xs">Steps</Label>
+                              <Input
+                                type="number"
+                                min={1}
+                                max={50}
+                                value={imageParams.steps}
+                                onChange={(e) => setImageParams(prev => ({ ...prev, steps: Number(e.target.value) }))}
+                                className="bg-white/5 border-white/10 text-white"
+                                data-testid="input-steps"
+                              />
+                            </div>
+
+                            {/* Guidance Scale */}
+                            <div className="space-y-2">
+                              <Label className="text-white text-xs">Guidance Scale</Label>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={20}
+                                step={0.5}
+                                value={imageParams.guidanceScale}
+                                onChange={(e) => setImageParams(prev => ({ ...prev, guidanceScale: Number(e.target.value) }))}
+                                className="bg-white/5 border-white/10 text-white"
+                                data-testid="input-guidance-scale"
+                              />
+                            </div>
+                          </div>
+
+                          {variations > 1 && imageParams.seed !== "" && (
+                            <p className="text-xs text-white/40">
+                              Variations use consecutive seeds starting at {imageParams.seed}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Additional options for some tools */}
                   {tool === "img2video" && (
                     <div className="grid grid-cols-2 gap-4">
@@ -394,10 +1086,31 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                     </div>
                   )}
 
+                  {/* Number of variations to generate from this prompt; a remix is always a single job */}
+                  {!(remixing && tool === remixSource.tool) && (
+                    <div className="flex items-center justify-between">
+                      <Label className="text-white">Variations</Label>
+                      <div className="flex gap-2">
+                        {variationOptions.map(option => (
+                          <Button
+                            key={option}
+                            type="button"
+                            size="sm"
+                            variant={variations === option ? "default" : "outline"}
+                            onClick={() => setVariations(option)}
+                            data-testid={`button-variations-${option}`}
+                          >
+                            {option}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Generate button */}
                   <Button
                     onClick={() => handleSubmit(tool)}
-                    disabled={!affordable || isLoading || !prompts[tool].trim()}
+                    disabled={!affordable || isLoading || !prompts[tool].trim() || (tool === "img2mesh" && !hasImageInput)}
                     className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50"
                     data-testid={`button-generate-${tool}`}
                   >
@@ -409,14 +1122,14 @@ export function StudioTabs({ userCredits, onJobCreated }: StudioTabsProps) {
                     ) : (
                       <>
                         <Wand2 className="h-4 w-4 mr-2" />
-                        Generate {info.title}
+                        {remixing && tool === remixSource.tool ? "Remix" : "Generate"} {variations > 1 ? `${variations} × ` : ""}{info.title}
                       </>
                     )}
                   </Button>
 
                   {!affordable && (
                     <p className="text-sm text-red-400 text-center">
-                      You need {cost - userCredits} more credits to use this tool
+                      You need {cost * variations - userCredits} more credits to use this tool
                     </p>
                   )}
                 </CardContent>
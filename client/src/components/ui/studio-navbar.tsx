@@ -1,10 +1,11 @@
 import { Link, useLocation } from "wouter";
 import { useState, useEffect } from "react";
-import { Zap, Menu, X, Smartphone, Download } from "lucide-react";
+import { Zap, Menu, X, Smartphone, Download, LogIn, LogOut, User } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { StudioButton } from "@/components/ui/studio-button";
 import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
 
 interface CreditsResponse {
   credits: number;
@@ -79,16 +80,20 @@ export default function StudioNavbar() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
   const { isInstallable, installApp } = usePWAInstall();
+  const { user, logoutMutation } = useAuth();
   
-  // Fetch current user credits
+  // Fetch current user credits (only once signed in)
   const { data: creditsData, isLoading } = useQuery<CreditsResponse>({
     queryKey: ['/api/credits'],
     refetchInterval: 30000, // Refresh every 30 seconds
+    enabled: !!user,
   });
 
   const navItems = [
     { href: "/", label: "Home", testId: "nav-home" },
     { href: "/generate", label: "Generate", testId: "nav-generate" },
+    { href: "/pipelines", label: "Pipelines", testId: "nav-pipelines" },
+    { href: "/bulk", label: "Bulk", testId: "nav-bulk" },
     { href: "/assets", label: "Assets", testId: "nav-assets" },
     { href: "/playground", label: "API", testId: "nav-playground" },
   ];
@@ -143,12 +148,46 @@ export default function StudioNavbar() {
             )}
             
             {/* Credits Display */}
-            <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-full glass border border-accent/20">
-              <div className="w-2 h-2 bg-accent rounded-full animate-pulse"></div>
-              <span className="text-sm font-medium text-accent" data-testid="credits-display">
-                {isLoading ? "..." : `${creditsData?.credits ?? 0} credits`}
-              </span>
-            </div>
+            {user && (
+              <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-full glass border border-accent/20">
+                <div className="w-2 h-2 bg-accent rounded-full animate-pulse"></div>
+                <span className="text-sm font-medium text-accent" data-testid="credits-display">
+                  {isLoading ? "..." : `${creditsData?.credits ?? 0} credits`}
+                </span>
+              </div>
+            )}
+
+            {/* Account */}
+            {user ? (
+              <div className="hidden md:flex items-center gap-2">
+                <span className="flex items-center gap-1 text-sm text-muted-foreground" data-testid="text-username">
+                  <User className="w-4 h-4" />
+                  {user.username}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  title="Log out"
+                  data-testid="button-logout"
+                >
+                  <LogOut className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <Link href="/auth">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="hidden md:inline-flex gap-2"
+                  data-testid="button-login"
+                >
+                  <LogIn className="w-4 h-4" />
+                  Log in
+                </Button>
+              </Link>
+            )}
 
             {/* Theme Toggle */}
             <Button
@@ -201,13 +240,41 @@ export default function StudioNavbar() {
               </Link>
             ))}
             
-            {/* Mobile credits */}
-            <div className="flex items-center justify-between px-4 py-2">
-              <span className="text-sm text-muted-foreground">Credits:</span>
-              <Badge variant="beta" data-testid="credits-mobile">
-                {isLoading ? "..." : `${creditsData?.credits ?? 0}`}
-              </Badge>
-            </div>
+            {/* Mobile account and credits */}
+            {user ? (
+              <>
+                <div className="flex items-center justify-between px-4 py-2">
+                  <span className="text-sm text-muted-foreground">Credits:</span>
+                  <Badge variant="beta" data-testid="credits-mobile">
+                    {isLoading ? "..." : `${creditsData?.credits ?? 0}`}
+                  </Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start gap-3"
+                  onClick={() => {
+                    setMobileMenuOpen(false);
+                    logoutMutation.mutate();
+                  }}
+                  data-testid="button-logout-mobile"
+                >
+                  <LogOut className="w-4 h-4" />
+                  <span>Log out ({user.username})</span>
+                </Button>
+              </>
+            ) : (
+              <Link href="/auth">
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start gap-3"
+                  onClick={() => setMobileMenuOpen(false)}
+                  data-testid="button-login-mobile"
+                >
+                  <LogIn className="w-4 h-4" />
+                  <span>Log in</span>
+                </Button>
+              </Link>
+            )}
             
             {/* Mobile PWA Install */}
             {isInstallable && (
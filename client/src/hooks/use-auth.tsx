@@ -0,0 +1,105 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  credits: number;
+}
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  signupMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// POST credentials and surface the server's error message on failure
+async function postAuth(url: string, body?: Credentials) {
+  const response = await fetch(url, {
+    method: "POST",
+    body: body ? JSON.stringify(body) : undefined,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || error.message || "Authentication failed");
+  }
+
+  return response.json();
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Everything cached belongs to the previous session
+  const onSessionChange = (nextUser: AuthUser | null) => {
+    queryClient.clear();
+    queryClient.setQueryData(["/api/auth/me"], nextUser);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials): Promise<AuthUser> => postAuth("/api/auth/login", credentials),
+    onSuccess: (user: AuthUser) => onSessionChange(user),
+    onError: (error: Error) => {
+      toast({ title: "Login failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: (credentials: Credentials): Promise<AuthUser> => postAuth("/api/auth/signup", credentials),
+    onSuccess: (user: AuthUser) => onSessionChange(user),
+    onError: (error: Error) => {
+      toast({ title: "Sign up failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await postAuth("/api/auth/logout");
+    },
+    onSuccess: () => onSessionChange(null),
+    onError: (error: Error) => {
+      toast({ title: "Logout failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        signupMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
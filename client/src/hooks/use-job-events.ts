@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from "react";
+
+export interface JobEvent {
+  jobId: string;
+  userId: string;
+  tool: string;
+  pipelineId?: string | null;
+  status: string;
+  progress?: { percent: number; stage?: string; etaSeconds?: number } | null;
+  assetUrls?: string[] | null;
+  previewImage?: string | null;
+  error?: string;
+  updatedAt: string;
+}
+
+export function isTerminalStatus(status?: string) {
+  return status === "completed" || status === "failed" || status === "cancelled";
+}
+
+interface EventStreamOptions {
+  closeOn?: (event: JobEvent) => boolean; // Stop listening (and reconnecting) after this event
+}
+
+// Subscribe to a job SSE endpoint; returns whether the stream is currently open
+// so callers can fall back to polling while it is down
+export function useJobEvents(
+  url: string | null,
+  onEvent: (event: JobEvent) => void,
+  options: EventStreamOptions = {},
+): boolean {
+  const [connected, setConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+  const closeOnRef = useRef(options.closeOn);
+  onEventRef.current = onEvent;
+  closeOnRef.current = options.closeOn;
+
+  useEffect(() => {
+    if (!url || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(url, { withCredentials: true });
+
+    source.onopen = () => setConnected(true);
+    // EventSource retries on its own; poll until it reconnects
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener("job", (message) => {
+      const event: JobEvent = JSON.parse((message as MessageEvent).data);
+      onEventRef.current(event);
+
+      if (closeOnRef.current?.(event)) {
+        source.close();
+      }
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [url]);
+
+  return connected;
+}
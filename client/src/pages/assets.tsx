@@ -1,91 +1,512 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Search, Download, Eye, Calendar, Image, Box, PlayCircle } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Search, Download, Eye, Calendar, Image, Box, PlayCircle, Shuffle, File, Wand2, Sparkles, Star, Folder, Tag, Trash2, X, Layers } from "lucide-react";
 import { Link } from "wouter";
 import { format } from "date-fns";
+import { MAX_LOD_LEVELS } from "@shared/schema";
 
 interface Asset {
   id: string;
+  jobId: string;
+  tool: string;
+  kind: "image" | "model" | "video" | "file";
   prompt: string;
   url: string;
-  jobType: string;
-  userId: string;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  width: number | null;
+  height: number | null;
+  status: "pending" | "ready" | "unavailable";
+  collectionId: string | null;
+  favorite: boolean;
+  tags: string[];
+  previewUrl: string | null; // Thumbnail, video poster or rendered model still
+  similarity?: number;
   createdAt: string;
 }
 
-function getJobTypeIcon(jobType: string) {
-  switch (jobType) {
-    case "text-to-image":
+interface Collection {
+  id: string;
+  name: string;
+  assetCount: number;
+}
+
+interface AssetPage {
+  assets: Asset[];
+  total: number;
+  nextOffset: number | null;
+}
+
+interface AssetFilters {
+  tool: string;
+  kind: string;
+  status: string;
+  from: string;
+  to: string;
+  collection: string; // A collection id, or "none" for unfiled
+  tag: string;
+  favorite: string; // "true" for favourites only
+  sort: string; // Empty lets the server pick: best match while searching, newest otherwise
+}
+
+const PAGE_SIZE = 24;
+
+const toolLabels: Record<string, string> = {
+  text2image: "Text to Image",
+  text2mesh: "Text to 3D",
+  img2mesh: "Image to 3D",
+  texturing: "AI Texturing",
+  img2video: "Image to Video",
+  meshprocess: "Mesh Optimization",
+};
+
+const sortLabels: Record<string, string> = {
+  relevance: "Best match",
+  newest: "Newest first",
+  oldest: "Oldest first",
+  largest: "Largest first",
+  smallest: "Smallest first",
+};
+
+// Formats 3D models can be converted to on download
+const modelFormatLabels: Record<string, string> = {
+  glb: "GLB",
+  gltf: "glTF (embedded)",
+  obj: "OBJ",
+  ply: "PLY",
+  usdz: "USDZ (Apple)",
+};
+
+// Mesh optimization: how the GLBs are compressed
+const meshCompressionLabels: Record<string, string> = {
+  none: "None",
+  draco: "Draco (smallest geometry)",
+  meshopt: "meshopt (fastest to decode)",
+};
+
+const emptyFilters: AssetFilters = { tool: "", kind: "", status: "", from: "", to: "", collection: "", tag: "", favorite: "", sort: "" };
+
+type BulkAction =
+  | { action: "move"; collectionId: string | null }
+  | { action: "tag" | "untag"; tags: string[] }
+  | { action: "favorite"; favorite: boolean }
+  | { action: "delete" };
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { "Content-Type": "application/json" }
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || "Request failed");
+  }
+
+  return response.json();
+}
+
+function getToolIcon(tool: string) {
+  switch (tool) {
+    case "text2image":
       return <Image className="w-4 h-4" />;
-    case "text-to-3D":
+    case "text2mesh":
+    case "img2mesh":
+    case "meshprocess":
       return <Box className="w-4 h-4" />;
-    case "image-to-video":
+    case "texturing":
+      return <Wand2 className="w-4 h-4" />;
+    case "img2video":
       return <PlayCircle className="w-4 h-4" />;
     default:
-      return <Image className="w-4 h-4" />;
+      return <File className="w-4 h-4" />;
   }
 }
 
-function getJobTypeColor(jobType: string) {
-  switch (jobType) {
-    case "text-to-image":
+function getToolColor(tool: string) {
+  switch (tool) {
+    case "text2image":
       return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300";
-    case "text-to-3D":
+    case "text2mesh":
+    case "img2mesh":
+    case "meshprocess":
       return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
-    case "image-to-video":
+    case "texturing":
+      return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300";
+    case "img2video":
       return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300";
     default:
       return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300";
   }
 }
 
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// "1024×1024 · 1.4 MB · PNG", from whatever the server has measured so far
+function describeAsset(asset: Asset) {
+  const parts: string[] = [];
+  if (asset.width && asset.height) parts.push(`${asset.width}×${asset.height}`);
+  if (asset.sizeBytes !== null) parts.push(formatBytes(asset.sizeBytes));
+  if (asset.mimeType) parts.push(asset.mimeType.split("/")[1].replace(/^gltf-binary$/, "glb").toUpperCase());
+  return parts.join(" · ");
+}
+
 function AssetThumbnail({ asset }: { asset: Asset }) {
+  const [broken, setBroken] = useState(false);
+
+  if (asset.previewUrl && !broken) {
+    return (
+      <div className="relative aspect-video rounded-lg overflow-hidden bg-muted">
+        <img
+          src={asset.previewUrl}
+          alt={asset.prompt}
+          loading="lazy"
+          className={`w-full h-full transition-transform group-hover:scale-105 ${asset.kind === "model" ? "object-contain" : "object-cover"}`}
+          onError={() => setBroken(true)}
+          data-testid={`thumbnail-${asset.id}`}
+        />
+        {asset.kind === "video" && (
+          <PlayCircle className="absolute inset-0 m-auto w-10 h-10 text-white/80 drop-shadow" />
+        )}
+      </div>
+    );
+  }
+
+  if (asset.kind === "image" && !broken) {
+    return (
+      <div className="aspect-video rounded-lg overflow-hidden bg-muted">
+        <img
+          src={asset.url}
+          alt={asset.prompt}
+          loading="lazy"
+          className="w-full h-full object-cover transition-transform group-hover:scale-105"
+          onError={() => setBroken(true)}
+          data-testid={`thumbnail-${asset.id}`}
+        />
+      </div>
+    );
+  }
+
+  if (asset.kind === "video" && !broken) {
+    return (
+      <div className="aspect-video rounded-lg overflow-hidden bg-muted">
+        <video
+          src={asset.url}
+          muted
+          preload="metadata"
+          className="w-full h-full object-cover"
+          onError={() => setBroken(true)}
+          data-testid={`thumbnail-${asset.id}`}
+        />
+      </div>
+    );
+  }
+
+  const gradient =
+    asset.kind === "image" ? "from-blue-400 to-blue-600" :
+    asset.kind === "model" ? "from-green-400 to-green-600" :
+    asset.kind === "video" ? "from-purple-400 to-purple-600" :
+    "from-gray-400 to-gray-600";
+
   return (
-    <div className="aspect-video rounded-lg overflow-hidden bg-muted">
-      <img
-        src={asset.url}
-        alt={asset.prompt}
-        className="w-full h-full object-cover transition-transform group-hover:scale-105"
-        onError={(e) => {
-          const target = e.target as HTMLImageElement;
-          target.parentElement!.innerHTML = `
-            <div class="aspect-video rounded-lg flex items-center justify-center text-white font-medium text-lg bg-gradient-to-br ${
-              asset.jobType === "text-to-image" ? "from-blue-400 to-blue-600" :
-              asset.jobType === "text-to-3D" ? "from-green-400 to-green-600" :
-              asset.jobType === "image-to-video" ? "from-purple-400 to-purple-600" :
-              "from-gray-400 to-gray-600"
-            }">
-              <div class="flex flex-col items-center gap-2">
-                <svg class="w-8 h-8" fill="currentColor" viewBox="0 0 20 20">
-                  <path fill-rule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clip-rule="evenodd" />
-                </svg>
-                <span class="text-sm">${asset.jobType.replace("-", " ")}</span>
-              </div>
-            </div>
-          `;
-        }}
-        data-testid={`thumbnail-${asset.id}`}
-      />
+    <div
+      className={`aspect-video rounded-lg flex items-center justify-center text-white font-medium bg-gradient-to-br ${gradient}`}
+      data-testid={`thumbnail-${asset.id}`}
+    >
+      <div className="flex flex-col items-center gap-2">
+        {asset.kind === "model" ? <Box className="w-8 h-8" /> : asset.kind === "video" ? <PlayCircle className="w-8 h-8" /> : <Image className="w-8 h-8" />}
+        <span className="text-sm">{toolLabels[asset.tool] || asset.tool}</span>
+      </div>
     </div>
   );
 }
 
+function SimilarAssets({ asset, onClose }: { asset: Asset; onClose: () => void }) {
+  const { data, isLoading, error } = useQuery<{ assets: Asset[] }>({
+    queryKey: ["/api/assets", asset.id, "similar"],
+  });
+
+  const similar = data?.assets || [];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Similar assets</DialogTitle>
+          <DialogDescription className="line-clamp-2">{asset.prompt}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Finding similar assets...</div>
+        ) : error ? (
+          <div className="text-sm text-red-500">Failed to find similar assets.</div>
+        ) : similar.length === 0 ? (
+          <div className="text-sm text-muted-foreground">Nothing similar yet.</div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 max-h-[60vh] overflow-auto">
+            {similar.map(match => (
+              <div key={match.id} className="space-y-2" data-testid={`similar-${match.id}`}>
+                <AssetThumbnail asset={match} />
+                <div className="text-xs line-clamp-2">{match.prompt}</div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{toolLabels[match.tool] || match.tool}</span>
+                  <Badge variant="secondary">{Math.round((match.similarity ?? 0) * 100)}% match</Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function OptimizeModel({ asset, onClose }: { asset: Asset; onClose: () => void }) {
+  const [budgets, setBudgets] = useState("50000, 10000, 2000");
+  const [compression, setCompression] = useState("draco");
+  const [ktx2, setKtx2] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const lods = budgets.split(/[\s,]+/).filter(Boolean).map(Number);
+  const budgetsValid = lods.length > 0 && lods.length <= MAX_LOD_LEVELS && lods.every(lod => Number.isInteger(lod) && lod >= 12);
+
+  const optimizeMutation = useMutation({
+    mutationFn: () => sendJson("/api/jobs", "POST", {
+      tool: "meshprocess",
+      prompt: asset.prompt,
+      inputs: { assetId: asset.id, options: { lods, compression, textures: ktx2 ? "ktx2" : "original" } },
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast({ title: "Optimization started", description: "The LODs appear in your library when the job finishes." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't start optimization", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Optimize model</DialogTitle>
+          <DialogDescription className="line-clamp-2">{asset.prompt}</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (budgetsValid) optimizeMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="optimize-budgets">Triangle budgets</Label>
+            <Input
+              id="optimize-budgets"
+              value={budgets}
+              onChange={(e) => setBudgets(e.target.value)}
+              data-testid="input-optimize-budgets"
+            />
+            <p className="text-xs text-muted-foreground">
+              Up to {MAX_LOD_LEVELS} levels, one GLB each. Budgets above the model's own count keep every triangle.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="optimize-compression">Compression</Label>
+            <select
+              id="optimize-compression"
+              className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+              value={compression}
+              onChange={(e) => setCompression(e.target.value)}
+              data-testid="select-optimize-compression"
+            >
+              {Object.entries(meshCompressionLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={ktx2} onCheckedChange={(checked) => setKtx2(checked === true)} data-testid="checkbox-optimize-ktx2" />
+            Transcode textures to KTX2
+          </label>
+          <Button type="submit" className="w-full" disabled={!budgetsValid || optimizeMutation.isPending} data-testid="button-start-optimize">
+            Optimize (2 credits)
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function Assets() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<AssetFilters>(emptyFilters);
+  const [similarTo, setSimilarTo] = useState<Asset | null>(null);
+  const [optimizing, setOptimizing] = useState<Asset | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [tagInput, setTagInput] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [managingCollections, setManagingCollections] = useState(false);
+  const [collectionName, setCollectionName] = useState("");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const { data: assets = [], isLoading, error } = useQuery<Asset[]>({
-    queryKey: ["/api/assets"],
-    refetchInterval: 30000, // Refresh every 30 seconds to pick up new assets
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: collectionsData } = useQuery<{ collections: Collection[] }>({
+    queryKey: ["/api/collections"],
+  });
+  const { data: tagsData } = useQuery<{ tags: { tag: string; count: number }[] }>({
+    queryKey: ["/api/tags"],
   });
+  const collections = collectionsData?.collections || [];
+  const tags = tagsData?.tags || [];
 
-  const filteredAssets = assets.filter(asset =>
-    asset.prompt.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    asset.jobType.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Counts and tag lists change with almost every organising action
+  const refreshLibrary = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Something went wrong", variant: "destructive" });
+  };
+
+  const bulkMutation = useMutation({
+    mutationFn: (action: BulkAction) => sendJson("/api/assets/bulk", "POST", { ...action, assetIds: Array.from(selected) }),
+    onSuccess: (data: { updated: number }, action) => {
+      toast({ title: `${action.action === "delete" ? "Deleted" : "Updated"} ${data.updated} asset(s)` });
+      if (action.action === "delete") setSelected(new Set());
+      if (action.action === "tag") setTagInput("");
+      refreshLibrary();
+    },
+    onError: showError("Failed to update assets"),
+  });
+
+  const favoriteMutation = useMutation({
+    mutationFn: (asset: Asset) => sendJson(`/api/assets/${asset.id}`, "PATCH", { favorite: !asset.favorite }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/assets"] }),
+    onError: showError("Failed to update favourite"),
+  });
+
+  const createCollectionMutation = useMutation({
+    mutationFn: (name: string) => sendJson("/api/collections", "POST", { name }),
+    onSuccess: () => {
+      setCollectionName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+    },
+    onError: showError("Failed to create collection"),
+  });
+
+  const deleteCollectionMutation = useMutation({
+    mutationFn: (id: string) => sendJson(`/api/collections/${id}`, "DELETE"),
+    onSuccess: (_data, id) => {
+      if (filters.collection === id) setFilter("collection", "");
+      refreshLibrary();
+    },
+    onError: showError("Failed to delete collection"),
+  });
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // New assets arrive over SSE; poll only while the stream is down
+  const streaming = useJobEvents("/api/jobs/events", (event) => {
+    if (event.status === "completed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+    }
+  });
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<AssetPage>({
+    queryKey: ["/api/assets", filters, search],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(pageParam) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+      if (search) params.set("q", search);
+
+      const response = await fetch(`/api/assets?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch assets");
+      return response.json();
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    refetchInterval: streaming ? false : 30000, // Refresh every 30 seconds to pick up new assets
+  });
+
+  const assets = data?.pages.flatMap(page => page.assets) || [];
+  const total = data?.pages[0]?.total ?? 0;
+  const filtered = !!search || Object.entries(filters).some(([key, value]) => value !== emptyFilters[key as keyof AssetFilters]);
+
+  // Load the next page as the bottom of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Best match only means something while searching
+  const sort = search ? filters.sort || "relevance" : filters.sort === "relevance" || !filters.sort ? "newest" : filters.sort;
+
+  const setFilter = (key: keyof AssetFilters, value: string) => setFilters(prev => ({ ...prev, [key]: value }));
+
+  const toggleSelected = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const bulkTags = () => tagInput.split(",").map(tag => tag.trim()).filter(Boolean);
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    setSearchTerm("");
+  };
+
+  const selectClassName = "h-9 rounded-md border border-input bg-background px-2 text-sm";
 
   if (error) {
     return (
@@ -115,8 +536,8 @@ export default function Assets() {
           <div className="flex items-center gap-2">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-              <Input 
-                placeholder="Search assets..." 
+              <Input
+                placeholder="Search prompts..."
                 className="pl-10"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
@@ -126,6 +547,156 @@ export default function Assets() {
           </div>
         </div>
 
+        {/* Filters and sorting, applied on the server */}
+        <div className="flex flex-wrap items-center gap-2">
+          <select className={selectClassName} value={filters.tool} onChange={(e) => setFilter("tool", e.target.value)} data-testid="select-filter-tool">
+            <option value="">All tools</option>
+            {Object.entries(toolLabels).map(([tool, label]) => (
+              <option key={tool} value={tool}>{label}</option>
+            ))}
+          </select>
+          <select className={selectClassName} value={filters.kind} onChange={(e) => setFilter("kind", e.target.value)} data-testid="select-filter-kind">
+            <option value="">All types</option>
+            <option value="image">Images</option>
+            <option value="model">3D models</option>
+            <option value="video">Videos</option>
+            <option value="file">Other files</option>
+          </select>
+          <select className={selectClassName} value={filters.status} onChange={(e) => setFilter("status", e.target.value)} data-testid="select-filter-status">
+            <option value="">Any status</option>
+            <option value="ready">Ready</option>
+            <option value="pending">Checking</option>
+            <option value="unavailable">Unavailable</option>
+          </select>
+          <select className={selectClassName} value={filters.collection} onChange={(e) => setFilter("collection", e.target.value)} data-testid="select-filter-collection">
+            <option value="">All collections</option>
+            <option value="none">Unfiled</option>
+            {collections.map(collection => (
+              <option key={collection.id} value={collection.id}>{collection.name} ({collection.assetCount})</option>
+            ))}
+          </select>
+          <select className={selectClassName} value={filters.tag} onChange={(e) => setFilter("tag", e.target.value)} data-testid="select-filter-tag">
+            <option value="">Any tag</option>
+            {tags.map(({ tag, count }) => (
+              <option key={tag} value={tag}>{tag} ({count})</option>
+            ))}
+          </select>
+          <Button
+            variant={filters.favorite ? "default" : "outline"}
+            size="sm"
+            onClick={() => setFilter("favorite", filters.favorite ? "" : "true")}
+            data-testid="button-filter-favorite"
+          >
+            <Star className="w-4 h-4 mr-1" />
+            Favourites
+          </Button>
+          <Input
+            type="date"
+            className="h-9 w-auto"
+            value={filters.from}
+            onChange={(e) => setFilter("from", e.target.value)}
+            aria-label="From date"
+            data-testid="input-filter-from"
+          />
+          <span className="text-muted-foreground text-sm">to</span>
+          <Input
+            type="date"
+            className="h-9 w-auto"
+            value={filters.to}
+            onChange={(e) => setFilter("to", e.target.value)}
+            aria-label="To date"
+            data-testid="input-filter-to"
+          />
+          <select
+            className={selectClassName}
+            value={sort}
+            onChange={(e) => setFilter("sort", e.target.value)}
+            data-testid="select-sort"
+          >
+            {Object.entries(sortLabels).filter(([sort]) => search || sort !== "relevance").map(([sort, label]) => (
+              <option key={sort} value={sort}>{label}</option>
+            ))}
+          </select>
+          {filtered && (
+            <Button variant="ghost" size="sm" onClick={clearFilters} data-testid="button-clear-filters">
+              Clear
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setManagingCollections(true)} data-testid="button-manage-collections">
+            <Folder className="w-4 h-4 mr-1" />
+            Collections
+          </Button>
+        </div>
+
+        {/* Actions on the selected assets */}
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 p-3" data-testid="bulk-actions">
+            <span className="text-sm font-medium">{selected.size} selected</span>
+            <select
+              className={selectClassName}
+              value=""
+              onChange={(e) => e.target.value && bulkMutation.mutate({ action: "move", collectionId: e.target.value === "none" ? null : e.target.value })}
+              disabled={bulkMutation.isPending}
+              data-testid="select-bulk-move"
+            >
+              <option value="">Move to...</option>
+              <option value="none">No collection</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+            <Input
+              className="h-9 w-40"
+              placeholder="tag, another tag"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              data-testid="input-bulk-tags"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={bulkTags().length === 0 || bulkMutation.isPending}
+              onClick={() => bulkMutation.mutate({ action: "tag", tags: bulkTags() })}
+              data-testid="button-bulk-tag"
+            >
+              <Tag className="w-4 h-4 mr-1" />
+              Tag
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={bulkTags().length === 0 || bulkMutation.isPending}
+              onClick={() => bulkMutation.mutate({ action: "untag", tags: bulkTags() })}
+              data-testid="button-bulk-untag"
+            >
+              Untag
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={bulkMutation.isPending}
+              onClick={() => bulkMutation.mutate({ action: "favorite", favorite: true })}
+              data-testid="button-bulk-favorite"
+            >
+              <Star className="w-4 h-4 mr-1" />
+              Favourite
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={bulkMutation.isPending}
+              onClick={() => setConfirmDelete(true)}
+              data-testid="button-bulk-delete"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())} data-testid="button-clear-selection">
+              Clear selection
+            </Button>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
             {[...Array(6)].map((_, index) => (
@@ -149,55 +720,74 @@ export default function Assets() {
               </Card>
             ))}
           </div>
-        ) : filteredAssets.length === 0 ? (
+        ) : assets.length === 0 ? (
           <div className="bg-muted/50 rounded-lg p-6 text-center">
             <div className="space-y-2">
               <h3 className="text-lg font-semibold">
-                {searchTerm ? "No matching assets found" : "No Assets Yet"}
+                {filtered ? "No matching assets found" : "No Assets Yet"}
               </h3>
               <p className="text-muted-foreground">
-                {searchTerm 
-                  ? `No assets match "${searchTerm}". Try a different search term.`
+                {filtered
+                  ? "No assets match these filters. Try widening them."
                   : "Your generated content will appear here once you start creating with our AI tools."
                 }
               </p>
-              {!searchTerm && (
+              {!filtered && (
                 <Link href="/generate">
                   <Button className="mt-4" data-testid="button-create-first-asset">
                     Generate Your First Asset
                   </Button>
                 </Link>
               )}
-              {searchTerm && (
-                <Button 
-                  variant="outline" 
-                  className="mt-4" 
-                  onClick={() => setSearchTerm("")}
+              {filtered && (
+                <Button
+                  variant="outline"
+                  className="mt-4"
+                  onClick={clearFilters}
                   data-testid="button-clear-search"
                 >
-                  Clear Search
+                  Clear Filters
                 </Button>
               )}
             </div>
           </div>
         ) : (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredAssets.map((asset) => (
+            {assets.map((asset) => (
               <Card key={asset.id} className="group hover:shadow-lg transition-shadow" data-testid={`asset-card-${asset.id}`}>
                 <CardHeader className="pb-3">
                   <div className="flex items-start justify-between">
-                    <Badge 
-                      className={`flex items-center gap-1 ${getJobTypeColor(asset.jobType)}`}
-                      data-testid={`badge-job-type-${asset.jobType}`}
-                    >
-                      {getJobTypeIcon(asset.jobType)}
-                      {asset.jobType.replace("-", " ")}
-                    </Badge>
-                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                      <Calendar className="w-3 h-3" />
-                      <span data-testid={`date-${asset.id}`}>
-                        {format(new Date(asset.createdAt), "MMM d")}
-                      </span>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked={selected.has(asset.id)}
+                        onCheckedChange={() => toggleSelected(asset.id)}
+                        aria-label="Select asset"
+                        data-testid={`checkbox-select-${asset.id}`}
+                      />
+                      <Badge
+                        className={`flex items-center gap-1 ${getToolColor(asset.tool)}`}
+                        data-testid={`badge-tool-${asset.tool}`}
+                      >
+                        {getToolIcon(asset.tool)}
+                        {toolLabels[asset.tool] || asset.tool}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <div className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        <span data-testid={`date-${asset.id}`}>
+                          {format(new Date(asset.createdAt), "MMM d")}
+                        </span>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => favoriteMutation.mutate(asset)}
+                        title={asset.favorite ? "Remove from favourites" : "Add to favourites"}
+                        aria-label={asset.favorite ? "Remove from favourites" : "Add to favourites"}
+                        data-testid={`button-favorite-${asset.id}`}
+                      >
+                        <Star className={`w-4 h-4 ${asset.favorite ? "fill-yellow-400 text-yellow-400" : ""}`} />
+                      </button>
                     </div>
                   </div>
                 </CardHeader>
@@ -207,10 +797,35 @@ export default function Assets() {
                     <h4 className="font-medium line-clamp-2 text-sm" data-testid={`prompt-${asset.id}`}>
                       {asset.prompt}
                     </h4>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground" data-testid={`details-${asset.id}`}>
+                      {asset.status === "pending" && <Badge variant="outline">Checking</Badge>}
+                      {asset.status === "unavailable" && <Badge variant="destructive">Unavailable</Badge>}
+                      <span>{describeAsset(asset)}</span>
+                    </div>
+                    {(asset.collectionId || asset.tags.length > 0) && (
+                      <div className="flex flex-wrap items-center gap-1" data-testid={`tags-${asset.id}`}>
+                        {asset.collectionId && (
+                          <Badge variant="outline" className="gap-1">
+                            <Folder className="w-3 h-3" />
+                            {collections.find(collection => collection.id === asset.collectionId)?.name || "Collection"}
+                          </Badge>
+                        )}
+                        {asset.tags.map(tag => (
+                          <Badge
+                            key={tag}
+                            variant="secondary"
+                            className="cursor-pointer"
+                            onClick={() => setFilter("tag", tag)}
+                          >
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex gap-2">
-                      <Button 
-                        size="sm" 
-                        variant="outline" 
+                      <Button
+                        size="sm"
+                        variant="outline"
                         className="flex-1"
                         onClick={() => window.open(asset.url, '_blank')}
                         data-testid={`button-view-${asset.id}`}
@@ -218,18 +833,85 @@ export default function Assets() {
                         <Eye className="w-4 h-4 mr-1" />
                         View
                       </Button>
-                      <Button 
-                        size="sm" 
-                        variant="outline" 
-                        className="flex-1"
-                        onClick={() => {
-                          window.location.href = `/api/assets/${asset.id}/download`;
-                        }}
-                        data-testid={`button-download-${asset.id}`}
+                      {asset.kind === "model" ? (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="flex-1"
+                              data-testid={`button-download-${asset.id}`}
+                            >
+                              <Download className="w-4 h-4 mr-1" />
+                              Download
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="start">
+                            <DropdownMenuItem
+                              onSelect={() => { window.location.href = `/api/assets/${asset.id}/download`; }}
+                              data-testid={`download-original-${asset.id}`}
+                            >
+                              Original file
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            {Object.entries(modelFormatLabels).map(([modelFormat, label]) => (
+                              <DropdownMenuItem
+                                key={modelFormat}
+                                onSelect={() => { window.location.href = `/api/assets/${asset.id}/download?format=${modelFormat}`; }}
+                                data-testid={`download-${modelFormat}-${asset.id}`}
+                              >
+                                {label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1"
+                          onClick={() => {
+                            window.location.href = `/api/assets/${asset.id}/download`;
+                          }}
+                          data-testid={`button-download-${asset.id}`}
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          Download
+                        </Button>
+                      )}
+                      <Link href={`/generate?remix=${asset.jobId}`}>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Remix"
+                          aria-label="Remix"
+                          data-testid={`button-remix-${asset.id}`}
+                        >
+                          <Shuffle className="w-4 h-4" />
+                        </Button>
+                      </Link>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Find similar"
+                        aria-label="Find similar"
+                        onClick={() => setSimilarTo(asset)}
+                        data-testid={`button-similar-${asset.id}`}
                       >
-                        <Download className="w-4 h-4 mr-1" />
-                        Download
+                        <Sparkles className="w-4 h-4" />
                       </Button>
+                      {asset.kind === "model" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Optimize"
+                          aria-label="Optimize"
+                          onClick={() => setOptimizing(asset)}
+                          data-testid={`button-optimize-${asset.id}`}
+                        >
+                          <Layers className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -238,12 +920,78 @@ export default function Assets() {
           </div>
         )}
 
-        {filteredAssets.length > 0 && (
+        <div ref={loadMoreRef} />
+
+        {similarTo && <SimilarAssets asset={similarTo} onClose={() => setSimilarTo(null)} />}
+        {optimizing && <OptimizeModel asset={optimizing} onClose={() => setOptimizing(null)} />}
+
+        <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {selected.size} asset(s)?</AlertDialogTitle>
+              <AlertDialogDescription>
+                They'll be removed from your library. The jobs that made them stay in your history.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => bulkMutation.mutate({ action: "delete" })} data-testid="button-confirm-delete">
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <Dialog open={managingCollections} onOpenChange={setManagingCollections}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Collections</DialogTitle>
+              <DialogDescription>Deleting a collection keeps its assets; they become unfiled.</DialogDescription>
+            </DialogHeader>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (collectionName.trim()) createCollectionMutation.mutate(collectionName.trim());
+              }}
+            >
+              <Input
+                placeholder="New collection name"
+                value={collectionName}
+                onChange={(e) => setCollectionName(e.target.value)}
+                data-testid="input-collection-name"
+              />
+              <Button type="submit" disabled={!collectionName.trim() || createCollectionMutation.isPending} data-testid="button-create-collection">
+                Create
+              </Button>
+            </form>
+            <div className="space-y-1 max-h-80 overflow-auto">
+              {collections.length === 0 && <div className="text-sm text-muted-foreground">No collections yet.</div>}
+              {collections.map(collection => (
+                <div key={collection.id} className="flex items-center justify-between rounded-md px-2 py-1 hover:bg-muted" data-testid={`collection-${collection.id}`}>
+                  <span className="text-sm">{collection.name} <span className="text-muted-foreground">({collection.assetCount})</span></span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteCollectionMutation.mutate(collection.id)}
+                    disabled={deleteCollectionMutation.isPending}
+                    aria-label={`Delete ${collection.name}`}
+                    data-testid={`button-delete-collection-${collection.id}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {assets.length > 0 && (
           <div className="text-center text-sm text-muted-foreground">
-            Showing {filteredAssets.length} of {assets.length} assets
+            {isFetchingNextPage ? "Loading more..." : `Showing ${assets.length} of ${total} assets`}
           </div>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Zap, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, signupMutation } = useAuth();
+  const [mode, setMode] = useState<"login" | "signup">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/generate" />;
+  }
+
+  const mutation = mode === "login" ? loginMutation : signupMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username, password });
+  };
+
+  return (
+    <div className="container mx-auto py-16 px-4 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-primary-2 flex items-center justify-center mb-2">
+            <Zap className="w-6 h-6 text-white" />
+          </div>
+          <CardTitle>Welcome to AI Studio</CardTitle>
+          <CardDescription>
+            Sign in to your account or create a new one to start generating
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as "login" | "signup")}>
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="login" data-testid="tab-login">Log in</TabsTrigger>
+              <TabsTrigger value="signup" data-testid="tab-signup">Sign up</TabsTrigger>
+            </TabsList>
+
+            {(["login", "signup"] as const).map((tab) => (
+              <TabsContent key={tab} value={tab}>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${tab}-username`}>Username</Label>
+                    <Input
+                      id={`${tab}-username`}
+                      autoComplete="username"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value)}
+                      data-testid={`input-${tab}-username`}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${tab}-password`}>Password</Label>
+                    <Input
+                      id={`${tab}-password`}
+                      type="password"
+                      autoComplete={tab === "login" ? "current-password" : "new-password"}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      data-testid={`input-${tab}-password`}
+                    />
+                    {tab === "signup" && (
+                      <p className="text-xs text-muted-foreground">At least 8 characters</p>
+                    )}
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={mutation.isPending || !username.trim() || !password}
+                    data-testid={`button-${tab}`}
+                  >
+                    {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {tab === "login" ? "Log in" : "Create account"}
+                  </Button>
+                </form>
+              </TabsContent>
+            ))}
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { JobStatus } from "@/components/job-status";
+import { BatchGrid } from "@/components/batch-grid";
+import { cn } from "@/lib/utils";
+import { Table2, Eye, Play, Download, AlertTriangle } from "lucide-react";
+
+type Tool = "text2image" | "text2mesh" | "img2mesh" | "texturing" | "img2video";
+
+// Tools that run from a prompt alone; the others need a per-row input file
+const bulkTools: { id: Tool; label: string }[] = [
+  { id: "text2image", label: "Text to Image" },
+  { id: "text2mesh", label: "Text to 3D" },
+];
+
+// Rows shown in the preview table; the rest are still counted and priced
+const PREVIEW_ROWS = 50;
+
+interface BulkPreview {
+  template: string;
+  variables: string[];
+  columns: string[];
+  rows: { values: Record<string, string>; prompt: string; missing: string[] }[];
+  count: number;
+  invalidRows: number;
+  costPerJob: number;
+  totalCost: number;
+  balance: number;
+  canAfford: boolean;
+}
+
+export default function Bulk() {
+  const [tool, setTool] = useState<Tool>("text2image");
+  const [template, setTemplate] = useState("a {material} {object} in {style} style");
+  const [csv, setCsv] = useState("");
+  const [jsonRows, setJsonRows] = useState<unknown[] | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<BulkPreview | null>(null);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Any edit invalidates the preview, so what gets submitted is what was priced
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+  };
+
+  const requestBody = () => JSON.stringify(
+    jsonRows ? { tool, template, rows: jsonRows } : { tool, template, csv }
+  );
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    setFileName(file.name);
+    setPreview(null);
+
+    if (!file.name.toLowerCase().endsWith(".json")) {
+      setJsonRows(null);
+      setCsv(text);
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(text);
+      const rows = Array.isArray(parsed) ? parsed : parsed?.rows;
+      if (!Array.isArray(rows)) throw new Error("Expected an array of rows");
+      setJsonRows(rows);
+      setCsv("");
+    } catch (error: any) {
+      toast({ title: "Couldn't read JSON", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/bulk/preview", {
+        method: "POST",
+        body: requestBody(),
+        headers: { "Content-Type": "application/json" }
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || "Failed to preview");
+      }
+
+      return response.json() as Promise<BulkPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: any) => {
+      setPreview(null);
+      toast({
+        title: "Preview failed",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/bulk", {
+        method: "POST",
+        body: requestBody(),
+        headers: { "Content-Type": "application/json" }
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || "Failed to start bulk generation");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: "Bulk generation started!",
+        description: `${data.batch.count} jobs queued for ${data.batch.creditsUsed} credits`
+      });
+      setActiveBatchId(data.batch.id);
+      setActiveJobId(null);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to start bulk generation",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const hasRows = jsonRows ? jsonRows.length > 0 : csv.trim().length > 0;
+  const canSubmit = !!preview && preview.invalidRows === 0 && preview.canAfford;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Template and rows */}
+        <Card className="bg-black/20 backdrop-blur-sm border border-white/10">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3">
+              <Table2 className="h-6 w-6 text-blue-400" />
+              <div>
+                <div className="text-xl text-white">Bulk Generation</div>
+                <div className="text-sm text-white/60 font-normal">
+                  Write a prompt with {"{variables}"}, upload a CSV or JSON file with a column for each, and generate one asset per row.
+                </div>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {bulkTools.map(candidate => (
+                <Button
+                  key={candidate.id}
+                  type="button"
+                  size="sm"
+                  variant={tool === candidate.id ? "default" : "outline"}
+                  onClick={() => edit(setTool)(candidate.id)}
+                  data-testid={`button-bulk-tool-${candidate.id}`}
+                >
+                  {candidate.label}
+                </Button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bulk-template" className="text-white">Prompt template</Label>
+              <Input
+                id="bulk-template"
+                value={template}
+                onChange={(e) => edit(setTemplate)(e.target.value)}
+                placeholder="a {material} {object} in {style} style"
+                className="bg-white/5 border-white/10 text-white placeholder:text-white/40"
+                data-testid="input-bulk-template"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="bulk-csv" className="text-white">Rows</Label>
+                <label className="text-sm text-blue-400 hover:text-blue-300 cursor-pointer">
+                  {fileName ? `Loaded ${fileName} · replace` : "Upload CSV or JSON"}
+                  <input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleFile(file);
+                      e.target.value = "";
+                    }}
+                    data-testid="input-bulk-file"
+                  />
+                </label>
+              </div>
+              {jsonRows ? (
+                <div className="flex items-center justify-between rounded-lg border border-white/10 bg-white/5 p-3 text-sm text-white/80">
+                  <span>{jsonRows.length} rows from {fileName}</span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="text-white/70"
+                    onClick={() => {
+                      setJsonRows(null);
+                      setFileName(null);
+                      setPreview(null);
+                    }}
+                    data-testid="button-clear-json"
+                  >
+                    Clear
+                  </Button>
+                </div>
+              ) : (
+                <Textarea
+                  id="bulk-csv"
+                  value={csv}
+                  onChange={(e) => edit(setCsv)(e.target.value)}
+                  placeholder={"material,object,style\nwood,chair,low poly\nsteel,table,realistic"}
+                  className="min-h-[140px] font-mono text-xs bg-white/5 border-white/10 text-white placeholder:text-white/30"
+                  data-testid="textarea-bulk-csv"
+                />
+              )}
+            </div>
+
+            <Button
+              onClick={() => previewMutation.mutate()}
+              disabled={!template.trim() || !hasRows || previewMutation.isPending}
+              variant="outline"
+              className="w-full"
+              data-testid="button-bulk-preview"
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              {previewMutation.isPending ? "Expanding..." : "Preview prompts"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Expanded prompts and cost */}
+        {preview && (
+          <Card className="bg-black/20 backdrop-blur-sm border border-white/10">
+            <CardHeader>
+              <CardTitle className="flex flex-wrap items-center justify-between gap-3 text-white">
+                <span>{preview.count} prompts</span>
+                <div className="flex flex-wrap gap-2 text-sm font-normal">
+                  <Badge variant="secondary">{preview.costPerJob} cr each</Badge>
+                  <Badge className={cn(preview.canAfford ? "bg-green-500/20 text-green-400 border-green-500/20" : "bg-red-500/20 text-red-400 border-red-500/20")}>
+                    {preview.totalCost} credits total · {preview.balance} available
+                  </Badge>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {preview.invalidRows > 0 && (
+                <div className="flex items-center gap-2 text-sm text-yellow-400" data-testid="text-bulk-invalid">
+                  <AlertTriangle className="h-4 w-4" />
+                  {preview.invalidRows} row(s) are missing values. Fill them in before generating.
+                </div>
+              )}
+
+              <div className="max-h-96 overflow-auto rounded-lg border border-white/10">
+                <table className="w-full text-sm">
+                  <thead className="bg-white/5 text-white/60 text-left">
+                    <tr>
+                      <th className="px-3 py-2 w-12">#</th>
+                      <th className="px-3 py-2">Prompt</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                      <tr key={index} className="border-t border-white/5" data-testid={`bulk-row-${index}`}>
+                        <td className="px-3 py-2 text-white/40">{index + 1}</td>
+                        <td className="px-3 py-2 text-white/90">
+                          {row.prompt}
+                          {row.missing.length > 0 && (
+                            <span className="ml-2 text-xs text-yellow-400">
+                              missing {row.missing.map(name => `{${name}}`).join(", ")}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.count > PREVIEW_ROWS && (
+                <div className="text-xs text-white/40">Showing the first {PREVIEW_ROWS} of {preview.count} rows</div>
+              )}
+
+              <Button
+                onClick={() => submitMutation.mutate()}
+                disabled={!canSubmit || submitMutation.isPending}
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50"
+                data-testid="button-bulk-submit"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {submitMutation.isPending ? "Starting..." : `Generate ${preview.count} (${preview.totalCost} credits)`}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Results, exportable row by row */}
+        {activeBatchId && (
+          <>
+            <div className="flex justify-end gap-2">
+              <Button asChild size="sm" variant="outline" data-testid="button-export-csv">
+                <a href={`/api/batches/${activeBatchId}/export?format=csv`} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export CSV
+                </a>
+              </Button>
+              <Button asChild size="sm" variant="outline" data-testid="button-export-json">
+                <a href={`/api/batches/${activeBatchId}/export?format=json`} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export JSON
+                </a>
+              </Button>
+            </div>
+            <BatchGrid
+              batchId={activeBatchId}
+              onSelectJob={setActiveJobId}
+              onClose={() => {
+                setActiveBatchId(null);
+                setActiveJobId(null);
+              }}
+            />
+          </>
+        )}
+
+        {activeJobId && (
+          <JobStatus jobId={activeJobId} onClose={() => setActiveJobId(null)} />
+        )}
+      </div>
+    </div>
+  );
+}
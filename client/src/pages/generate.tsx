@@ -1,11 +1,19 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StudioTabs } from "@/components/studio-tabs";
 import { JobStatus } from "@/components/job-status";
+import { CreditHistory } from "@/components/credit-history";
+import { BatchGrid } from "@/components/batch-grid";
 
 export default function Generate() {
   const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [, setLocation] = useLocation();
+
+  // "Remix" links land here as /generate?remix=<jobId>
+  const remixJobId = new URLSearchParams(useSearch()).get("remix");
 
   // Get user credits
   const { data: creditsData } = useQuery({
@@ -24,6 +32,11 @@ export default function Generate() {
     setActiveJobId(jobId);
   };
 
+  const handleBatchCreated = (batchId: string) => {
+    setActiveBatchId(batchId);
+    setActiveJobId(null);
+  };
+
   const handleCloseJobStatus = () => {
     setActiveJobId(null);
   };
@@ -58,11 +71,14 @@ export default function Generate() {
             <StudioTabs 
               userCredits={userCredits} 
               onJobCreated={handleJobCreated}
+              onBatchCreated={handleBatchCreated}
+              remixJobId={remixJobId}
+              onRemixCleared={() => setLocation("/generate")}
             />
           </div>
 
-          {/* Right Column - Job Status */}
-          <div className="lg:col-span-1">
+          {/* Right Column - Job Status and credit history */}
+          <div className="lg:col-span-1 space-y-6">
             {activeJobId ? (
               <JobStatus 
                 jobId={activeJobId} 
@@ -81,16 +97,27 @@ export default function Generate() {
                 </CardContent>
               </Card>
             )}
+
+            <CreditHistory />
           </div>
         </div>
 
+        {/* Variations from the latest batch */}
+        {activeBatchId && (
+          <BatchGrid
+            batchId={activeBatchId}
+            onSelectJob={setActiveJobId}
+            onClose={() => setActiveBatchId(null)}
+          />
+        )}
+
         {/* Quick Start Guide */}
         <Card className="bg-black/20 backdrop-blur-sm border border-white/10">
           <CardHeader>
             <CardTitle className="text-white">Quick Start Guide</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 text-sm">
               <div className="space-y-2">
                 <div className="text-blue-400 font-medium">🖼️ Text to Image</div>
                 <div className="text-white/60">Generate high-quality images from text prompts using FLUX.1 model</div>
@@ -101,6 +128,11 @@ export default function Generate() {
                 <div className="text-white/60">Create 3D models from text descriptions</div>
                 <div className="text-xs text-white/40">Cost: 5 credits</div>
               </div>
+              <div className="space-y-2">
+                <div className="text-cyan-400 font-medium">🗿 Image to 3D</div>
+                <div className="text-white/60">Turn an uploaded or generated image into a 3D model</div>
+                <div className="text-xs text-white/40">Cost: 5 credits</div>
+              </div>
               <div className="space-y-2">
                 <div className="text-green-400 font-medium">🎨 AI Texturing</div>
                 <div className="text-white/60">Generate PBR textures for your 3D models</div>
@@ -0,0 +1,546 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { toolCosts, pipelineToolInputs, pipelineToolOutputs } from "@shared/schema";
+import { Workflow, ArrowRight, Play, RotateCcw, Ban, Clock, CheckCircle, XCircle, ExternalLink, Bookmark } from "lucide-react";
+
+type Tool = "text2image" | "text2mesh" | "img2mesh" | "texturing" | "img2video" | "meshprocess";
+
+const toolTitles: Record<Tool, string> = {
+  text2image: "Text to Image",
+  text2mesh: "Text to 3D",
+  img2mesh: "Image to 3D",
+  texturing: "AI Texturing",
+  img2video: "Image to Video",
+  meshprocess: "Mesh Optimization",
+};
+
+// Linear chains offered in the builder; the API takes any DAG of steps
+const templates: { id: string; label: string; tools: Tool[] }[] = [
+  { id: "full", label: "Image → 3D → Texture → Video", tools: ["text2image", "img2mesh", "texturing", "img2video"] },
+  { id: "image-3d", label: "Image → 3D", tools: ["text2image", "img2mesh"] },
+  { id: "mesh-texture", label: "3D → Texture", tools: ["text2mesh", "texturing"] },
+  { id: "mesh-lods", label: "3D → LODs", tools: ["text2mesh", "meshprocess"] },
+  { id: "image-video", label: "Image → Video", tools: ["text2image", "img2video"] },
+];
+
+// A chain step follows the one before it, and also the latest earlier step producing an input the
+// one before doesn't hand on (the video in Image → 3D → Texture → Video animates the image)
+function chainDependencies(tools: Tool[], index: number): string[] {
+  if (index === 0) return [];
+  const stepId = (position: number) => `${position + 1}-${tools[position]}`;
+  const dependsOn = [stepId(index - 1)];
+
+  for (const input of pipelineToolInputs[tools[index]]) {
+    if (pipelineToolOutputs[tools[index - 1]].includes(input)) continue;
+    for (let earlier = index - 2; earlier >= 0; earlier--) {
+      if (pipelineToolOutputs[tools[earlier]].includes(input)) {
+        dependsOn.push(stepId(earlier));
+        break;
+      }
+    }
+  }
+  return dependsOn;
+}
+
+// A pipeline saved as a preset; its inputs hold the steps
+interface PipelineTemplate {
+  id: string;
+  name: string;
+  promptTemplate: string | null;
+  inputs: { steps: { id: string; tool: Tool; prompt?: string; dependsOn: string[] }[] } | null;
+  isShared: boolean;
+  isOwner: boolean;
+}
+
+interface PipelineStepState {
+  id: string;
+  tool: Tool;
+  prompt: string;
+  dependsOn: string[];
+  runs: number;
+  job: {
+    id: string;
+    status: string;
+    progress?: { percent: number; stage?: string } | null;
+    assetUrls: string[] | null;
+    previewImage: string | null;
+    thumbnailUrl: string | null;
+    error?: string;
+  } | null;
+}
+
+interface PipelineRun {
+  id: string;
+  name: string | null;
+  prompt: string;
+  status: string;
+  creditsUsed: number;
+  createdAt: string;
+  steps: PipelineStepState[];
+}
+
+function statusIcon(status?: string) {
+  switch (status) {
+    case "completed":
+      return <CheckCircle className="h-4 w-4 text-green-400" />;
+    case "failed":
+      return <XCircle className="h-4 w-4 text-red-400" />;
+    case "cancelled":
+      return <Ban className="h-4 w-4 text-gray-400" />;
+    case "processing":
+      return <RotateCcw className="h-4 w-4 text-blue-400 animate-spin" />;
+    default:
+      return <Clock className="h-4 w-4 text-yellow-400" />;
+  }
+}
+
+function statusColor(status: string) {
+  switch (status) {
+    case "completed":
+      return "bg-green-500/20 text-green-400 border-green-500/20";
+    case "failed":
+      return "bg-red-500/20 text-red-400 border-red-500/20";
+    case "cancelled":
+      return "bg-gray-500/20 text-gray-300 border-gray-500/20";
+    default:
+      return "bg-blue-500/20 text-blue-400 border-blue-500/20";
+  }
+}
+
+// Image to show for a finished step, if it produced one
+function stepImage(step: PipelineStepState) {
+  if (step.job?.status !== "completed") return null;
+  if (step.job.thumbnailUrl) return step.job.thumbnailUrl;
+  if (step.tool === "text2image") return step.job.assetUrls?.[0] || null;
+  return step.job.previewImage;
+}
+
+export default function Pipelines() {
+  const [templateId, setTemplateId] = useState(templates[0].id);
+  const [name, setName] = useState("");
+  const [prompt, setPrompt] = useState("");
+  const [stepPrompts, setStepPrompts] = useState<Record<number, string>>({});
+  const [savedTemplateId, setSavedTemplateId] = useState<string | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<{ name: string; isShared: boolean } | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: savedTemplatesData } = useQuery<{ presets: PipelineTemplate[] }>({
+    queryKey: ["/api/presets", "pipeline"],
+    queryFn: async () => {
+      const response = await fetch("/api/presets?tool=pipeline");
+      if (!response.ok) throw new Error("Failed to fetch templates");
+      return response.json();
+    },
+  });
+  const savedTemplates = savedTemplatesData?.presets || [];
+  const savedTemplate = savedTemplates.find(candidate => candidate.id === savedTemplateId);
+
+  const template = templates.find(candidate => candidate.id === templateId)!;
+  const buildSteps = () => template.tools.map((tool, index) => ({
+    id: `${index + 1}-${tool}`,
+    tool,
+    prompt: stepPrompts[index]?.trim() || undefined,
+    dependsOn: chainDependencies(template.tools, index),
+  }));
+  const stepTools = savedTemplate ? (savedTemplate.inputs?.steps || []).map(step => step.tool) : template.tools;
+  const totalCost = stepTools.reduce((sum, tool) => sum + toolCosts[tool], 0);
+
+  // Step jobs report through the per-user stream; refresh runs when one of them moves
+  const streaming = useJobEvents("/api/jobs/events", (event) => {
+    if (event.pipelineId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+    }
+  });
+
+  const { data, isLoading } = useQuery<{ pipelines: PipelineRun[] }>({
+    queryKey: ["/api/pipelines"],
+    queryFn: async () => {
+      const response = await fetch("/api/pipelines?limit=10");
+      if (!response.ok) throw new Error("Failed to fetch pipelines");
+      return response.json();
+    },
+    refetchInterval: (query) => {
+      // Poll only while the stream is down and a run is still going
+      if (streaming) return false;
+      return query.state.data?.pipelines.some(run => run.status === "running") ? 3000 : false;
+    }
+  });
+
+  const runs = data?.pipelines || [];
+
+  const onRunChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+  };
+
+  const createPipelineMutation = useMutation({
+    mutationFn: async () => {
+      // A saved template supplies its own steps on the server
+      const body = savedTemplate
+        ? { name: name.trim() || savedTemplate.name, prompt, presetId: savedTemplate.id }
+        : { name: name.trim() || undefined, prompt, steps: buildSteps() };
+
+      const response = await fetch("/api/pipelines", {
+        method: "POST",
+        body: JSON.stringify(body),
+        headers: { "Content-Type": "application/json" }
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || "Failed to start pipeline");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Pipeline started!",
+        description: `${savedTemplate?.name || template.label} is running`
+      });
+      setPrompt("");
+      setStepPrompts({});
+      onRunChanged();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to start pipeline",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (draft: { name: string; isShared: boolean }) => {
+      const response = await fetch("/api/presets", {
+        method: "POST",
+        body: JSON.stringify({ tool: "pipeline", name: draft.name, inputs: { steps: buildSteps() }, isShared: draft.isShared }),
+        headers: { "Content-Type": "application/json" }
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || "Failed to save template");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({ title: "Template saved", description: data.preset.name });
+      setTemplateDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/presets", "pipeline"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save template",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Resume and cancel share a shape: POST to the run and report the error
+  const runActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "resume" | "cancel" }) => {
+      const response = await fetch(`/api/pipelines/${id}/${action}`, { method: "POST" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || `Failed to ${action} pipeline`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, { action }) => {
+      toast({ title: action === "resume" ? "Pipeline resumed" : "Pipeline cancelled" });
+      onRunChanged();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Pipeline update failed",
+        description: error.message || "Something went wrong",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Builder */}
+        <Card className="bg-black/20 backdrop-blur-sm border border-white/10">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3">
+              <Workflow className="h-6 w-6 text-blue-400" />
+              <div>
+                <div className="text-xl text-white">Pipelines</div>
+                <div className="text-sm text-white/60 font-normal">
+                  Chain tools so each step feeds the next. The whole run is charged up front and can be resumed from a failed step.
+                </div>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {templates.map(candidate => (
+                <Button
+                  key={candidate.id}
+                  type="button"
+                  size="sm"
+                  variant={!savedTemplate && templateId === candidate.id ? "default" : "outline"}
+                  onClick={() => {
+                    setTemplateId(candidate.id);
+                    setSavedTemplateId(null);
+                    setStepPrompts({});
+                  }}
+                  data-testid={`button-template-${candidate.id}`}
+                >
+                  {candidate.label}
+                </Button>
+              ))}
+              {savedTemplates.length > 0 && (
+                <select
+                  className="bg-white/5 border border-white/10 text-white rounded px-2 py-1.5 text-sm"
+                  value={savedTemplateId || ""}
+                  onChange={(e) => setSavedTemplateId(e.target.value || null)}
+                  data-testid="select-saved-template"
+                >
+                  <option value="">Saved templates...</option>
+                  {savedTemplates.map(candidate => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.name}{candidate.isShared && !candidate.isOwner ? " (shared)" : ""}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {!savedTemplate && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="text-white/70"
+                  onClick={() => setTemplateDraft(templateDraft ? null : { name: "", isShared: false })}
+                  data-testid="button-save-template"
+                >
+                  <Bookmark className="h-4 w-4 mr-1" />
+                  Save as template
+                </Button>
+              )}
+            </div>
+
+            {templateDraft && !savedTemplate && (
+              <div className="flex flex-wrap items-center gap-3 rounded-lg border border-white/10 bg-white/5 p-3">
+                <Input
+                  value={templateDraft.name}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, name: e.target.value })}
+                  placeholder="Template name"
+                  className="flex-1 min-w-[12rem] bg-white/5 border-white/10 text-white placeholder:text-white/40"
+                  data-testid="input-template-name"
+                />
+                <label className="flex items-center gap-2 text-sm text-white/80">
+                  <input
+                    type="checkbox"
+                    checked={templateDraft.isShared}
+                    onChange={(e) => setTemplateDraft({ ...templateDraft, isShared: e.target.checked })}
+                    data-testid="checkbox-template-shared"
+                  />
+                  Share with the team
+                </label>
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => saveTemplateMutation.mutate(templateDraft)}
+                  disabled={!templateDraft.name.trim() || saveTemplateMutation.isPending}
+                  data-testid="button-confirm-template"
+                >
+                  {saveTemplateMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="pipeline-name" className="text-white">Name (optional)</Label>
+                <Input
+                  id="pipeline-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Chair turntable"
+                  className="bg-white/5 border-white/10 text-white placeholder:text-white/40"
+                  data-testid="input-pipeline-name"
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="pipeline-prompt" className="text-white">Prompt</Label>
+                <Textarea
+                  id="pipeline-prompt"
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  placeholder="A weathered wooden chair with carved legs..."
+                  className="bg-white/5 border-white/10 text-white placeholder:text-white/40 min-h-[80px]"
+                  data-testid="input-pipeline-prompt"
+                />
+              </div>
+            </div>
+
+            {/* Steps in order, each with an optional prompt of its own */}
+            {savedTemplate ? (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-white/80" data-testid="saved-template-steps">
+                {stepTools.map((tool, index) => (
+                  <span key={index} className="flex items-center gap-2">
+                    {index > 0 && <ArrowRight className="h-4 w-4 text-white/30" />}
+                    {toolTitles[tool]}
+                  </span>
+                ))}
+                {savedTemplate.promptTemplate && (
+                  <span className="w-full text-xs text-white/50">Your prompt fills in: {savedTemplate.promptTemplate}</span>
+                )}
+              </div>
+            ) : (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              {template.tools.map((tool, index) => (
+                <div key={`${templateId}-${index}`} className="rounded-lg border border-white/10 bg-white/5 p-3 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-white font-medium">{index + 1}. {toolTitles[tool]}</span>
+                    <Badge variant="secondary" className="text-[10px]">{toolCosts[tool]} cr</Badge>
+                  </div>
+                  <Input
+                    value={stepPrompts[index] || ""}
+                    onChange={(e) => setStepPrompts(prev => ({ ...prev, [index]: e.target.value }))}
+                    placeholder="Same as pipeline prompt"
+                    className="h-8 bg-white/5 border-white/10 text-white text-xs placeholder:text-white/30"
+                    data-testid={`input-step-prompt-${index}`}
+                  />
+                </div>
+              ))}
+            </div>
+            )}
+
+            <Button
+              onClick={() => createPipelineMutation.mutate()}
+              disabled={!prompt.trim() || createPipelineMutation.isPending}
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50"
+              data-testid="button-run-pipeline"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {createPipelineMutation.isPending ? "Starting..." : `Run pipeline (${totalCost} credits)`}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Recent runs */}
+        <Card className="bg-black/20 backdrop-blur-sm border border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white">Recent Runs</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="text-center text-white/60 py-6">Loading pipelines...</div>
+            ) : runs.length === 0 ? (
+              <div className="text-center text-white/60 py-6">No pipelines yet</div>
+            ) : runs.map(run => (
+              <div key={run.id} className="rounded-lg border border-white/10 bg-white/5 p-4 space-y-3" data-testid={`pipeline-${run.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-white font-medium truncate">{run.name || run.prompt}</div>
+                    <div className="text-xs text-white/40">
+                      {new Date(run.createdAt).toLocaleString()} · {run.creditsUsed} credits charged
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge className={statusColor(run.status)}>
+                      {run.status.charAt(0).toUpperCase() + run.status.slice(1)}
+                    </Badge>
+                    {run.status === "running" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-400 hover:text-red-300"
+                        onClick={() => runActionMutation.mutate({ id: run.id, action: "cancel" })}
+                        disabled={runActionMutation.isPending}
+                        data-testid={`button-cancel-pipeline-${run.id}`}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                    {(run.status === "failed" || run.status === "cancelled") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => runActionMutation.mutate({ id: run.id, action: "resume" })}
+                        disabled={runActionMutation.isPending}
+                        data-testid={`button-resume-pipeline-${run.id}`}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Resume
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-stretch gap-2">
+                  {run.steps.map((step, index) => {
+                    const image = stepImage(step);
+                    const active = step.job?.status === "processing" || step.job?.status === "queued";
+                    return (
+                      <div key={step.id} className="flex items-center gap-2">
+                        {index > 0 && <ArrowRight className="h-4 w-4 text-white/30 shrink-0" />}
+                        <div
+                          className={cn(
+                            "w-40 rounded-md border p-2 space-y-1",
+                            step.job?.status === "failed" ? "border-red-500/30" : "border-white/10"
+                          )}
+                          data-testid={`pipeline-step-${step.id}`}
+                        >
+                          <div className="flex items-center gap-1.5 text-xs text-white">
+                            {statusIcon(step.job?.status)}
+                            <span className="truncate">{toolTitles[step.tool]}</span>
+                            {step.runs > 1 && <span className="text-white/40">×{step.runs}</span>}
+                          </div>
+                          {image && (
+                            <img src={image} alt={step.prompt} className="w-full aspect-square object-cover rounded" />
+                          )}
+                          {active && <Progress value={step.job?.progress?.percent ?? 0} className="h-1.5" />}
+                          {step.job?.status === "waiting" && (
+                            <div className="text-[11px] text-white/40">Waiting for earlier steps</div>
+                          )}
+                          {step.job?.error && (
+                            <div className="text-[11px] text-red-300/80 line-clamp-2" title={step.job.error}>{step.job.error}</div>
+                          )}
+                          {step.job?.status === "completed" && step.job.assetUrls?.[0] && (
+                            <button
+                              type="button"
+                              className="flex items-center gap-1 text-[11px] text-blue-300 hover:text-blue-200"
+                              onClick={() => window.open(step.job!.assetUrls![0], "_blank")}
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                              Open result
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
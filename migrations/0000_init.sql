@@ -0,0 +1,48 @@
+CREATE TABLE "assets" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"prompt" text NOT NULL,
+	"url" text NOT NULL,
+	"job_type" text NOT NULL,
+	"user_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tool" text NOT NULL,
+	"prompt" text NOT NULL,
+	"inputs" jsonb,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"asset_urls" jsonb,
+	"preview_image" text,
+	"provider" text,
+	"provider_job_id" text,
+	"meta" jsonb,
+	"user_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"credits_used" integer NOT NULL,
+	"lease_owner" text,
+	"lease_expires_at" timestamp,
+	"heartbeat_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"heavy_jobs_this_hour" integer DEFAULT 0 NOT NULL,
+	"last_heavy_job_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"credits" integer DEFAULT 25 NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE INDEX "jobs_user_created_idx" ON "jobs" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "jobs_status_tool_idx" ON "jobs" USING btree ("status","tool","created_at");
\ No newline at end of file
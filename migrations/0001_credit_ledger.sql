@@ -0,0 +1,16 @@
+CREATE TABLE "credit_transactions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"kind" text NOT NULL,
+	"amount" integer NOT NULL,
+	"job_id" varchar,
+	"idempotency_key" text,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "credit_transactions_idempotency_key_idx" ON "credit_transactions" USING btree ("idempotency_key");--> statement-breakpoint
+CREATE INDEX "credit_transactions_user_created_idx" ON "credit_transactions" USING btree ("user_id","created_at");--> statement-breakpoint
+-- Seed the ledger with each existing user's balance so sums match users.credits
+INSERT INTO "credit_transactions" ("user_id", "kind", "amount", "idempotency_key", "note")
+SELECT "id", 'adjustment', "credits", 'opening:' || "id", 'Opening balance' FROM "users" WHERE "credits" <> 0;
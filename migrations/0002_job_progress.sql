@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "progress" jsonb;
\ No newline at end of file
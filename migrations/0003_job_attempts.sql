@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "attempts" jsonb;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "job_batches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"tool" text NOT NULL,
+	"prompt" text NOT NULL,
+	"count" integer NOT NULL,
+	"credits_used" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "batch_id" varchar;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "batch_index" integer;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "is_favorite" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "job_batches_user_created_idx" ON "job_batches" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "jobs_batch_idx" ON "jobs" USING btree ("batch_id");
\ No newline at end of file
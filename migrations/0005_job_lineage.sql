@@ -0,0 +1,2 @@
+ALTER TABLE "jobs" ADD COLUMN "parent_job_id" varchar;--> statement-breakpoint
+CREATE INDEX "jobs_parent_idx" ON "jobs" USING btree ("parent_job_id");
\ No newline at end of file
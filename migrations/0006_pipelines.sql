@@ -0,0 +1,16 @@
+CREATE TABLE "pipelines" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text,
+	"prompt" text NOT NULL,
+	"steps" jsonb NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"credits_used" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "pipeline_id" varchar;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "pipeline_step" text;--> statement-breakpoint
+CREATE INDEX "pipelines_user_created_idx" ON "pipelines" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "jobs_pipeline_idx" ON "jobs" USING btree ("pipeline_id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "presets" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"tool" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"prompt_template" text,
+	"inputs" jsonb,
+	"is_shared" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "preset_id" varchar;--> statement-breakpoint
+CREATE INDEX "presets_user_idx" ON "presets" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "presets_tool_idx" ON "presets" USING btree ("tool","is_shared");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "job_batches" ADD COLUMN "template" text;--> statement-breakpoint
+ALTER TABLE "job_batches" ADD COLUMN "rows" jsonb;
\ No newline at end of file
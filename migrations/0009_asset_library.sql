@@ -0,0 +1,13 @@
+ALTER TABLE "assets" DROP COLUMN "job_type";--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "job_id" varchar NOT NULL;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "tool" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "position" integer NOT NULL;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "kind" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "mime_type" text;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "size_bytes" integer;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "width" integer;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "height" integer;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "assets_job_position_idx" ON "assets" USING btree ("job_id","position");--> statement-breakpoint
+CREATE INDEX "assets_user_created_idx" ON "assets" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "assets_user_tool_idx" ON "assets" USING btree ("user_id","tool");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "assets" ADD COLUMN "search_text" text;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "embedding" jsonb;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "embedding_model" text;--> statement-breakpoint
+CREATE INDEX "assets_search_idx" ON "assets" USING gin ((setweight(to_tsvector('english', "prompt"), 'A') || setweight(to_tsvector('english', coalesce("search_text", '')), 'B')));
\ No newline at end of file
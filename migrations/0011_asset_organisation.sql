@@ -0,0 +1,22 @@
+CREATE TABLE "asset_tags" (
+	"asset_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"tag" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "collections" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "collection_id" varchar;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "favorite" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+CREATE UNIQUE INDEX "asset_tags_asset_tag_idx" ON "asset_tags" USING btree ("asset_id","tag");--> statement-breakpoint
+CREATE INDEX "asset_tags_user_tag_idx" ON "asset_tags" USING btree ("user_id","tag");--> statement-breakpoint
+CREATE UNIQUE INDEX "collections_user_name_idx" ON "collections" USING btree ("user_id","name");--> statement-breakpoint
+CREATE INDEX "assets_collection_idx" ON "assets" USING btree ("collection_id");
\ No newline at end of file
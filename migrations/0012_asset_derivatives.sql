@@ -0,0 +1,14 @@
+CREATE TABLE "asset_derivatives" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"asset_id" varchar NOT NULL,
+	"kind" text NOT NULL,
+	"status" text NOT NULL,
+	"url" text,
+	"width" integer,
+	"height" integer,
+	"size_bytes" integer,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "asset_derivatives_asset_kind_idx" ON "asset_derivatives" USING btree ("asset_id","kind");
\ No newline at end of file
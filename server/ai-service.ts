@@ -1,19 +1,33 @@
 // Using Hugging Face free inference API for image generation
 // No API key required for basic usage, but we can use one for higher rate limits if available
 
+import type { Sampler, TextToImageParams } from "@shared/schema";
+import { FileService } from "./file-service";
+import { errorStatusOf } from "./providers/retry-policy";
+
+// Diffusers scheduler names for the sampler choices; "default" keeps the model's own
+const SCHEDULERS: Record<Sampler, string | undefined> = {
+  default: undefined,
+  euler: "EulerDiscreteScheduler",
+  euler_a: "EulerAncestralDiscreteScheduler",
+  dpmpp_2m: "DPMSolverMultistepScheduler",
+  ddim: "DDIMScheduler",
+};
+
 export interface GenerationResult {
   url: string;
   success: boolean;
   error?: string;
+  errorStatus?: number; // HTTP status behind a failure, 0 for network errors, unset for local ones that aren't retried
 }
 
 export class AIService {
   /**
    * Generate an image from text using Hugging Face FLUX.1 (FREE)
    */
-  static async generateTextToImage(prompt: string): Promise<GenerationResult> {
+  static async generateTextToImage(prompt: string, params: TextToImageParams = {}): Promise<GenerationResult> {
     try {
-      console.log("[HF DEBUG] Generating image with FLUX.1 for prompt:", prompt);
+      console.log("[HF DEBUG] Generating image with FLUX.1 for prompt:", prompt, params);
       
       // Use Hugging Face's free FLUX model inference API - FLUX.1 is the new leading open-source model in 2025
       const response = await fetch(
@@ -29,6 +43,15 @@ export class AIService {
           method: "POST",
           body: JSON.stringify({
             inputs: prompt,
+            parameters: {
+              seed: params.seed,
+              negative_prompt: params.negativePrompt || undefined,
+              guidance_scale: params.guidanceScale,
+              num_inference_steps: params.steps,
+              width: params.width,
+              height: params.height,
+              scheduler: params.sampler ? SCHEDULERS[params.sampler] : undefined,
+            },
             options: { wait_for_model: true }
           }),
         }
@@ -42,7 +65,8 @@ export class AIService {
           return {
             url: "",
             success: false,
-            error: "The AI model is loading. Please try again in a few seconds."
+            error: "The AI model is loading. Please try again in a few seconds.",
+            errorStatus: response.status
           };
         }
         
@@ -56,22 +80,18 @@ export class AIService {
         return {
           url: "",
           success: false,
-          error: `Image generation failed: ${response.status} ${errorText || 'Server error'}`
+          error: `Image generation failed: ${response.status} ${errorText || 'Server error'}`,
+          errorStatus: response.status
         };
       }
 
-      // Get the image data as blob
-      const imageBlob = await response.blob();
-      
-      // Convert blob to base64 data URL for immediate use
-      const arrayBuffer = await imageBlob.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-      const base64Image = buffer.toString('base64');
-      const dataUrl = `data:image/png;base64,${base64Image}`;
+      // Persist the image so job rows hold a short URL rather than megabytes of base64
+      const buffer = Buffer.from(await response.arrayBuffer());
+      const image = await FileService.storeImage(buffer);
 
-      console.log("[HF DEBUG] Successfully generated image, size:", buffer.length, "bytes");
+      console.log("[HF DEBUG] Successfully generated image, size:", buffer.length, "bytes, stored at", image.url);
       return {
-        url: dataUrl,
+        url: image.url,
         success: true
       };
     } catch (error: any) {
@@ -82,14 +102,17 @@ export class AIService {
         return {
           url: "",
           success: false,
-          error: "Request timed out. Please try again with a shorter prompt."
+          error: "Request timed out. Please try again with a shorter prompt.",
+          errorStatus: 0
         };
       }
       
+      // Storing the image (e.g. one sharp can't decode) fails the same wherever it's retried
       return {
         url: "",
         success: false,
-        error: `Image generation failed: ${error.message || 'Unknown error occurred'}`
+        error: `Image generation failed: ${error.message || 'Unknown error occurred'}`,
+        errorStatus: errorStatusOf(error)
       };
     }
   }
@@ -0,0 +1,623 @@
+// Asset library: one row per file a completed job produced, with its kind, type, size and dimensions
+
+import { Readable } from "stream";
+import { db, eq, ne, and, or, gte, lt, inArray, isNull, asc, desc, sql, getTableColumns } from "./db";
+import {
+  assets,
+  assetTags,
+  assetDerivatives,
+  jobs,
+  assetSearchVector,
+  type Asset,
+  type AssetDerivative,
+  type AssetBulkAction,
+  type AssetUpdate,
+  type Job,
+} from "@shared/schema";
+import { CollectionService, CollectionNotFoundError } from "./collection-service";
+import { FileService } from "./file-service";
+import { DerivativeService, derivativeKindFor } from "./derivatives/derivative-service";
+import { getEmbedder, cosineSimilarity } from "./embeddings/embedder-factory";
+import { getStorageBackend, keyFromAssetUrl } from "./storage-backend/backend-factory";
+import { contentTypeFor } from "./storage-backend/content-types";
+
+export type AssetKind = "image" | "model" | "video" | "file";
+export type AssetStatus = "pending" | "ready" | "unavailable";
+export type AssetSort = "relevance" | "newest" | "oldest" | "largest" | "smallest";
+
+export interface AssetQuery {
+  userId: string;
+  tool?: string;
+  kind?: AssetKind;
+  status?: AssetStatus;
+  from?: Date;
+  to?: Date; // Exclusive
+  q?: string; // Full-text search; results can then be sorted by relevance
+  collectionId?: string | null; // null: only unfiled assets
+  tag?: string;
+  favorite?: boolean;
+  sort?: AssetSort;
+  limit: number;
+  offset: number;
+}
+
+interface FileInfo {
+  mimeType: string | null;
+  sizeBytes: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+// Enough of the file to find the dimensions in any common image header
+const HEAD_BYTES = 512 * 1024;
+const PROBE_TIMEOUT_MS = 15000;
+const BACKFILL_BATCH = 200;
+
+// Words that let a search for e.g. "3d" or "video" find assets whose prompts never say so
+const TOOL_TERMS: Record<string, string> = {
+  text2image: "image picture",
+  text2mesh: "3d model mesh",
+  img2mesh: "3d model mesh from image",
+  texturing: "textured 3d model",
+  img2video: "video animation clip",
+  meshprocess: "optimized 3d model mesh lod",
+};
+
+export type RankedAsset = Asset & {
+  tags?: string[];
+  derivatives?: AssetDerivative[];
+  rank?: number;
+  similarity?: number;
+};
+
+// Searched with the prompt: the provider's enhanced prompt, customizations and what kind of file it is
+function searchTextFor(job: Job, kind: string, mimeType: string | null): string {
+  const meta = (job.meta as Record<string, any> | null) || {};
+  const options = (job.inputs as Record<string, any> | null)?.options || {};
+  const customizations = options.customizations || {};
+
+  return [
+    meta.enhancedPrompt,
+    customizations.style,
+    customizations.material,
+    customizations.color,
+    TOOL_TERMS[job.tool],
+    kind,
+    mimeType?.split("/")[1],
+  ].filter(value => typeof value === "string" && value).join(" ");
+}
+
+function embeddingTextFor(asset: Asset): string {
+  return asset.searchText ? `${asset.prompt}. ${asset.searchText}` : asset.prompt;
+}
+
+// Every word of the query must match, each as a prefix so results update while typing
+function toTsQuery(q: string): string | null {
+  const terms = q.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g);
+  return terms ? terms.map(term => `${term}:*`).join(" & ") : null;
+}
+
+// Mime type from a URL alone: a data URL's header, else the path's extension
+function mimeTypeFor(url: string): string | null {
+  if (url.startsWith("data:")) {
+    return url.slice(5).split(/[;,]/)[0] || null;
+  }
+
+  let pathname = url;
+  try {
+    pathname = new URL(url, "http://localhost").pathname;
+  } catch {}
+  const type = contentTypeFor(pathname);
+  return type === "application/octet-stream" ? null : type;
+}
+
+function kindFor(tool: string, mimeType: string | null): AssetKind {
+  if (mimeType?.startsWith("image/")) return "image";
+  if (mimeType?.startsWith("video/")) return "video";
+  if (mimeType?.startsWith("model/") || mimeType === "application/ply") return "model";
+
+  switch (tool) {
+    case "text2image":
+      return "image";
+    case "img2video":
+      return "video";
+    case "text2mesh":
+    case "img2mesh":
+    case "texturing":
+    case "meshprocess":
+      return "model";
+    default:
+      return "file";
+  }
+}
+
+// Width and height from a PNG, GIF, WebP or JPEG header, or null for anything else
+function readImageSize(head: Buffer): { width: number; height: number } | null {
+  if (head.length >= 24 && head.readUInt32BE(0) === 0x89504e47) {
+    return { width: head.readUInt32BE(16), height: head.readUInt32BE(20) };
+  }
+
+  if (head.length >= 10 && head.toString("latin1", 0, 3) === "GIF") {
+    return { width: head.readUInt16LE(6), height: head.readUInt16LE(8) };
+  }
+
+  if (head.length >= 30 && head.toString("latin1", 0, 4) === "RIFF" && head.toString("latin1", 8, 12) === "WEBP") {
+    const chunk = head.toString("latin1", 12, 16);
+    if (chunk === "VP8 ") {
+      return { width: head.readUInt16LE(26) & 0x3fff, height: head.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === "VP8L") {
+      const bits = head.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      return { width: head.readUIntLE(24, 3) + 1, height: head.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+  }
+
+  if (head.length >= 4 && head[0] === 0xff && head[1] === 0xd8) {
+    // Walk the segments to the first start-of-frame marker
+    let offset = 2;
+    while (offset + 9 < head.length) {
+      if (head[offset] !== 0xff) return null;
+      const marker = head[offset + 1];
+      const length = head.readUInt16BE(offset + 2);
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isFrame) {
+        return { width: head.readUInt16BE(offset + 7), height: head.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+async function readHead(stream: Readable | ReadableStream<Uint8Array>): Promise<Buffer> {
+  const readable = stream instanceof Readable ? stream : Readable.fromWeb(stream as any);
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of readable) {
+    chunks.push(Buffer.from(chunk));
+    total += chunk.length;
+    if (total >= HEAD_BYTES) break;
+  }
+  readable.destroy();
+
+  return Buffer.concat(chunks).subarray(0, HEAD_BYTES);
+}
+
+// Size, type and (for images) dimensions of a job output, wherever it lives
+async function probeFile(url: string, isImage: boolean): Promise<FileInfo> {
+  const info: FileInfo = { mimeType: mimeTypeFor(url), sizeBytes: null, width: null, height: null };
+  let head: Buffer | null = null;
+
+  if (url.startsWith("data:")) {
+    const body = Buffer.from(url.slice(url.indexOf(",") + 1), "base64");
+    info.sizeBytes = body.length;
+    head = body.subarray(0, HEAD_BYTES);
+  } else if (keyFromAssetUrl(url)) {
+    const key = keyFromAssetUrl(url)!;
+    const storage = getStorageBackend();
+    const stat = await storage.stat(key);
+    if (!stat) throw new Error(`Stored file ${key} is missing`);
+
+    info.sizeBytes = stat.size;
+    if (isImage) {
+      const object = await storage.get(key);
+      if (object) head = await readHead(object.body);
+    }
+  } else if (/^https?:\/\//.test(url)) {
+    // Images: ask for just the header. Everything else: the headers are enough
+    const response = await fetch(url, {
+      method: isImage ? "GET" : "HEAD",
+      headers: isImage ? { Range: `bytes=0-${HEAD_BYTES - 1}` } : undefined,
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const total = response.headers.get("content-range")?.split("/")[1];
+    const length = response.status === 206 ? total : response.headers.get("content-length");
+    info.sizeBytes = length && /^\d+$/.test(length) ? parseInt(length) : null;
+
+    const contentType = response.headers.get("content-type")?.split(";")[0].trim();
+    if (contentType && contentType !== "application/octet-stream" && !info.mimeType) {
+      info.mimeType = contentType;
+    }
+
+    if (isImage && response.body) head = await readHead(response.body);
+  } else {
+    throw new Error("Unrecognised asset URL");
+  }
+
+  const size = head ? readImageSize(head) : null;
+  if (size) {
+    info.width = size.width;
+    info.height = size.height;
+  }
+  return info;
+}
+
+export class AssetService {
+  // Catch up on jobs completed before the library existed or whose recording failed
+  static async start(): Promise<void> {
+    const recorded = await this.backfill();
+    console.log(`[ASSET] Backfill: ${recorded} asset(s) recorded`);
+
+    // Probing and embedding can mean a network round trip per asset, so they don't hold up startup
+    this.catchUp().catch((error) => {
+      console.error("[ASSET] Failed to catch up on pending assets:", error);
+    });
+  }
+
+  // Called as a job completes, before its completion is published, so clients that refetch
+  // on the event see the new assets. Never throws: the backfill retries anything missed
+  static async recordJob(job: Job): Promise<Asset[]> {
+    if (job.status !== "completed" || !job.assetUrls?.length) return [];
+
+    try {
+      const recorded = await this.insertAssets(job);
+      this.finishAssets(recorded).catch((error) => {
+        console.error(`[ASSET] Failed to finish assets for job ${job.id}:`, error);
+      });
+      return recorded;
+    } catch (error) {
+      console.error(`[ASSET] Failed to record assets for job ${job.id}:`, error);
+      return [];
+    }
+  }
+
+  static async listAssets(query: AssetQuery): Promise<{ assets: RankedAsset[]; total: number }> {
+    const conditions = [eq(assets.userId, query.userId), isNull(assets.deletedAt)];
+    if (query.tool) conditions.push(eq(assets.tool, query.tool));
+    if (query.kind) conditions.push(eq(assets.kind, query.kind));
+    if (query.status) conditions.push(eq(assets.status, query.status));
+    if (query.from) conditions.push(gte(assets.createdAt, query.from));
+    if (query.to) conditions.push(lt(assets.createdAt, query.to));
+    if (query.collectionId !== undefined) {
+      conditions.push(query.collectionId === null ? isNull(assets.collectionId) : eq(assets.collectionId, query.collectionId));
+    }
+    if (query.tag) {
+      conditions.push(sql`exists (select 1 from ${assetTags} where ${assetTags.assetId} = ${assets.id} and ${assetTags.tag} = ${query.tag})`);
+    }
+    if (query.favorite !== undefined) conditions.push(eq(assets.favorite, query.favorite));
+
+    // Tags are read as the query runs, so tag edits are searchable straight away. They weigh
+    // like the prompt, as the user chose them
+    const tsQuery = query.q ? toTsQuery(query.q) : null;
+    const matchQuery = sql`to_tsquery('english', ${tsQuery})`;
+    const tagText = sql`(select string_agg(${assetTags.tag}, ' ') from ${assetTags} where ${assetTags.assetId} = ${assets.id})`;
+    const searchVector = sql`(${assetSearchVector(assets.prompt, assets.searchText)} || setweight(to_tsvector('english', coalesce(${tagText}, '')), 'A'))`;
+    if (tsQuery) conditions.push(sql`${searchVector} @@ ${matchQuery}`);
+    const where = and(...conditions);
+
+    // Ties fall back to id so pages never overlap or skip
+    const rank = sql<number>`ts_rank_cd(${searchVector}, ${matchQuery})`;
+    const order = {
+      relevance: tsQuery ? [desc(rank), desc(assets.createdAt), desc(assets.id)] : [desc(assets.createdAt), desc(assets.id)],
+      newest: [desc(assets.createdAt), desc(assets.id)],
+      oldest: [asc(assets.createdAt), asc(assets.id)],
+      largest: [sql`${assets.sizeBytes} desc nulls last`, desc(assets.id)],
+      smallest: [sql`${assets.sizeBytes} asc nulls last`, asc(assets.id)],
+    }[query.sort || "newest"];
+
+    const columns = tsQuery ? { ...getTableColumns(assets), rank } : getTableColumns(assets);
+    const [page, [{ count }]] = await Promise.all([
+      db.select(columns).from(assets).where(where).orderBy(...order).limit(query.limit).offset(query.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(assets).where(where),
+    ]);
+
+    return { assets: await this.withDetails(page), total: count };
+  }
+
+  // Nearest neighbours by embedding, to one of the user's assets or to free text
+  static async findSimilar(userId: string, target: { assetId: string } | { text: string }, limit: number): Promise<RankedAsset[] | null> {
+    const embedder = getEmbedder();
+    let vector: number[];
+    let excludeId: string | null = null;
+
+    if ("assetId" in target) {
+      const asset = await this.getAsset(target.assetId, userId);
+      if (!asset) return null;
+
+      excludeId = asset.id;
+      vector = asset.embedding && asset.embeddingModel === embedder.model
+        ? asset.embedding
+        : await embedder.embed(embeddingTextFor(asset));
+    } else {
+      vector = await embedder.embed(target.text);
+    }
+
+    const candidates = await db.select({ id: assets.id, embedding: assets.embedding }).from(assets).where(and(
+      eq(assets.userId, userId),
+      isNull(assets.deletedAt),
+      eq(assets.embeddingModel, embedder.model),
+      excludeId ? ne(assets.id, excludeId) : undefined,
+    ));
+
+    const nearest = candidates
+      .map(candidate => ({ id: candidate.id, similarity: cosineSimilarity(vector, candidate.embedding!) }))
+      .filter(candidate => candidate.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+    if (nearest.length === 0) return [];
+
+    const rows = await db.select().from(assets).where(inArray(assets.id, nearest.map(candidate => candidate.id)));
+    const byId = new Map((await this.withDetails(rows)).map(row => [row.id, row]));
+    return nearest
+      .filter(candidate => byId.has(candidate.id))
+      .map(candidate => ({ ...byId.get(candidate.id)!, similarity: Number(candidate.similarity.toFixed(4)) }));
+  }
+
+  static async getAsset(assetId: string, userId: string): Promise<RankedAsset | null> {
+    const [asset] = await db.select().from(assets)
+      .where(and(eq(assets.id, assetId), eq(assets.userId, userId), isNull(assets.deletedAt)));
+    return asset ? (await this.withDetails([asset]))[0] : null;
+  }
+
+  // The user's tags with how many assets carry each, most used first
+  static async listTags(userId: string): Promise<{ tag: string; count: number }[]> {
+    return db.select({ tag: assetTags.tag, count: sql<number>`count(*)::int` })
+      .from(assetTags)
+      .innerJoin(assets, eq(assets.id, assetTags.assetId))
+      .where(and(eq(assetTags.userId, userId), isNull(assets.deletedAt)))
+      .groupBy(assetTags.tag)
+      .orderBy(desc(sql`count(*)`), asc(assetTags.tag));
+  }
+
+  // Only the fields given change; tags, when given, replace the asset's current set
+  static async updateAsset(assetId: string, userId: string, update: AssetUpdate): Promise<RankedAsset | null> {
+    const asset = await this.getAsset(assetId, userId);
+    if (!asset) return null;
+
+    if (update.collectionId) await this.requireCollection(update.collectionId, userId);
+
+    await db.transaction(async (tx) => {
+      if (update.favorite !== undefined || update.collectionId !== undefined) {
+        await tx.update(assets)
+          .set({ favorite: update.favorite, collectionId: update.collectionId })
+          .where(eq(assets.id, assetId));
+      }
+
+      if (update.tags) {
+        await tx.delete(assetTags).where(eq(assetTags.assetId, assetId));
+        if (update.tags.length > 0) {
+          await tx.insert(assetTags).values(update.tags.map(tag => ({ assetId, userId, tag })));
+        }
+      }
+    });
+
+    return this.getAsset(assetId, userId);
+  }
+
+  // Apply one action to many assets at once; ids that aren't the user's are skipped
+  static async applyBulkAction(userId: string, request: AssetBulkAction): Promise<{ updated: number }> {
+    if (request.action === "move" && request.collectionId) {
+      await this.requireCollection(request.collectionId, userId);
+    }
+
+    const owned = await db.select({ id: assets.id }).from(assets).where(and(
+      inArray(assets.id, request.assetIds),
+      eq(assets.userId, userId),
+      isNull(assets.deletedAt),
+    ));
+    const ids = owned.map(asset => asset.id);
+    if (ids.length === 0) return { updated: 0 };
+
+    await db.transaction(async (tx) => {
+      switch (request.action) {
+        case "move":
+          await tx.update(assets).set({ collectionId: request.collectionId }).where(inArray(assets.id, ids));
+          break;
+        case "favorite":
+          await tx.update(assets).set({ favorite: request.favorite }).where(inArray(assets.id, ids));
+          break;
+        case "tag":
+          await tx.insert(assetTags)
+            .values(ids.flatMap(assetId => request.tags.map(tag => ({ assetId, userId, tag }))))
+            .onConflictDoNothing();
+          break;
+        case "untag":
+          await tx.delete(assetTags).where(and(inArray(assetTags.assetId, ids), inArray(assetTags.tag, request.tags)));
+          break;
+        case "delete":
+          // Soft delete: the job keeps its outputs, and the backfill sees the row and leaves it alone
+          await tx.update(assets).set({ deletedAt: new Date(), collectionId: null }).where(inArray(assets.id, ids));
+          await tx.delete(assetTags).where(inArray(assetTags.assetId, ids));
+          break;
+      }
+    });
+
+    console.log(`[ASSET] ${userId} applied ${request.action} to ${ids.length} asset(s)`);
+    return { updated: ids.length };
+  }
+
+  private static async requireCollection(collectionId: string, userId: string): Promise<void> {
+    if (!(await CollectionService.getCollection(collectionId, userId))) {
+      throw new CollectionNotFoundError();
+    }
+  }
+
+  // Tags and previews for a whole page, a query each
+  private static async withDetails<T extends Asset>(rows: T[]): Promise<(T & { tags: string[]; derivatives: AssetDerivative[] })[]> {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map(row => row.id);
+    const [tags, derivatives] = await Promise.all([
+      db.select({ assetId: assetTags.assetId, tag: assetTags.tag }).from(assetTags)
+        .where(inArray(assetTags.assetId, ids))
+        .orderBy(asc(assetTags.tag)),
+      DerivativeService.listFor(ids),
+    ]);
+
+    const tagsByAsset = new Map<string, string[]>();
+    for (const { assetId, tag } of tags) {
+      tagsByAsset.set(assetId, [...(tagsByAsset.get(assetId) || []), tag]);
+    }
+
+    return rows.map(row => ({
+      ...row,
+      tags: tagsByAsset.get(row.id) || [],
+      derivatives: derivatives.filter(derivative => derivative.assetId === row.id),
+    }));
+  }
+
+  private static async insertAssets(job: Job): Promise<Asset[]> {
+    return db.insert(assets).values(job.assetUrls!.map((url, position) => {
+      const mimeType = mimeTypeFor(url);
+      return {
+        jobId: job.id,
+        userId: job.userId,
+        tool: job.tool,
+        prompt: job.prompt,
+        url,
+        position,
+        kind: kindFor(job.tool, mimeType),
+        mimeType,
+        searchText: searchTextFor(job, kindFor(job.tool, mimeType), mimeType),
+        createdAt: job.updatedAt, // When the job finished, so the library sorts by completion
+      };
+    })).onConflictDoNothing().returning();
+  }
+
+  // Fill in size and dimensions; an unreachable file is kept but marked unavailable.
+  // Returns whether the file could be reached
+  private static async probe(asset: Asset): Promise<boolean> {
+    try {
+      const info = await probeFile(asset.url, asset.kind === "image");
+      await db.update(assets)
+        .set({ ...info, mimeType: info.mimeType ?? asset.mimeType, status: "ready" })
+        .where(eq(assets.id, asset.id));
+      return true;
+    } catch (error) {
+      console.warn(`[ASSET] Could not probe asset ${asset.id}: ${error instanceof Error ? error.message : error}`);
+      await db.update(assets).set({ status: "unavailable" }).where(eq(assets.id, asset.id));
+      return false;
+    }
+  }
+
+  // Completed jobs with no asset rows yet, e.g. from before the library existed
+  private static async backfill(): Promise<number> {
+    let recorded = 0;
+
+    while (true) {
+      const missing = await db.select().from(jobs).where(and(
+        eq(jobs.status, "completed"),
+        sql`case when jsonb_typeof(${jobs.assetUrls}) = 'array' then jsonb_array_length(${jobs.assetUrls}) else 0 end > 0`,
+        sql`not exists (select 1 from ${assets} where ${assets.jobId} = ${jobs.id})`,
+      )).limit(BACKFILL_BATCH);
+      if (missing.length === 0) break;
+
+      for (const job of missing) {
+        recorded += (await this.insertAssets(job)).length;
+      }
+    }
+
+    return recorded;
+  }
+
+  // Jobs from before generated images were persisted carry them as base64 data URLs; store
+  // those files and point the job and its assets at them
+  private static async persistInlineImages(): Promise<number> {
+    const inline = await db.select({ id: jobs.id }).from(jobs).where(or(
+      sql`${jobs.assetUrls}::text like '%"data:image/%'`,
+      sql`${jobs.previewImage} like 'data:image/%'`,
+    ));
+
+    let persisted = 0;
+    for (const { id } of inline) {
+      try {
+        const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+        const persist = async (url: string) => url.startsWith("data:image/") ? (await FileService.storeDataUrl(url)).url : url;
+
+        const assetUrls: string[] = [];
+        for (const url of job.assetUrls || []) {
+          assetUrls.push(await persist(url));
+        }
+        const previewImage = job.previewImage ? await persist(job.previewImage) : job.previewImage;
+
+        await db.transaction(async (tx) => {
+          await tx.update(jobs).set({ assetUrls, previewImage }).where(eq(jobs.id, id));
+          for (let position = 0; position < assetUrls.length; position++) {
+            await tx.update(assets).set({ url: assetUrls[position] })
+              .where(and(eq(assets.jobId, id), eq(assets.position, position)));
+          }
+        });
+        persisted++;
+      } catch (error) {
+        console.warn(`[ASSET] Could not persist inline images of job ${id}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return persisted;
+  }
+
+  // Store the asset's embedding; without one it just won't appear in "find similar" until the next start
+  private static async embed(asset: Asset): Promise<void> {
+    const embedder = getEmbedder();
+    try {
+      const embedding = await embedder.embed(embeddingTextFor(asset));
+      await db.update(assets).set({ embedding, embeddingModel: embedder.model }).where(eq(assets.id, asset.id));
+    } catch (error) {
+      console.warn(`[ASSET] Could not embed asset ${asset.id}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // One at a time, to keep provider CDNs, the storage backend and the embedder from being flooded
+  private static async finishAssets(recorded: Asset[]): Promise<void> {
+    for (const asset of recorded) {
+      if (await this.probe(asset)) {
+        await DerivativeService.generate(asset);
+      }
+      await this.embed(asset);
+    }
+  }
+
+  // Assets a restart interrupted before they were probed, previewed or embedded, plus any
+  // embedded by a different model than the current one
+  private static async catchUp(): Promise<void> {
+    const persisted = await this.persistInlineImages();
+    if (persisted) {
+      console.log(`[ASSET] Moved inline images of ${persisted} job(s) into storage`);
+    }
+
+    const pending = await db.select().from(assets).where(eq(assets.status, "pending"));
+    for (const asset of pending) {
+      await this.probe(asset);
+    }
+
+    // Recorded before search text existed
+    const unsearchable = await db.select({ asset: assets, job: jobs }).from(assets)
+      .innerJoin(jobs, eq(jobs.id, assets.jobId))
+      .where(isNull(assets.searchText));
+    for (const { asset, job } of unsearchable) {
+      await db.update(assets)
+        .set({ searchText: searchTextFor(job, asset.kind, asset.mimeType) })
+        .where(eq(assets.id, asset.id));
+    }
+
+    // Reachable assets that never got a preview, including any just probed
+    const unpreviewed = await db.select().from(assets).where(and(
+      eq(assets.status, "ready"),
+      isNull(assets.deletedAt),
+      sql`not exists (select 1 from ${assetDerivatives} where ${assetDerivatives.assetId} = ${assets.id})`,
+    ));
+    const previewable = unpreviewed.filter(asset => derivativeKindFor(asset));
+    for (const asset of previewable) {
+      await DerivativeService.generate(asset);
+    }
+
+    const model = getEmbedder().model;
+    const stale = await db.select().from(assets)
+      .where(or(isNull(assets.embeddingModel), ne(assets.embeddingModel, model)));
+    for (const asset of stale) {
+      await this.embed(asset);
+    }
+
+    if (pending.length || previewable.length || stale.length) {
+      console.log(`[ASSET] Caught up: ${pending.length} probed, ${previewable.length} previewed, ${stale.length} embedded with ${model}`);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+// Session-based authentication for studio users
+
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import crypto from "crypto";
+import { promisify } from "util";
+import { db, eq, pool } from "./db";
+import { CreditService } from "./credit-service";
+import { users, credentialsSchema, type User, type PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(crypto.scrypt);
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Credits granted to every new account
+const STARTING_CREDITS = 25;
+
+// Hash a password as "salt:hash" using scrypt
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${derived.toString("hex")}`;
+}
+
+// Compare a password against a stored "salt:hash" value in constant time
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const derived = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === derived.length && crypto.timingSafeEqual(expected, derived);
+}
+
+// Strip secrets before a user leaves the server
+export function toPublicUser(user: User): PublicUser {
+  return { id: user.id, username: user.username, credits: user.credits };
+}
+
+async function findUserByUsername(username: string): Promise<User | undefined> {
+  const [user] = await db.select().from(users).where(eq(users.username, username));
+  return user;
+}
+
+async function findUserById(id: string): Promise<User | undefined> {
+  const [user] = await db.select().from(users).where(eq(users.id, id));
+  return user;
+}
+
+// Reject unauthenticated requests to protected API routes
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express): void {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: sessionSecret || "development-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    // Postgres-backed sessions survive restarts; the embedded dev database keeps them in memory
+    store: pool
+      ? new PostgresSessionStore({ pool, createTableIfMissing: true })
+      : new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }), // Prune expired entries daily
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await findUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await findUserById(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Create an account and start a session for it
+  app.post("/api/auth/signup", async (req, res, next) => {
+    try {
+      const parsed = credentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid credentials" });
+      }
+
+      const { username, password } = parsed.data;
+      if (await findUserByUsername(username)) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+
+      // The check above can race another signup for the same name; the insert settles it
+      const passwordHash = await hashPassword(password);
+      const user = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(users).values({
+          username,
+          passwordHash,
+          credits: 0,
+        }).onConflictDoNothing({ target: users.username }).returning();
+        if (!created) return null;
+
+        await CreditService.apply(tx, {
+          userId: created.id,
+          kind: "grant",
+          amount: STARTING_CREDITS,
+          idempotencyKey: `signup:${created.id}`,
+          note: "Welcome credits",
+        });
+
+        return { ...created, credits: STARTING_CREDITS };
+      });
+      if (!user) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+
+      const publicUser = toPublicUser(user);
+      req.login(publicUser, (err) => {
+        if (err) return next(err);
+        res.status(201).json(publicUser);
+      });
+    } catch (error) {
+      console.error("Error signing up:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: PublicUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  // Current session user (401 when logged out)
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+}
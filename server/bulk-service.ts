@@ -0,0 +1,251 @@
+// Bulk generation: a prompt template expanded over uploaded rows into one batch of jobs
+
+import {
+  toolCosts,
+  MAX_BULK_ROWS,
+  TEMPLATE_VARIABLE_PATTERN,
+  type BulkRequest,
+  type Job,
+  type JobBatch,
+  type Tool,
+} from "@shared/schema";
+import { CreditService } from "./credit-service";
+import { JobService } from "./job-service";
+import { PresetService } from "./preset-service";
+import { viewUrl, viewUrls } from "./storage-backend/signed-urls";
+
+export class BulkValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BulkValidationError";
+  }
+}
+
+export interface BulkRow {
+  values: Record<string, string>;
+  prompt: string;
+  missing: string[]; // Variables the row left empty; the row can't be submitted while any are
+}
+
+export interface BulkPreview {
+  tool: Tool;
+  template: string; // After any preset template has wrapped it
+  inputs: Record<string, any>;
+  variables: string[];
+  columns: string[];
+  rows: BulkRow[];
+  invalidRows: number;
+  costPerJob: number;
+  totalCost: number;
+  balance: number;
+}
+
+// RFC 4180 style: quoted fields may contain commas, line breaks and doubled quotes
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new BulkValidationError("CSV has an unterminated quoted field");
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no row
+  return records.filter(fields => fields.some(value => value.trim() !== ""));
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(records: string[][]): string {
+  return records.map(fields => fields.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Placeholder names in the order they first appear
+function templateVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(new RegExp(TEMPLATE_VARIABLE_PATTERN)), match => match[1]);
+  return Array.from(new Set(names));
+}
+
+function expandTemplate(template: string, values: Record<string, string>): BulkRow {
+  const missing = templateVariables(template).filter(name => !values[name]);
+  const prompt = template.replace(new RegExp(TEMPLATE_VARIABLE_PATTERN), (placeholder, name: string) => values[name] || placeholder);
+  return { values, prompt: prompt.replace(/\s+/g, " ").trim(), missing };
+}
+
+export class BulkService {
+  // Turn an uploaded file into the csv/rows half of a bulk request
+  static parseUpload(filename: string, buffer: Buffer): { csv: string } | { rows: unknown } {
+    const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+    if (!filename.toLowerCase().endsWith(".json")) {
+      return { csv: text };
+    }
+
+    // Either an array of row objects or { rows: [...] }
+    try {
+      const parsed = JSON.parse(text);
+      return { rows: Array.isArray(parsed) ? parsed : parsed?.rows };
+    } catch {
+      throw new BulkValidationError("File is not valid JSON");
+    }
+  }
+
+  // Expand the template over every row and price the result, without creating anything
+  static async preview(userId: string, request: BulkRequest): Promise<BulkPreview> {
+    let template = request.template;
+    let inputs = request.inputs || {};
+
+    // A preset's own template wraps this one through its {prompt} placeholder
+    if (request.presetId) {
+      const applied = await PresetService.applyPreset(request.presetId, userId, request.tool, template, inputs);
+      template = applied.prompt;
+      inputs = applied.inputs;
+    }
+
+    const { columns, records } = this.readRows(request);
+    const variables = templateVariables(template);
+    const unknown = variables.filter(name => !columns.includes(name));
+    if (unknown.length > 0) {
+      throw new BulkValidationError(`No column for ${unknown.map(name => `{${name}}`).join(", ")}. Columns: ${columns.join(", ")}`);
+    }
+
+    const rows = records.map(values => expandTemplate(template, values));
+    const costPerJob = toolCosts[request.tool];
+
+    return {
+      tool: request.tool,
+      template,
+      inputs,
+      variables,
+      columns,
+      rows,
+      invalidRows: rows.filter(row => row.missing.length > 0).length,
+      costPerJob,
+      totalCost: costPerJob * rows.length,
+      balance: await CreditService.getBalance(userId),
+    };
+  }
+
+  // Submit a previewed run as one batch; every row must expand cleanly first
+  static async createBulkBatch(preview: BulkPreview, userId: string, sessionId: string, presetId?: string): Promise<{ batch: JobBatch; jobs: Job[] }> {
+    const invalid = preview.rows.findIndex(row => row.missing.length > 0);
+    if (invalid >= 0) {
+      const { missing } = preview.rows[invalid];
+      throw new BulkValidationError(`Row ${invalid + 1} has no value for ${missing.map(name => `{${name}}`).join(", ")}`);
+    }
+
+    const result = await JobService.createBatch({
+      tool: preview.tool,
+      prompt: preview.template,
+      inputs: preview.inputs,
+      variants: preview.rows.map(row => ({ prompt: row.prompt })),
+      presetId,
+      template: preview.template,
+      rows: preview.rows.map(row => row.values),
+      userId,
+      sessionId,
+    });
+
+    console.log(`[BULK] ${userId} expanded ${preview.variables.length} variable(s) over ${preview.rows.length} row(s) into batch ${result.batch.id}`);
+    return result;
+  }
+
+  // One record per row: the row's own columns, then what it produced
+  static async exportBatch(batchId: string, userId: string): Promise<{ batch: JobBatch; columns: string[]; records: Record<string, any>[] } | null> {
+    const result = await JobService.getBatch(batchId, userId);
+    if (!result) return null;
+
+    const { batch, jobs } = result;
+    // jsonb doesn't keep key order, so template variables lead and any other columns follow
+    const variables = batch.template ? templateVariables(batch.template) : [];
+    const extraColumns = batch.rows?.length ? Object.keys(batch.rows[0]).filter(name => !variables.includes(name)) : [];
+    const rowColumns = batch.rows?.length ? [...variables, ...extraColumns] : [];
+    const records = jobs.map(job => ({
+      ...batch.rows?.[job.batchIndex ?? -1],
+      prompt: job.prompt,
+      job_id: job.id,
+      status: job.status,
+      asset_urls: viewUrls(job.assetUrls) || [],
+      preview_image: viewUrl(job.previewImage),
+      error: job.status === "failed" ? (job.meta as any)?.error : undefined,
+    }));
+
+    return {
+      batch,
+      columns: [...rowColumns, "prompt", "job_id", "status", "asset_urls", "preview_image", "error"],
+      records,
+    };
+  }
+
+  // Rows as string maps keyed by trimmed column names
+  private static readRows(request: BulkRequest): { columns: string[]; records: Record<string, string>[] } {
+    let columns: string[];
+    let records: Record<string, string>[];
+
+    if (request.csv !== undefined) {
+      const [header, ...lines] = parseCsv(request.csv);
+      if (!header) throw new BulkValidationError("CSV is empty");
+
+      columns = header.map(name => name.trim());
+      if (new Set(columns).size !== columns.length || columns.some(name => !name)) {
+        throw new BulkValidationError("CSV header must name every column once");
+      }
+
+      records = lines.map((fields, index) => {
+        if (fields.length > columns.length) {
+          throw new BulkValidationError(`Row ${index + 1} has ${fields.length} fields but the header has ${columns.length}`);
+        }
+        return Object.fromEntries(columns.map((name, column) => [name, (fields[column] ?? "").trim()]));
+      });
+    } else {
+      const objects = (request.rows || []).map(row => Object.fromEntries(
+        Object.entries(row).map(([name, value]) => [name.trim(), value === null ? "" : String(value).trim()])
+      ));
+      columns = Array.from(new Set(objects.flatMap(row => Object.keys(row))));
+      records = objects.map(row => Object.fromEntries(columns.map(name => [name, row[name] ?? ""])));
+    }
+
+    if (records.length === 0) {
+      throw new BulkValidationError("No rows to generate");
+    }
+    if (records.length > MAX_BULK_ROWS) {
+      throw new BulkValidationError(`Too many rows: ${records.length}. The limit is ${MAX_BULK_ROWS}`);
+    }
+
+    return { columns, records };
+  }
+}
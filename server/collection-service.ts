@@ -0,0 +1,87 @@
+// Collections: named folders a user files their assets into
+
+import { db, eq, and, isNull, asc, sql } from "./db";
+import { assets, collections, type Collection, type CollectionRequest } from "@shared/schema";
+
+export class CollectionNotFoundError extends Error {
+  constructor() {
+    super("Collection not found");
+    this.name = "CollectionNotFoundError";
+  }
+}
+
+export class CollectionNameTakenError extends Error {
+  constructor(name: string) {
+    super(`You already have a collection called "${name}"`);
+    this.name = "CollectionNameTakenError";
+  }
+}
+
+export type CollectionWithCount = Collection & { assetCount: number };
+
+export class CollectionService {
+  // Alphabetical, each with how many (undeleted) assets it holds
+  static async listCollections(userId: string): Promise<CollectionWithCount[]> {
+    return db.select({
+      id: collections.id,
+      userId: collections.userId,
+      name: collections.name,
+      createdAt: collections.createdAt,
+      updatedAt: collections.updatedAt,
+      assetCount: sql<number>`count(${assets.id})::int`,
+    })
+      .from(collections)
+      .leftJoin(assets, and(eq(assets.collectionId, collections.id), isNull(assets.deletedAt)))
+      .where(eq(collections.userId, userId))
+      .groupBy(collections.id)
+      .orderBy(asc(collections.name));
+  }
+
+  static async getCollection(collectionId: string, userId: string): Promise<Collection | null> {
+    const [collection] = await db.select().from(collections)
+      .where(and(eq(collections.id, collectionId), eq(collections.userId, userId)));
+    return collection || null;
+  }
+
+  static async createCollection(userId: string, request: CollectionRequest): Promise<Collection> {
+    await this.checkNameFree(userId, request.name);
+
+    const [collection] = await db.insert(collections).values({ userId, name: request.name }).returning();
+    console.log(`[COLLECTION] ${userId} created collection ${collection.id}`);
+    return collection;
+  }
+
+  static async renameCollection(collectionId: string, userId: string, request: CollectionRequest): Promise<Collection | null> {
+    const existing = await this.getCollection(collectionId, userId);
+    if (!existing) return null;
+    if (existing.name !== request.name) {
+      await this.checkNameFree(userId, request.name);
+    }
+
+    const [collection] = await db.update(collections)
+      .set({ name: request.name, updatedAt: new Date() })
+      .where(eq(collections.id, collectionId))
+      .returning();
+    return collection || null;
+  }
+
+  // Its assets stay in the library, unfiled
+  static async deleteCollection(collectionId: string, userId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const deleted = await tx.delete(collections)
+        .where(and(eq(collections.id, collectionId), eq(collections.userId, userId)))
+        .returning({ id: collections.id });
+      if (deleted.length === 0) return false;
+
+      await tx.update(assets).set({ collectionId: null }).where(eq(assets.collectionId, collectionId));
+      return true;
+    });
+  }
+
+  // The unique index backs this up; checking first gives a readable error
+  private static async checkNameFree(userId: string, name: string): Promise<void> {
+    const [taken] = await db.select({ id: collections.id }).from(collections)
+      .where(and(eq(collections.userId, userId), eq(collections.name, name)));
+    if (taken) throw new CollectionNameTakenError(name);
+  }
+}
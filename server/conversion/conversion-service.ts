@@ -0,0 +1,100 @@
+// Model format conversion for downloads: any readable model to any supported format, with
+// each result kept in storage so a format is only converted once per file
+
+import crypto from "crypto";
+import path from "path";
+import { FileService } from "../file-service";
+import { getStorageBackend } from "../storage-backend/backend-factory";
+import { contentTypeFor } from "../storage-backend/content-types";
+import { GltfError, isGlb, type GltfDocument } from "../gltf/document";
+import { loadGltf } from "../gltf/loader";
+import { documentFromMeshes } from "../gltf/builder";
+import { scenePrimitives } from "../gltf/scene";
+import { writeGlb, writeGltf } from "../gltf/writer";
+import { readObj, writeObj } from "./obj";
+import { readPly, writePly } from "./ply";
+import { writeUsdz } from "./usdz";
+import { ConversionError, type ModelFormat, type SourceFormat } from "./types";
+
+const SOURCE_EXTENSIONS: Record<string, SourceFormat> = {
+  ".glb": "glb",
+  ".gltf": "gltf",
+  ".obj": "obj",
+  ".ply": "ply",
+};
+
+// What the file is: from its signature once it has been read, otherwise from the URL's extension
+function sourceFormat(url: string, data?: Buffer): SourceFormat | null {
+  if (data) {
+    if (isGlb(data)) return "glb";
+    const head = data.subarray(0, 256).toString("latin1").replace(/^\uFEFF/, "").trimStart();
+    if (head.startsWith("ply")) return "ply";
+    if (head.startsWith("{")) return "gltf";
+    if (/^(v|vn|vt|f|o|g|mtllib|usemtl)[ \t]/m.test(head)) return "obj";
+  }
+
+  const extension = url.startsWith("data:") ? "" : path.extname(url.split(/[?#]/)[0]).toLowerCase();
+  return SOURCE_EXTENSIONS[extension] ?? null;
+}
+
+async function readDocument(url: string, data: Buffer, format: SourceFormat): Promise<GltfDocument> {
+  switch (format) {
+    case "glb":
+    case "gltf":
+      return loadGltf(url, data);
+    case "obj":
+      return documentFromMeshes([readObj(data)]);
+    case "ply":
+      return documentFromMeshes([readPly(data)]);
+  }
+}
+
+async function write(doc: GltfDocument, format: ModelFormat): Promise<Buffer> {
+  if (format === "glb") return writeGlb(doc);
+  if (format === "gltf") return writeGltf(doc);
+  if (format === "usdz") return writeUsdz(doc);
+
+  const primitives = scenePrimitives(doc);
+  if (primitives.length === 0) throw new ConversionError(`The model has no triangles to export as ${format.toUpperCase()}`);
+  return format === "obj" ? writeObj(primitives) : writePly(primitives);
+}
+
+export class ConversionService {
+  // Conversions in progress, so concurrent downloads of the same file share one
+  private static pending = new Map<string, Promise<string>>();
+
+  // Storage key of the file at `url` in `format`, or null when the file is already in that
+  // format. A .gltf is always repacked, since its buffers and textures may be separate files
+  static async convert(url: string, format: ModelFormat): Promise<string | null> {
+    if (format !== "gltf" && sourceFormat(url) === format) return null;
+
+    const key = `convert_${crypto.createHash("sha256").update(url).digest("hex").slice(0, 32)}.${format}`;
+    const running = this.pending.get(key);
+    if (running) return running;
+
+    const conversion = this.run(url, format, key).finally(() => this.pending.delete(key));
+    this.pending.set(key, conversion);
+    return conversion;
+  }
+
+  private static async run(url: string, format: ModelFormat, key: string): Promise<string> {
+    const storage = getStorageBackend();
+    if (await storage.stat(key)) return key;
+
+    const data = await FileService.readFile(url);
+    const source = sourceFormat(url, data);
+    if (!source) throw new ConversionError("Only glTF, GLB, OBJ and PLY models can be converted");
+
+    let output: Buffer;
+    try {
+      output = await write(await readDocument(url, data, source), format);
+    } catch (error) {
+      if (error instanceof GltfError) throw new ConversionError(error.message);
+      throw error;
+    }
+
+    await storage.put(key, output, contentTypeFor(key));
+    console.log(`[CONVERT] Converted ${source} to ${format} (${Math.round(output.length / 1024)} KB): ${key}`);
+    return key;
+  }
+}
@@ -0,0 +1,131 @@
+// Wavefront OBJ: geometry in and out. Materials live in a separate .mtl file, so they aren't
+// carried either way
+
+import type { MeshData } from "../gltf/builder";
+import type { ScenePrimitive } from "../gltf/scene";
+import { ConversionError } from "./types";
+
+// OBJ indices count from 1, or back from the end of the list when negative
+function resolveIndex(value: string, length: number): number {
+  const index = parseInt(value, 10);
+  const resolved = index < 0 ? length + index : index - 1;
+  if (!Number.isFinite(index) || resolved < 0 || resolved >= length) {
+    throw new ConversionError(`OBJ face points at a missing element (${value})`);
+  }
+  return resolved;
+}
+
+// Each distinct position/uv/normal combination becomes one glTF vertex
+export function readObj(data: Buffer): MeshData {
+  const sourcePositions: number[][] = [];
+  const sourceColors: number[][] = [];
+  const sourceUvs: number[][] = [];
+  const sourceNormals: number[][] = [];
+
+  const positions: number[] = [];
+  const colors: number[] = [];
+  const uvs: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  const vertexIds = new Map<string, number>();
+  let hasUvs = false;
+  let hasNormals = false;
+
+  const vertex = (corner: string): number => {
+    const existing = vertexIds.get(corner);
+    if (existing !== undefined) return existing;
+
+    const [p, t, n] = corner.split("/");
+    const position = resolveIndex(p, sourcePositions.length);
+    positions.push(...sourcePositions[position]);
+    colors.push(...(sourceColors[position] || [1, 1, 1]), 1);
+    if (t) {
+      const [u, v] = sourceUvs[resolveIndex(t, sourceUvs.length)];
+      uvs.push(u, 1 - v); // OBJ's v runs upwards, glTF's down
+      hasUvs = true;
+    } else {
+      uvs.push(0, 0);
+    }
+    if (n) {
+      normals.push(...sourceNormals[resolveIndex(n, sourceNormals.length)]);
+      hasNormals = true;
+    } else {
+      normals.push(0, 0, 0);
+    }
+
+    const id = positions.length / 3 - 1;
+    vertexIds.set(corner, id);
+    return id;
+  };
+
+  for (const line of data.toString("utf8").split(/\r?\n/)) {
+    const words = line.trim().split(/\s+/);
+    const numbers = () => words.slice(1).map(Number);
+    switch (words[0]) {
+      case "v": {
+        const values = numbers();
+        sourcePositions.push(values.slice(0, 3));
+        // Some exporters append a vertex colour after the position
+        if (values.length >= 6) sourceColors[sourcePositions.length - 1] = values.slice(3, 6);
+        break;
+      }
+      case "vt": sourceUvs.push([numbers()[0] || 0, numbers()[1] || 0]); break;
+      case "vn": sourceNormals.push(numbers().slice(0, 3)); break;
+      case "f": {
+        const corners = words.slice(1).map(vertex);
+        for (let i = 2; i < corners.length; i++) indices.push(corners[0], corners[i - 1], corners[i]);
+        break;
+      }
+    }
+  }
+
+  if (indices.length === 0) throw new ConversionError("OBJ file has no faces");
+  return {
+    positions: Float32Array.from(positions),
+    normals: hasNormals ? Float32Array.from(normals) : null,
+    uvs: hasUvs ? Float32Array.from(uvs) : null,
+    colors: sourceColors.length > 0 ? Float32Array.from(colors) : null,
+    indices: Uint32Array.from(indices),
+  };
+}
+
+// Seven significant digits is all a 32-bit float holds
+const format = (value: number) => Number(value.toPrecision(7)).toString();
+
+// One group per mesh primitive, in world space
+export function writeObj(primitives: ScenePrimitive[]): Buffer {
+  const lines = ["# Exported by AI Studio"];
+  let base = 1;
+  let uvBase = 1;
+  let normalBase = 1;
+
+  primitives.forEach(({ meshIndex, primitiveIndex, positions, normals, uvs, indices }) => {
+    lines.push(`g mesh${meshIndex}_${primitiveIndex}`);
+    for (let i = 0; i < positions.length; i += 3) {
+      lines.push(`v ${format(positions[i])} ${format(positions[i + 1])} ${format(positions[i + 2])}`);
+    }
+    if (uvs) {
+      for (let i = 0; i < uvs.length; i += 2) lines.push(`vt ${format(uvs[i])} ${format(1 - uvs[i + 1])}`);
+    }
+    if (normals) {
+      for (let i = 0; i < normals.length; i += 3) {
+        lines.push(`vn ${format(normals[i])} ${format(normals[i + 1])} ${format(normals[i + 2])}`);
+      }
+    }
+
+    // Positions, uvs and normals line up one to one within a primitive
+    const corner = (index: number) => {
+      const uv = uvs ? uvBase + index : "";
+      if (normals) return `${base + index}/${uv}/${normalBase + index}`;
+      return uvs ? `${base + index}/${uv}` : `${base + index}`;
+    };
+    for (let t = 0; t < indices.length; t += 3) {
+      lines.push(`f ${corner(indices[t])} ${corner(indices[t + 1])} ${corner(indices[t + 2])}`);
+    }
+    base += positions.length / 3;
+    if (uvs) uvBase += uvs.length / 2;
+    if (normals) normalBase += normals.length / 3;
+  });
+
+  return Buffer.from(lines.join("\n") + "\n");
+}
@@ -0,0 +1,225 @@
+// Stanford PLY: ASCII and binary meshes or point clouds in, binary little-endian meshes out
+
+import type { MeshData } from "../gltf/builder";
+import type { ScenePrimitive } from "../gltf/scene";
+import { ConversionError } from "./types";
+
+interface PlyProperty {
+  name: string;
+  type: string;
+  countType?: string; // Set for list properties
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+const TYPE_BYTES: Record<string, number> = {
+  char: 1, int8: 1, uchar: 1, uint8: 1,
+  short: 2, int16: 2, ushort: 2, uint16: 2,
+  int: 4, int32: 4, uint: 4, uint32: 4,
+  float: 4, float32: 4, double: 8, float64: 8,
+};
+
+// Zeroth-order spherical harmonic, which turns a Gaussian splat's f_dc values into a colour
+const SH_C0 = 0.28209479177387814;
+
+const UV_NAMES = [["s", "t"], ["u", "v"], ["texture_u", "texture_v"], ["texture_s", "texture_t"]];
+
+function parseHeader(data: Buffer): { format: string; elements: PlyElement[]; bodyOffset: number } {
+  const end = data.indexOf("end_header");
+  if (data.subarray(0, 3).toString("latin1") !== "ply" || end < 0) throw new ConversionError("Not a PLY file");
+
+  let format = "";
+  const elements: PlyElement[] = [];
+  for (const line of data.subarray(0, end).toString("latin1").split(/\r?\n/)) {
+    const words = line.trim().split(/\s+/);
+    if (words[0] === "format") {
+      format = words[1];
+    } else if (words[0] === "element") {
+      elements.push({ name: words[1], count: parseInt(words[2], 10), properties: [] });
+    } else if (words[0] === "property" && elements.length > 0) {
+      const property = words[1] === "list"
+        ? { name: words[4], type: words[3], countType: words[2] }
+        : { name: words[2], type: words[1] };
+      if (!TYPE_BYTES[property.type] || (property.countType && !TYPE_BYTES[property.countType])) {
+        throw new ConversionError(`Unknown PLY property type in "${line.trim()}"`);
+      }
+      elements[elements.length - 1].properties.push(property);
+    }
+  }
+  if (!["ascii", "binary_little_endian", "binary_big_endian"].includes(format)) {
+    throw new ConversionError(`Unsupported PLY format ${format || "(none)"}`);
+  }
+
+  const newline = data.indexOf("\n", end);
+  return { format, elements, bodyOffset: newline < 0 ? data.length : newline + 1 };
+}
+
+// Reads one value of a PLY type at a time, from text or binary
+function valueReader(data: Buffer, format: string, offset: number): (type: string) => number {
+  if (format === "ascii") {
+    const tokens = data.subarray(offset).toString("latin1").split(/\s+/).filter(Boolean);
+    let next = 0;
+    return () => {
+      if (next >= tokens.length) throw new ConversionError("PLY file ends early");
+      return parseFloat(tokens[next++]);
+    };
+  }
+
+  const little = format === "binary_little_endian";
+  return (type) => {
+    const bytes = TYPE_BYTES[type];
+    if (offset + bytes > data.length) throw new ConversionError("PLY file ends early");
+    let value: number;
+    switch (type) {
+      case "char": case "int8": value = data.readInt8(offset); break;
+      case "uchar": case "uint8": value = data.readUInt8(offset); break;
+      case "short": case "int16": value = little ? data.readInt16LE(offset) : data.readInt16BE(offset); break;
+      case "ushort": case "uint16": value = little ? data.readUInt16LE(offset) : data.readUInt16BE(offset); break;
+      case "int": case "int32": value = little ? data.readInt32LE(offset) : data.readInt32BE(offset); break;
+      case "uint": case "uint32": value = little ? data.readUInt32LE(offset) : data.readUInt32BE(offset); break;
+      case "float": case "float32": value = little ? data.readFloatLE(offset) : data.readFloatBE(offset); break;
+      default: value = little ? data.readDoubleLE(offset) : data.readDoubleBE(offset);
+    }
+    offset += bytes;
+    return value;
+  };
+}
+
+// Integer colour channels are 0-255; float ones are already 0-1
+function colorScale(type: string): number {
+  return ["float", "float32", "double", "float64"].includes(type) ? 1 : 255;
+}
+
+export function readPly(data: Buffer): MeshData {
+  const { format, elements, bodyOffset } = parseHeader(data);
+  const read = valueReader(data, format, bodyOffset);
+
+  const vertexElement = elements.find(element => element.name === "vertex");
+  if (!vertexElement || vertexElement.count === 0) throw new ConversionError("PLY file has no vertices");
+  const names = vertexElement.properties.map(property => property.name);
+  const column = (name: string) => names.indexOf(name);
+
+  const [x, y, z] = ["x", "y", "z"].map(column);
+  if (x < 0 || y < 0 || z < 0) throw new ConversionError("PLY vertices have no positions");
+  const normal = ["nx", "ny", "nz"].map(column);
+  const uv = UV_NAMES.map(pair => pair.map(column)).find(pair => pair[0] >= 0 && pair[1] >= 0);
+  let color = ["red", "green", "blue", "alpha"].map(column);
+  if (color[0] < 0) color = ["diffuse_red", "diffuse_green", "diffuse_blue", "alpha"].map(column);
+  const splat = ["f_dc_0", "f_dc_1", "f_dc_2"].map(column);
+
+  const count = vertexElement.count;
+  const positions = new Float32Array(count * 3);
+  const normals = normal.every(index => index >= 0) ? new Float32Array(count * 3) : null;
+  const uvs = uv ? new Float32Array(count * 2) : null;
+  const hasColor = color.slice(0, 3).every(index => index >= 0) || splat.every(index => index >= 0);
+  const colors = hasColor ? new Float32Array(count * 4) : null;
+  const triangles: number[] = [];
+
+  for (const element of elements) {
+    for (let item = 0; item < element.count; item++) {
+      const row: number[] = [];
+      let list: number[] | null = null;
+      for (const property of element.properties) {
+        if (property.countType) {
+          const length = read(property.countType);
+          const values = Array.from({ length }, () => read(property.type));
+          if (property.name === "vertex_indices" || property.name === "vertex_index") list = values;
+          row.push(NaN);
+        } else {
+          row.push(read(property.type));
+        }
+      }
+
+      if (element === vertexElement) {
+        positions.set([row[x], row[y], row[z]], item * 3);
+        if (normals) normals.set(normal.map(index => row[index]), item * 3);
+        if (uvs) uvs.set([row[uv![0]], 1 - row[uv![1]]], item * 2); // PLY's v runs upwards, glTF's down
+        if (colors && color[0] >= 0) {
+          colors.set(color.map(index => {
+            if (index < 0) return 1;
+            return row[index] / colorScale(vertexElement.properties[index].type);
+          }), item * 4);
+        } else if (colors) {
+          colors.set([...splat.map(index => Math.min(Math.max(0.5 + SH_C0 * row[index], 0), 1)), 1], item * 4);
+        }
+      } else if (element.name === "face" && list) {
+        // Polygons become triangle fans
+        for (let i = 2; i < list.length; i++) triangles.push(list[0], list[i - 1], list[i]);
+      }
+    }
+  }
+
+  if (triangles.some(index => index < 0 || index >= count)) throw new ConversionError("PLY face points at a missing vertex");
+  return {
+    positions,
+    normals,
+    uvs,
+    colors,
+    indices: triangles.length > 0 ? Uint32Array.from(triangles) : null,
+  };
+}
+
+// All primitives merged into one binary mesh. Attributes only some primitives have are
+// filled with defaults for the rest
+export function writePly(primitives: ScenePrimitive[]): Buffer {
+  const hasNormals = primitives.some(primitive => primitive.normals);
+  const hasUvs = primitives.some(primitive => primitive.uvs);
+  const hasColors = primitives.some(primitive => primitive.colors);
+  const vertexCount = primitives.reduce((sum, primitive) => sum + primitive.positions.length / 3, 0);
+  const faceCount = primitives.reduce((sum, primitive) => sum + primitive.indices.length / 3, 0);
+
+  const header = [
+    "ply",
+    "format binary_little_endian 1.0",
+    "comment Exported by AI Studio",
+    `element vertex ${vertexCount}`,
+    "property float x",
+    "property float y",
+    "property float z",
+    ...(hasNormals ? ["property float nx", "property float ny", "property float nz"] : []),
+    ...(hasUvs ? ["property float s", "property float t"] : []),
+    ...(hasColors ? ["property uchar red", "property uchar green", "property uchar blue", "property uchar alpha"] : []),
+    `element face ${faceCount}`,
+    "property list uchar int vertex_indices",
+    "end_header",
+    "",
+  ].join("\n");
+
+  const vertexBytes = 12 + (hasNormals ? 12 : 0) + (hasUvs ? 8 : 0) + (hasColors ? 4 : 0);
+  const body = Buffer.alloc(vertexCount * vertexBytes + faceCount * 13);
+  let offset = 0;
+
+  for (const { positions, normals, uvs, colors } of primitives) {
+    for (let i = 0; i < positions.length / 3; i++) {
+      for (let axis = 0; axis < 3; axis++) offset = body.writeFloatLE(positions[i * 3 + axis], offset);
+      if (hasNormals) {
+        for (let axis = 0; axis < 3; axis++) offset = body.writeFloatLE(normals ? normals[i * 3 + axis] : 0, offset);
+      }
+      if (hasUvs) {
+        offset = body.writeFloatLE(uvs ? uvs[i * 2] : 0, offset);
+        offset = body.writeFloatLE(uvs ? 1 - uvs[i * 2 + 1] : 0, offset);
+      }
+      if (hasColors) {
+        for (let channel = 0; channel < 4; channel++) {
+          const value = colors ? colors[i * 4 + channel] : 1;
+          offset = body.writeUInt8(Math.round(Math.min(Math.max(value, 0), 1) * 255), offset);
+        }
+      }
+    }
+  }
+
+  let base = 0;
+  for (const { positions, indices } of primitives) {
+    for (let t = 0; t < indices.length; t += 3) {
+      offset = body.writeUInt8(3, offset);
+      for (let corner = 0; corner < 3; corner++) offset = body.writeInt32LE(base + indices[t + corner], offset);
+    }
+    base += positions.length / 3;
+  }
+
+  return Buffer.concat([Buffer.from(header, "latin1"), body]);
+}
@@ -0,0 +1,15 @@
+// Model formats the converter reads and writes
+
+export const MODEL_FORMATS = ["glb", "gltf", "obj", "ply", "usdz"] as const;
+export type ModelFormat = typeof MODEL_FORMATS[number];
+
+// Formats that can be read as a conversion source; USDZ is write-only
+export type SourceFormat = Exclude<ModelFormat, "usdz">;
+
+// The file can't be read, or holds nothing the target format can express
+export class ConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversionError";
+  }
+}
@@ -0,0 +1,275 @@
+// USDZ for Apple's Quick Look: the scene as a USDA layer with UsdPreviewSurface materials,
+// zipped uncompressed with its textures as the USDZ spec requires
+
+import sharp from "sharp";
+import { readImage, type GltfDocument } from "../gltf/document";
+import { scenePrimitives, type ScenePrimitive } from "../gltf/scene";
+import { ConversionError } from "./types";
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// Texture slots carried over from glTF, and the UsdUVTexture output each one feeds
+const TEXTURE_INPUTS = [
+  { slot: "baseColorTexture", input: "diffuseColor", output: "rgb", type: "color3f" },
+  { slot: "metallicRoughnessTexture", input: "roughness", output: "g", type: "float" },
+  { slot: "metallicRoughnessTexture", input: "metallic", output: "b", type: "float" },
+  { slot: "normalTexture", input: "normal", output: "rgb", type: "normal3f" },
+  { slot: "emissiveTexture", input: "emissiveColor", output: "rgb", type: "color3f" },
+] as const;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Stored (uncompressed) zip with every file's data starting on a 64-byte boundary, padded
+// through the local header's extra field
+function zipStored(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data } of entries) {
+    const nameBytes = Buffer.from(name);
+    let padding = (64 - ((offset + 30 + nameBytes.length) % 64)) % 64;
+    if (padding > 0 && padding < 4) padding += 64; // An extra field needs room for its own header
+    const extra = Buffer.alloc(padding);
+    if (padding > 0) {
+      extra.writeUInt16LE(0x1986, 0);
+      extra.writeUInt16LE(padding - 4, 2);
+    }
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(33, 12); // 1980-01-01
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    local.writeUInt16LE(extra.length, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(33, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(data.length, 24);
+    header.writeUInt16LE(nameBytes.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, nameBytes);
+
+    parts.push(local, nameBytes, extra, data);
+    offset += 30 + nameBytes.length + extra.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, directory, end]);
+}
+
+const number = (value: number) => Number(value.toPrecision(7)).toString();
+
+function tuples(array: Float32Array | Uint32Array, size: number, map?: (value: number, component: number) => number): string {
+  const items: string[] = [];
+  for (let i = 0; i < array.length; i += size) {
+    const values: string[] = [];
+    for (let component = 0; component < size; component++) {
+      values.push(number(map ? map(array[i + component], component) : array[i + component]));
+    }
+    items.push(`(${values.join(", ")})`);
+  }
+  return `[${items.join(", ")}]`;
+}
+
+// Textures must be PNG or JPEG inside a USDZ
+async function textureFile(doc: GltfDocument, textureIndex: number, files: Map<number, string | null>, entries: ZipEntry[]): Promise<string | null> {
+  const source = doc.json.textures?.[textureIndex]?.source;
+  if (source === undefined) return null;
+  if (files.has(source)) return files.get(source)!;
+
+  let name: string | null = null;
+  try {
+    let data = await readImage(doc, source);
+    const { format } = await sharp(data).metadata();
+    if (format !== "png" && format !== "jpeg") data = await sharp(data).png().toBuffer();
+    name = `textures/texture_${source}.${format === "jpeg" ? "jpg" : "png"}`;
+    entries.push({ name, data });
+  } catch (error) {
+    console.warn(`[CONVERT] Leaving out texture ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+  files.set(source, name);
+  return name;
+}
+
+async function materialPrim(doc: GltfDocument, index: number, files: Map<number, string | null>, entries: ZipEntry[]): Promise<string> {
+  const material = doc.json.materials[index];
+  const pbr = material.pbrMetallicRoughness || {};
+  const path = `/Root/Materials/Material_${index}`;
+  const [r, g, b, a] = pbr.baseColorFactor || [1, 1, 1, 1];
+  const [er, eg, eb] = material.emissiveFactor || [0, 0, 0];
+
+  const inputs = new Map<string, string>([
+    ["diffuseColor", `color3f inputs:diffuseColor = (${number(r)}, ${number(g)}, ${number(b)})`],
+    ["metallic", `float inputs:metallic = ${number(pbr.metallicFactor ?? 1)}`],
+    ["roughness", `float inputs:roughness = ${number(pbr.roughnessFactor ?? 1)}`],
+    ["emissiveColor", `color3f inputs:emissiveColor = (${number(er)}, ${number(eg)}, ${number(eb)})`],
+  ]);
+  if (material.alphaMode === "BLEND") inputs.set("opacity", `float inputs:opacity = ${number(a)}`);
+  if (material.alphaMode === "MASK") inputs.set("opacityThreshold", `float inputs:opacityThreshold = ${number(material.alphaCutoff ?? 0.5)}`);
+
+  const shaders = new Map<string, string>();
+  for (const { slot, input, output, type } of TEXTURE_INPUTS) {
+    const texture = slot === "normalTexture" || slot === "emissiveTexture" ? material[slot] : pbr[slot];
+    const file = texture ? await textureFile(doc, texture.index, files, entries) : null;
+    if (!file) continue;
+
+    const shader = `Texture_${slot}`;
+    inputs.set(input, `${type} inputs:${input}.connect = <${path}/${shader}.outputs:${output}>`);
+    if (shaders.has(shader)) continue;
+
+    // glTF multiplies each texture by its factor; normal maps also need remapping from 0..1 to -1..1
+    const scale: Record<string, string> = {
+      baseColorTexture: `(${number(r)}, ${number(g)}, ${number(b)}, ${number(a)})`,
+      metallicRoughnessTexture: `(1, ${number(pbr.roughnessFactor ?? 1)}, ${number(pbr.metallicFactor ?? 1)}, 1)`,
+      normalTexture: "(2, 2, 2, 1)",
+      emissiveTexture: `(${number(er)}, ${number(eg)}, ${number(eb)}, 1)`,
+    };
+    shaders.set(shader, [
+      `      def Shader "${shader}"`,
+      `      {`,
+      `        uniform token info:id = "UsdUVTexture"`,
+      `        asset inputs:file = @${file}@`,
+      `        float2 inputs:st.connect = <${path}/TexCoord.outputs:result>`,
+      `        token inputs:wrapS = "repeat"`,
+      `        token inputs:wrapT = "repeat"`,
+      ...(slot === "baseColorTexture" || slot === "emissiveTexture" ? [] : [`        token inputs:sourceColorSpace = "raw"`]),
+      `        float4 inputs:scale = ${scale[slot]}`,
+      ...(slot === "normalTexture" ? [`        float4 inputs:bias = (-1, -1, -1, 0)`] : []),
+      `        float3 outputs:rgb`,
+      `        float outputs:r`,
+      `        float outputs:g`,
+      `        float outputs:b`,
+      `        float outputs:a`,
+      `      }`,
+    ].join("\n"));
+  }
+  if (shaders.has("Texture_baseColorTexture") && material.alphaMode === "BLEND") {
+    inputs.set("opacity", `float inputs:opacity.connect = <${path}/Texture_baseColorTexture.outputs:a>`);
+  }
+
+  return [
+    `    def Material "Material_${index}"`,
+    `    {`,
+    `      token outputs:surface.connect = <${path}/Surface.outputs:surface>`,
+    `      def Shader "Surface"`,
+    `      {`,
+    `        uniform token info:id = "UsdPreviewSurface"`,
+    ...Array.from(inputs.values()).map(line => `        ${line}`),
+    `        token outputs:surface`,
+    `      }`,
+    ...(shaders.size > 0 ? [
+      `      def Shader "TexCoord"`,
+      `      {`,
+      `        uniform token info:id = "UsdPrimvarReader_float2"`,
+      `        token inputs:varname = "st"`,
+      `        float2 outputs:result`,
+      `      }`,
+      ...Array.from(shaders.values()),
+    ] : []),
+    `    }`,
+  ].join("\n");
+}
+
+function meshPrim(primitive: ScenePrimitive, materialIndex: number | undefined, doubleSided: boolean): string {
+  const { meshIndex, primitiveIndex, positions, normals, uvs, colors, indices } = primitive;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+
+  return [
+    ...(materialIndex !== undefined
+      ? [`  def Mesh "Mesh_${meshIndex}_${primitiveIndex}" (`, `    prepend apiSchemas = ["MaterialBindingAPI"]`, `  )`]
+      : [`  def Mesh "Mesh_${meshIndex}_${primitiveIndex}"`]),
+    `  {`,
+    `    uniform token subdivisionScheme = "none"`,
+    `    uniform bool doubleSided = ${doubleSided ? 1 : 0}`,
+    `    float3[] extent = [(${min.map(number).join(", ")}), (${max.map(number).join(", ")})]`,
+    `    int[] faceVertexCounts = [${new Array(indices.length / 3).fill(3).join(", ")}]`,
+    `    int[] faceVertexIndices = [${Array.from(indices).join(", ")}]`,
+    `    point3f[] points = ${tuples(positions, 3)}`,
+    ...(normals ? [`    normal3f[] normals = ${tuples(normals, 3)} (`, `      interpolation = "vertex"`, `    )`] : []),
+    // USD's v runs upwards, glTF's down
+    ...(uvs ? [`    texCoord2f[] primvars:st = ${tuples(uvs, 2, (value, component) => component === 1 ? 1 - value : value)} (`, `      interpolation = "vertex"`, `    )`] : []),
+    ...(colors ? [`    color3f[] primvars:displayColor = ${tuples(colors.filter((_, i) => i % 4 !== 3), 3)} (`, `      interpolation = "vertex"`, `    )`] : []),
+    ...(materialIndex !== undefined ? [`    rel material:binding = </Root/Materials/Material_${materialIndex}>`] : []),
+    `  }`,
+  ].join("\n");
+}
+
+export async function writeUsdz(doc: GltfDocument): Promise<Buffer> {
+  const primitives = scenePrimitives(doc);
+  if (primitives.length === 0) throw new ConversionError("The model has no triangles to export as USDZ");
+
+  const entries: ZipEntry[] = [];
+  const files = new Map<number, string | null>();
+  const materials: string[] = [];
+  const allMaterials: Record<string, any>[] = doc.json.materials || [];
+
+  const meshes: string[] = [];
+  for (const primitive of primitives) {
+    const index = primitive.material ? allMaterials.indexOf(primitive.material) : -1;
+    if (index >= 0 && !materials[index]) materials[index] = await materialPrim(doc, index, files, entries);
+    meshes.push(meshPrim(primitive, index >= 0 ? index : undefined, !!primitive.material?.doubleSided));
+  }
+
+  const layer = [
+    `#usda 1.0`,
+    `(`,
+    `  defaultPrim = "Root"`,
+    `  metersPerUnit = 1`,
+    `  upAxis = "Y"`,
+    `  customLayerData = {`,
+    `    string creator = "AI Studio"`,
+    `  }`,
+    `)`,
+    ``,
+    `def Xform "Root" (`,
+    `  kind = "component"`,
+    `)`,
+    `{`,
+    `  def Scope "Materials"`,
+    `  {`,
+    materials.filter(Boolean).join("\n\n"),
+    `  }`,
+    ``,
+    meshes.join("\n\n"),
+    `}`,
+    ``,
+  ].join("\n");
+
+  // The first file in the package is the root layer
+  return zipStored([{ name: "model.usda", data: Buffer.from(layer) }, ...entries]);
+}
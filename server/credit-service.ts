@@ -0,0 +1,108 @@
+// Credit ledger: every balance change is an append-only credit_transactions row
+
+import { db, eq, desc, sql, and, gte, type Database, type Transaction } from "./db";
+import { creditTransactions, users, type CreditTransaction, type CreditTransactionKind, type Job } from "@shared/schema";
+
+export interface CreditEntry {
+  userId: string;
+  kind: CreditTransactionKind;
+  amount: number; // Signed: negative for charges
+  jobId?: string;
+  idempotencyKey?: string;
+  note?: string;
+}
+
+export class InsufficientCreditsError extends Error {
+  constructor(message = "Insufficient credits") {
+    super(message);
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+export class CreditService {
+  // Record a ledger entry and move the cached balance with it.
+  // Returns null when the idempotency key was already applied.
+  static async apply(executor: Database | Transaction, entry: CreditEntry): Promise<CreditTransaction | null> {
+    const run = async (tx: Transaction) => {
+      const [row] = await tx.insert(creditTransactions)
+        .values({
+          userId: entry.userId,
+          kind: entry.kind,
+          amount: entry.amount,
+          jobId: entry.jobId ?? null,
+          idempotencyKey: entry.idempotencyKey ?? null,
+          note: entry.note ?? null,
+        })
+        .onConflictDoNothing({ target: creditTransactions.idempotencyKey })
+        .returning();
+
+      if (!row) return null;
+
+      // Debits only go through while the balance covers them
+      const guard = entry.amount < 0
+        ? and(eq(users.id, entry.userId), gte(users.credits, -entry.amount))
+        : eq(users.id, entry.userId);
+
+      const [user] = await tx.update(users)
+        .set({ credits: sql`${users.credits} + ${entry.amount}` })
+        .where(guard)
+        .returning({ id: users.id });
+
+      if (!user) {
+        throw new InsufficientCreditsError();
+      }
+
+      return row;
+    };
+
+    // Nest inside the caller's transaction when given one
+    return executor.transaction(run);
+  }
+
+  // Charge a job's cost; the job and the charge commit together
+  static async chargeJob(tx: Transaction, job: Job): Promise<void> {
+    await this.apply(tx, {
+      userId: job.userId,
+      kind: "charge",
+      amount: -job.creditsUsed,
+      jobId: job.id,
+      idempotencyKey: `job:${job.id}:charge`,
+      note: `${job.tool} generation`,
+    });
+  }
+
+  // Refund a failed job at most once, however many paths report the failure
+  static async refundJob(tx: Transaction, job: Job, reason: string): Promise<boolean> {
+    const refund = await this.apply(tx, {
+      userId: job.userId,
+      kind: "refund",
+      amount: job.creditsUsed,
+      jobId: job.id,
+      idempotencyKey: `job:${job.id}:refund`,
+      note: reason,
+    });
+
+    if (!refund) {
+      console.log(`[CREDITS] Job ${job.id} was already refunded`);
+    }
+    return !!refund;
+  }
+
+  // Balance derived from the ledger
+  static async getBalance(userId: string): Promise<number> {
+    const [result] = await db.select({ balance: sql<number>`coalesce(sum(${creditTransactions.amount}), 0)::int` })
+      .from(creditTransactions)
+      .where(eq(creditTransactions.userId, userId));
+    return result?.balance ?? 0;
+  }
+
+  // Most recent ledger entries first
+  static async getHistory(userId: string, limit: number = 20, offset: number = 0): Promise<CreditTransaction[]> {
+    return db.select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.userId, userId))
+      .orderBy(desc(creditTransactions.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+}
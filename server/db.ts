@@ -1,495 +1,53 @@
-// Mock in-memory database for development without DATABASE_URL
-import { randomUUID } from 'crypto';
-import type { Job, User } from "@shared/schema";
+// Database connection: Postgres when DATABASE_URL is set, embedded PGlite otherwise
+import fs from 'fs';
+import path from 'path';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { migrate as migrateNeon } from 'drizzle-orm/neon-serverless/migrator';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import { migrate as migratePglite } from 'drizzle-orm/pglite/migrator';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from 'ws';
+import * as schema from '@shared/schema';
 
-export const isMockDb = true;
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
 
-// In-memory storage
-const users = new Map<string, User>();
-const jobs = new Map<string, Job>();
-const sessions = new Map<string, any>();
+const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
 
-// Demo user constants
-const DEMO_USER_ID = "demo-user";
+export const dbDriver: 'postgres' | 'pglite' = process.env.DATABASE_URL ? 'postgres' : 'pglite';
 
-// Initialize demo user with 20 credits
-users.set(DEMO_USER_ID, {
-  id: DEMO_USER_ID,
-  username: "demo",
-  password: "demo",
-  credits: 20
-});
+neonConfig.webSocketConstructor = ws;
 
-// Mock database interface that mimics Drizzle ORM
-class MockDatabase {
-  // Mock select operation
-  select(fields?: any) {
-    return new MockSelectQuery(fields);
-  }
-
-  // Mock insert operation
-  insert(table: any) {
-    return new MockInsertQuery(table);
-  }
-
-  // Mock update operation
-  update(table: any) {
-    return new MockUpdateQuery(table);
-  }
-
-  // Mock transaction operation
-  async transaction(callback: (tx: MockDatabase) => Promise<any>) {
-    // For mock, just execute the callback with this instance
-    return await callback(this);
-  }
-}
-
-class MockSelectQuery {
-  private fields: any;
-  private tableName: string = '';
-  private whereCondition: any = null;
-  private orderByCondition: any = null;
-  private limitValue: number = Infinity;
-  private offsetValue: number = 0;
-
-  constructor(fields: any) {
-    this.fields = fields;
-  }
-
-  from(table: any) {
-    // Use the shared table resolution helper for consistency
-    this.tableName = resolveTableName(table);
-    return this;
-  }
-
-  where(condition: any) {
-    this.whereCondition = condition;
-    return this;
-  }
-
-  orderBy(condition: any) {
-    this.orderByCondition = condition;
-    return this;
-  }
-
-  limit(value: number) {
-    this.limitValue = value;
-    return this;
-  }
-
-  offset(value: number) {
-    this.offsetValue = value;
-    return this;
-  }
-
-  async execute(): Promise<any[]> {
-    let data: any[] = [];
-
-    // Get data from appropriate store
-    if (this.tableName === 'users') {
-      data = Array.from(users.values());
-    } else if (this.tableName === 'jobs') {
-      data = Array.from(jobs.values());
-    } else if (this.tableName === 'sessions') {
-      data = Array.from(sessions.values());
-    }
+// Shared pg-compatible pool, also used for the session store (null with PGlite)
+export const pool: Pool | null = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
 
-    // Apply where condition (simplified)
-    if (this.whereCondition) {
-      data = data.filter((item) => {
-        // Simple equality check for mock
-        const condition = this.whereCondition;
-        if (condition.column && condition.value !== undefined) {
-          return item[condition.column] === condition.value;
-        }
-        return true;
-      });
-    }
-
-    // Apply ordering (simplified - just by createdAt desc for jobs)
-    if (this.orderByCondition && this.tableName === 'jobs') {
-      data.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    }
-
-    // Apply pagination
-    data = data.slice(this.offsetValue, this.offsetValue + this.limitValue);
-
-    // Apply field selection
-    if (this.fields && typeof this.fields === 'object') {
-      return data.map(item => {
-        const result: any = {};
-        for (const key in this.fields) {
-          result[key] = item[key];
-        }
-        return result;
-      });
-    }
-
-    return data;
-  }
-
-  // Make it thenable for await
-  then(onFulfilled: any, onRejected?: any) {
-    return this.execute().then(onFulfilled, onRejected);
-  }
+// In-process Postgres for local development, persisted on disk between restarts
+function createPgliteDb() {
+  const dataDir = process.env.PGLITE_DATA_DIR || path.join(process.cwd(), '.data', 'pglite');
+  fs.mkdirSync(dataDir, { recursive: true });
+  return drizzlePglite(new PGlite(dataDir), { schema });
 }
 
-class MockInsertQuery {
-  private table: any;
-  private insertValues: any = {};
-
-  constructor(table: any) {
-    this.table = table;
-  }
-
-  values(data: any) {
-    this.insertValues = data;
-    return this;
-  }
+const pgliteDb = pool ? null : createPgliteDb();
 
-  onConflictDoNothing() {
-    return this;
-  }
-
-  returning() {
-    return this;
-  }
-
-  async execute(): Promise<any[]> {
-    const id = this.insertValues.id || randomUUID();
-    const now = new Date();
-    
-    const record = {
-      ...this.insertValues,
-      id,
-      createdAt: now,
-      updatedAt: now
-    };
-
-    // Determine table and insert
-    const tableName = this.table?._?.name || this.getTableName(this.table);
-    if (tableName === 'users') {
-      users.set(id, record);
-    } else if (tableName === 'jobs') {
-      jobs.set(id, record);
-      
-      // Simulate job progression - DISABLED to prevent overwriting provider results
-      const enableSimulatedCompletion = false;
-      if (enableSimulatedCompletion) {
-        setTimeout(() => {
-          const job = jobs.get(id);
-          if (job && job.status === 'queued') {
-            // Generate appropriate output URLs based on tool type
-            let assetUrls: string[] = [];
-            
-            switch (job.tool) {
-              case 'text2mesh':
-                // GLB 3D model URL
-                assetUrls = ['https://modelviewer.dev/shared-assets/models/Astronaut.glb'];
-                break;
-              case 'text2image':
-              // Generated image URL
-              assetUrls = ['https://picsum.photos/512/512?random=' + Math.random()];
-              break;
-            case 'texturing':
-              // PBR texture maps
-              assetUrls = [
-                'https://picsum.photos/512/512?random=' + Math.random(), // Diffuse
-                'https://picsum.photos/512/512?random=' + Math.random()  // Normal
-              ];
-              break;
-            case 'img2video':
-              // MP4 video URL
-              assetUrls = ['https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4'];
-              break;
-            default:
-              assetUrls = ['data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='];
-            }
-            
-            jobs.set(id, {
-              ...job,
-              status: 'completed',
-              assetUrls,
-              updatedAt: new Date()
-            });
-          }
-        }, 1500); // 1.5 seconds
-      }
-      
-    } else if (tableName === 'sessions') {
-      sessions.set(id, record);
-    }
-
-    return [record];
-  }
-
-  // Make it thenable
-  then(onFulfilled: any, onRejected?: any) {
-    return this.execute().then(onFulfilled, onRejected);
-  }
-
-  private getTableName(table: any): string {
-    if (table && typeof table === 'object') {
-      if (table.username || Object.keys(table).includes('username')) return 'users';
-      if (table.tool || Object.keys(table).includes('tool')) return 'jobs';
-      if (table.heavyJobsThisHour || Object.keys(table).includes('heavyJobsThisHour')) return 'sessions';
-    }
-    return '';
-  }
-}
+const neonDb = pool ? drizzleNeon(pool, { schema }) : null;
 
-class MockUpdateQuery {
-  private table: any;
-  private setValues: any = {};
-  private whereCondition: any = null;
+export const db = (neonDb ?? pgliteDb) as unknown as Database;
 
-  constructor(table: any) {
-    this.table = table;
+// Apply pending migrations generated from shared/schema.ts
+export async function initDatabase(): Promise<void> {
+  if (neonDb) {
+    await migrateNeon(neonDb, { migrationsFolder: MIGRATIONS_DIR });
+  } else if (pgliteDb) {
+    await migratePglite(pgliteDb, { migrationsFolder: MIGRATIONS_DIR });
   }
 
-  set(updateValues: any) {
-    this.setValues = updateValues;
-    return this;
-  }
-
-  where(condition: any) {
-    this.whereCondition = condition;
-    return this;
-  }
-
-  async execute(): Promise<any[]> {
-    const tableName = resolveTableName(this.table);
-    let store: Map<string, any>;
-    
-    if (tableName === 'users') {
-      store = users;
-    } else if (tableName === 'jobs') {
-      store = jobs;
-    } else if (tableName === 'sessions') {
-      store = sessions;
-    } else {
-      console.warn(`[UPDATE DEBUG] Unknown table: ${tableName}`, this.table);
-      throw new Error(`MockDatabase: Unknown table for update: ${tableName}`);
-    }
-
-    const updates: any[] = [];
-    
-    console.log(`[UPDATE DEBUG] Table: ${tableName}, Where:`, this.whereCondition, 'Set:', this.setValues);
-    
-    // Simple update logic
-    if (this.whereCondition && this.whereCondition.column && this.whereCondition.value !== undefined) {
-      console.log(`[UPDATE DEBUG] Looking for ${this.whereCondition.column} = ${this.whereCondition.value}`);
-      for (const record of store.values()) {
-        if (record[this.whereCondition.column] === this.whereCondition.value) {
-          console.log(`[UPDATE DEBUG] Found matching record:`, record.id);
-          const updatedRecord = {
-            ...record,
-            ...this.setValues,
-            updatedAt: new Date()
-          };
-          store.set(record.id, updatedRecord);
-          updates.push(updatedRecord);
-          console.log(`[UPDATE DEBUG] Updated record:`, updatedRecord);
-        }
-      }
-    } else {
-      console.log(`[UPDATE DEBUG] Invalid where condition:`, this.whereCondition);
-    }
-
-    console.log(`[UPDATE DEBUG] Updates applied: ${updates.length}`);
-    return updates;
-  }
-
-  // Make it thenable
-  then(onFulfilled: any, onRejected?: any) {
-    return this.execute().then(onFulfilled, onRejected);
-  }
-
-  private getTableName(table: any): string {
-    if (table && typeof table === 'object') {
-      if (table.username || Object.keys(table).includes('username')) return 'users';
-      if (table.tool || Object.keys(table).includes('tool')) return 'jobs';
-      if (table.heavyJobsThisHour || Object.keys(table).includes('heavyJobsThisHour')) return 'sessions';
-    }
-    return '';
-  }
-}
-
-// Mock table objects that match the schema structure
-const usersTable = {
-  _: { name: 'users' },
-  id: { column: 'id' },
-  credits: { column: 'credits' }
-};
-
-const jobsTable = {
-  _: { name: 'jobs' },
-  id: { column: 'id' },
-  userId: { column: 'userId' },
-  createdAt: { column: 'createdAt' }
-};
-
-const sessionsTable = {
-  _: { name: 'sessions' },
-  id: { column: 'id' },
-  userId: { column: 'userId' },
-  heavyJobsThisHour: { column: 'heavyJobsThisHour' }
-};
-
-// Shared helper to resolve table names consistently
-function resolveTableName(table: any): string {
-  // Try _?.name property first (from schema definitions)
-  if (table?._?.name) return table._.name;
-  
-  // Check known mock tables
-  if (table === usersTable) return 'users';
-  if (table === jobsTable) return 'jobs'; 
-  if (table === sessionsTable) return 'sessions';
-  
-  // Fallback to heuristics for imported schema tables
-  if (table && typeof table === 'object') {
-    if (table.username || Object.keys(table).includes('username')) return 'users';
-    if (table.tool || Object.keys(table).includes('tool')) return 'jobs';
-    if (table.heavyJobsThisHour || Object.keys(table).includes('heavyJobsThisHour')) return 'sessions';
-  }
-  
-  // Last resort: check toString for schema table patterns
-  const tableStr = table?.toString?.() || '';
-  if (tableStr.includes('users')) return 'users';
-  if (tableStr.includes('jobs')) return 'jobs';
-  if (tableStr.includes('sessions')) return 'sessions';
-  
-  return '';
-}
-
-// Mock eq function for where conditions - robust to Drizzle column objects
-function eq(column: any, value: any) {
-  // Extract column name with fallback chain for Drizzle compatibility
-  let col = column?.column ?? column?.name ?? column?._?.name;
-  
-  // Additional fallbacks for Drizzle schema columns
-  if (!col && column) {
-    // Check for table.columnName pattern (e.g., jobs.id)
-    if (typeof column === 'string') {
-      col = column;
-    } else if (column.enumValues) {
-      // Drizzle enum column
-      col = column.enumValues;
-    } else if (column.dataType) {
-      // Try to extract from dataType info
-      col = column.dataType;
-    } else {
-      // Last resort: assume it's the column name itself
-      col = 'id'; // Default for primary keys
-    }
-  }
-  
-  console.log(`[EQ DEBUG] Column input:`, column, 'Extracted col:', col);
-  return { column: col, value };
-}
-
-function and(...conditions: any[]) {
-  // Simplified - just return first condition for mock
-  return conditions[0];
-}
-
-function gt(column: any, value: any) {
-  return { column: column.column, value, operator: 'gt' };
-}
-
-function desc(column: any) {
-  return { column: column.column, order: 'desc' };
-}
-
-function sql(strings: TemplateStringsArray, ...values: any[]) {
-  // Mock implementation for SQL expressions
-  return { sql: strings.join(''), values };
-}
-
-// Create mock database instance
-export const db = new MockDatabase();
-
-// Export the schemas needed by the job service
-export { eq, and, gt, desc, sql };
-
-// Utility functions for API routes
-export async function getCredits(userId: string = DEMO_USER_ID): Promise<number> {
-  const user = users.get(userId);
-  return user?.credits || 0;
-}
-
-export async function setCredits(userId: string = DEMO_USER_ID, credits: number): Promise<void> {
-  const user = users.get(userId);
-  if (user) {
-    users.set(userId, { ...user, credits });
-  }
-}
-
-export async function deductCredits(userId: string = DEMO_USER_ID, amount: number): Promise<boolean> {
-  const user = users.get(userId);
-  if (user && user.credits >= amount) {
-    users.set(userId, { ...user, credits: user.credits - amount });
-    return true;
-  }
-  return false;
-}
-
-export async function addCredits(userId: string = DEMO_USER_ID, amount: number): Promise<void> {
-  const user = users.get(userId);
-  if (user) {
-    users.set(userId, { ...user, credits: user.credits + amount });
-  }
-}
-
-export async function createJob(jobData: Partial<Job>): Promise<Job> {
-  const id = randomUUID();
-  const now = new Date();
-  
-  const job: Job = {
-    id,
-    tool: jobData.tool || 'text2image',
-    prompt: jobData.prompt || '',
-    inputs: jobData.inputs || null,
-    status: 'queued',
-    assetUrls: null,
-    provider: jobData.provider || 'SIM',
-    providerJobId: null,
-    meta: null,
-    userId: jobData.userId || DEMO_USER_ID,
-    sessionId: jobData.sessionId || 'demo-session',
-    creditsUsed: jobData.creditsUsed || 1,
-    createdAt: now,
-    updatedAt: now,
-    ...jobData
-  };
-  
-  jobs.set(id, job);
-  
-  // Simulate job completion
-  setTimeout(() => {
-    const currentJob = jobs.get(id);
-    if (currentJob && currentJob.status === 'queued') {
-      jobs.set(id, {
-        ...currentJob,
-        status: 'completed',
-        assetUrls: ['data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='],
-        updatedAt: new Date()
-      });
-    }
-  }, 1500);
-  
-  return job;
-}
-
-export async function getJob(jobId: string): Promise<Job | null> {
-  return jobs.get(jobId) || null;
+  console.log(`[DB] Using ${dbDriver === 'postgres' ? 'PostgreSQL (DATABASE_URL)' : 'embedded PGlite'}, migrations applied`);
 }
 
-export async function listJobs(userId: string = DEMO_USER_ID, limit: number = 20, offset: number = 0): Promise<Job[]> {
-  const userJobs = Array.from(jobs.values())
-    .filter(job => job.userId === userId)
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-    .slice(offset, offset + limit);
-  
-  return userJobs;
-}
\ No newline at end of file
+// Query operators, re-exported so services import everything database-related from here
+export { eq, ne, and, or, gt, gte, lt, inArray, isNull, ilike, asc, desc, sql, getTableColumns } from 'drizzle-orm';
@@ -0,0 +1,97 @@
+// Derivatives: the preview every asset card shows, made once when the asset is recorded
+
+import sharp from "sharp";
+import { db, inArray, sql } from "../db";
+import { assetDerivatives, type Asset, type AssetDerivative } from "@shared/schema";
+import { FileService } from "../file-service";
+import { getStorageBackend, assetUrlForKey, keyFromAssetUrl } from "../storage-backend/backend-factory";
+import { loadGltf } from "../gltf/loader";
+import { renderModelStill } from "./model-renderer";
+import { grabPoster } from "./video-poster";
+
+export type DerivativeKind = "thumbnail" | "poster" | "still";
+
+// Longest edge of every preview, in pixels
+export const PREVIEW_SIZE = 512;
+
+// Which preview each kind of asset gets; other files get none
+const KIND_FOR_ASSET: Record<string, DerivativeKind> = {
+  image: "thumbnail",
+  video: "poster",
+  model: "still",
+};
+
+export function derivativeKindFor(asset: Pick<Asset, "kind">): DerivativeKind | null {
+  return KIND_FOR_ASSET[asset.kind] ?? null;
+}
+
+// Scale to fit the preview size and encode as WebP
+function toPreview(image: Buffer): Promise<Buffer> {
+  return sharp(image)
+    .resize({ width: PREVIEW_SIZE, height: PREVIEW_SIZE, fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+}
+
+export class DerivativeService {
+  // Make the asset's preview. Failures are recorded on the derivative rather than thrown,
+  // so a broken file is tried once, not on every start
+  static async generate(asset: Asset): Promise<AssetDerivative | null> {
+    const kind = derivativeKindFor(asset);
+    if (!kind) return null;
+
+    let values: Omit<typeof assetDerivatives.$inferInsert, "assetId" | "kind">;
+    try {
+      const stored = await this.storedThumbnail(asset);
+      const preview = stored ? await FileService.readFile(stored) : await this.render(asset, kind);
+      const url = stored ?? await this.store(asset, kind, preview);
+      const { width, height } = await sharp(preview).metadata();
+      values = { status: "ready", url, width: width ?? null, height: height ?? null, sizeBytes: preview.length, error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[DERIVE] No ${kind} for asset ${asset.id}: ${message}`);
+      values = { status: "failed", url: null, width: null, height: null, sizeBytes: null, error: message };
+    }
+
+    const [derivative] = await db.insert(assetDerivatives)
+      .values({ assetId: asset.id, kind, ...values })
+      .onConflictDoUpdate({
+        target: [assetDerivatives.assetId, assetDerivatives.kind],
+        set: { ...values, createdAt: sql`now()` },
+      })
+      .returning();
+
+    if (derivative.status === "ready") {
+      console.log(`[DERIVE] Made ${kind} for asset ${asset.id}`);
+    }
+    return derivative;
+  }
+
+  static async listFor(assetIds: string[]): Promise<AssetDerivative[]> {
+    if (assetIds.length === 0) return [];
+    return db.select().from(assetDerivatives).where(inArray(assetDerivatives.assetId, assetIds));
+  }
+
+  // Generated images already have thumbnails at this size from when they were stored
+  private static async storedThumbnail(asset: Asset): Promise<string | null> {
+    const url = asset.kind === "image" ? FileService.thumbnailUrlFor(asset.url, PREVIEW_SIZE) : null;
+    return url && (await getStorageBackend().stat(keyFromAssetUrl(url)!)) ? url : null;
+  }
+
+  private static async render(asset: Asset, kind: DerivativeKind): Promise<Buffer> {
+    switch (kind) {
+      case "thumbnail":
+        return toPreview(await FileService.readFile(asset.url));
+      case "poster":
+        return toPreview(await grabPoster(asset.url));
+      case "still":
+        return renderModelStill(await loadGltf(asset.url), PREVIEW_SIZE);
+    }
+  }
+
+  private static async store(asset: Asset, kind: DerivativeKind, preview: Buffer): Promise<string> {
+    const key = `preview_${asset.id}_${kind}.webp`;
+    await getStorageBackend().put(key, preview, "image/webp");
+    return assetUrlForKey(key);
+  }
+}
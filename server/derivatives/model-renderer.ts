@@ -0,0 +1,179 @@
+// Headless software renderer for model stills: a z-buffered rasterizer with one key light,
+// base colour factors and base colour textures. No GPU or native GL needed
+
+import sharp from "sharp";
+import { readImage, GltfError, type GltfDocument } from "../gltf/document";
+import { scenePrimitives } from "../gltf/scene";
+
+type Vec3 = [number, number, number];
+
+interface Texture {
+  data: Buffer; // RGBA
+  width: number;
+  height: number;
+}
+
+// Three-quarter view from slightly above, the usual product-shot angle
+const AZIMUTH = (35 * Math.PI) / 180;
+const ELEVATION = (20 * Math.PI) / 180;
+const FIELD_OF_VIEW = (30 * Math.PI) / 180;
+const AMBIENT = 0.35;
+const SUPERSAMPLE = 2; // Rendered at twice the size and scaled down to smooth the edges
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const normalize = (a: Vec3): Vec3 => {
+  const length = Math.hypot(a[0], a[1], a[2]) || 1;
+  return [a[0] / length, a[1] / length, a[2] / length];
+};
+
+async function loadTexture(doc: GltfDocument, textureIndex: number, cache: Map<number, Texture | null>): Promise<Texture | null> {
+  const source = doc.json.textures?.[textureIndex]?.source;
+  if (source === undefined) return null;
+  if (cache.has(source)) return cache.get(source)!;
+
+  let texture: Texture | null = null;
+  try {
+    const { data, info } = await sharp(await readImage(doc, source)).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    texture = { data, width: info.width, height: info.height };
+  } catch (error) {
+    // A missing or undecodable texture falls back to the flat base colour
+    console.warn(`[DERIVE] Skipping texture ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+  cache.set(source, texture);
+  return texture;
+}
+
+// Nearest-neighbour lookup with repeat wrapping
+function sample(texture: Texture, u: number, v: number): [number, number, number, number] {
+  const x = Math.floor((u - Math.floor(u)) * texture.width) % texture.width;
+  const y = Math.floor((v - Math.floor(v)) * texture.height) % texture.height;
+  const at = (y * texture.width + x) * 4;
+  const data = texture.data;
+  return [data[at] / 255, data[at + 1] / 255, data[at + 2] / 255, data[at + 3] / 255];
+}
+
+// A square WebP still of the model's default scene on a transparent background
+export async function renderModelStill(doc: GltfDocument, size: number): Promise<Buffer> {
+  const primitives = scenePrimitives(doc);
+  const triangleCount = primitives.reduce((sum, primitive) => sum + primitive.indices.length / 3, 0);
+  if (triangleCount === 0) throw new GltfError("Model has no triangles to render");
+
+  // Frame the bounding sphere
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const { positions } of primitives) {
+    for (let i = 0; i < positions.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], positions[i + axis]);
+        max[axis] = Math.max(max[axis], positions[i + axis]);
+      }
+    }
+  }
+  const center: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  const radius = Math.max(Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2, 1e-6);
+
+  const direction: Vec3 = [Math.sin(AZIMUTH) * Math.cos(ELEVATION), Math.sin(ELEVATION), Math.cos(AZIMUTH) * Math.cos(ELEVATION)];
+  const distance = (radius / Math.sin(FIELD_OF_VIEW / 2)) * 1.05;
+  const eye: Vec3 = [center[0] + direction[0] * distance, center[1] + direction[1] * distance, center[2] + direction[2] * distance];
+  const forward = normalize(sub(center, eye));
+  const right = normalize(cross(forward, [0, 1, 0]));
+  const up = cross(right, forward);
+  const light = normalize([direction[0] + 0.4, direction[1] + 0.8, direction[2]]);
+  const tanHalf = Math.tan(FIELD_OF_VIEW / 2);
+  const near = radius * 0.01;
+
+  const width = size * SUPERSAMPLE;
+  const height = size * SUPERSAMPLE;
+  const pixels = Buffer.alloc(width * height * 4);
+  const depth = new Float32Array(width * height); // 1/z; larger is closer, 0 is empty
+
+  const textures = new Map<number, Texture | null>();
+
+  for (const primitive of primitives) {
+    const pbr = primitive.material?.pbrMetallicRoughness || {};
+    const [baseR, baseG, baseB, baseA] = pbr.baseColorFactor || [0.8, 0.8, 0.8, 1];
+    const texture = pbr.baseColorTexture && primitive.uvs
+      ? await loadTexture(doc, pbr.baseColorTexture.index, textures)
+      : null;
+    const alphaCutoff = primitive.material?.alphaMode === "MASK" ? primitive.material.alphaCutoff ?? 0.5 : -1;
+
+    // View-space x, y, depth for every vertex
+    const { positions, uvs, indices } = primitive;
+    const vertexCount = positions.length / 3;
+    const screenX = new Float32Array(vertexCount);
+    const screenY = new Float32Array(vertexCount);
+    const viewZ = new Float32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) {
+      const offset = sub([positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]], eye);
+      const z = dot(offset, forward);
+      viewZ[i] = z;
+      screenX[i] = (dot(offset, right) / (z * tanHalf) + 1) * 0.5 * width;
+      screenY[i] = (1 - dot(offset, up) / (z * tanHalf)) * 0.5 * height;
+    }
+
+    for (let t = 0; t < indices.length; t += 3) {
+      const a = indices[t], b = indices[t + 1], c = indices[t + 2];
+      if (viewZ[a] < near || viewZ[b] < near || viewZ[c] < near) continue;
+
+      const area = (screenX[b] - screenX[a]) * (screenY[c] - screenY[a]) - (screenX[c] - screenX[a]) * (screenY[b] - screenY[a]);
+      if (Math.abs(area) < 1e-12) continue;
+
+      // Flat shading from the face normal, lit from whichever side faces the camera
+      const pa: Vec3 = [positions[a * 3], positions[a * 3 + 1], positions[a * 3 + 2]];
+      let normal = normalize(cross(
+        sub([positions[b * 3], positions[b * 3 + 1], positions[b * 3 + 2]], pa),
+        sub([positions[c * 3], positions[c * 3 + 1], positions[c * 3 + 2]], pa),
+      ));
+      if (dot(normal, sub(eye, pa)) < 0) normal = [-normal[0], -normal[1], -normal[2]];
+      const shade = AMBIENT + (1 - AMBIENT) * Math.max(dot(normal, light), 0);
+
+      const minX = Math.max(Math.floor(Math.min(screenX[a], screenX[b], screenX[c])), 0);
+      const maxX = Math.min(Math.ceil(Math.max(screenX[a], screenX[b], screenX[c])), width - 1);
+      const minY = Math.max(Math.floor(Math.min(screenY[a], screenY[b], screenY[c])), 0);
+      const maxY = Math.min(Math.ceil(Math.max(screenY[a], screenY[b], screenY[c])), height - 1);
+      const invZa = 1 / viewZ[a], invZb = 1 / viewZ[b], invZc = 1 / viewZ[c];
+
+      for (let y = minY; y <= maxY; y++) {
+        const py = y + 0.5;
+        for (let x = minX; x <= maxX; x++) {
+          const px = x + 0.5;
+          // Barycentric weights; all the same sign inside the triangle
+          const wa = ((screenX[b] - px) * (screenY[c] - py) - (screenX[c] - px) * (screenY[b] - py)) / area;
+          const wb = ((screenX[c] - px) * (screenY[a] - py) - (screenX[a] - px) * (screenY[c] - py)) / area;
+          const wc = 1 - wa - wb;
+          if (wa < 0 || wb < 0 || wc < 0) continue;
+
+          const invZ = wa * invZa + wb * invZb + wc * invZc;
+          const pixel = y * width + x;
+          if (invZ <= depth[pixel]) continue;
+
+          let r = baseR, g = baseG, bl = baseB, alpha = baseA;
+          if (texture && uvs) {
+            // Perspective-correct texture coordinates
+            const u = (wa * uvs[a * 2] * invZa + wb * uvs[b * 2] * invZb + wc * uvs[c * 2] * invZc) / invZ;
+            const v = (wa * uvs[a * 2 + 1] * invZa + wb * uvs[b * 2 + 1] * invZb + wc * uvs[c * 2 + 1] * invZc) / invZ;
+            const texel = sample(texture, u, v);
+            r *= texel[0];
+            g *= texel[1];
+            bl *= texel[2];
+            alpha *= texel[3];
+          }
+          if (alpha < alphaCutoff) continue;
+
+          depth[pixel] = invZ;
+          pixels[pixel * 4] = Math.min(255, Math.round(r * shade * 255));
+          pixels[pixel * 4 + 1] = Math.min(255, Math.round(g * shade * 255));
+          pixels[pixel * 4 + 2] = Math.min(255, Math.round(bl * shade * 255));
+          pixels[pixel * 4 + 3] = 255;
+        }
+      }
+    }
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 4 } })
+    .resize(size, size)
+    .webp({ quality: 85 })
+    .toBuffer();
+}
@@ -0,0 +1,64 @@
+// Poster frames for videos, grabbed with ffmpeg (FFMPEG_PATH, or "ffmpeg" on the PATH)
+
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { FileService } from "../file-service";
+
+const FFMPEG_TIMEOUT_MS = 60000;
+const POSTER_SECONDS = 1; // Past any fade in from black
+
+export function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || "ffmpeg";
+}
+
+// One PNG frame from `seconds` in, or an empty buffer when the video is shorter than that
+function grabFrame(input: string, seconds: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(getFfmpegPath(), [
+      "-hide_banner", "-loglevel", "error",
+      "-ss", String(seconds),
+      "-i", input,
+      "-frames:v", "1",
+      "-f", "image2pipe", "-vcodec", "png", "pipe:1",
+    ]);
+
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    const timer = setTimeout(() => ffmpeg.kill("SIGKILL"), FFMPEG_TIMEOUT_MS);
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.stderr.on("data", (chunk: Buffer) => { stderr += chunk.toString(); });
+    ffmpeg.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === "ENOENT" ? new Error("ffmpeg is not installed; set FFMPEG_PATH to enable video posters") : error);
+    });
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`ffmpeg exited with ${code ?? "a timeout"}: ${stderr.trim().split("\n").pop() || "no output"}`));
+    });
+  });
+}
+
+// A PNG frame from the video. Remote videos are read by ffmpeg directly so only the part it
+// needs is downloaded; anything else goes through a temporary file, since MP4s need seeking
+export async function grabPoster(url: string): Promise<Buffer> {
+  let input = url;
+  let tempFile: string | null = null;
+
+  if (!/^https?:\/\//.test(url)) {
+    tempFile = path.join(os.tmpdir(), `poster-${crypto.randomUUID()}`);
+    await fs.writeFile(tempFile, await FileService.readFile(url));
+    input = tempFile;
+  }
+
+  try {
+    const frame = await grabFrame(input, POSTER_SECONDS);
+    return frame.length > 0 ? frame : await grabFrame(input, 0);
+  } finally {
+    if (tempFile) await fs.rm(tempFile, { force: true });
+  }
+}
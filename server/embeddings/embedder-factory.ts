@@ -0,0 +1,51 @@
+// Embedder selection from environment
+
+import type { EmbedderConfig, TextEmbedder } from "./types";
+import { HashingEmbedder } from "./hashing-embedder";
+import { OllamaEmbedder } from "./ollama-embedder";
+
+export function getEmbedderConfig(): EmbedderConfig {
+  return {
+    provider: (process.env.EMBEDDING_PROVIDER || "hashing").toLowerCase(),
+    ollama: {
+      url: process.env.OLLAMA_URL || "http://localhost:11434",
+      model: process.env.OLLAMA_EMBEDDING_MODEL || "nomic-embed-text",
+    },
+  };
+}
+
+// Embedder instance (singleton pattern)
+let embedder: TextEmbedder | null = null;
+
+export function getEmbedder(): TextEmbedder {
+  if (embedder) return embedder;
+
+  const config = getEmbedderConfig();
+
+  switch (config.provider) {
+    case "ollama":
+      embedder = new OllamaEmbedder(config.ollama.url, config.ollama.model);
+      console.log(`[EMBED] Using Ollama model ${config.ollama.model} at ${config.ollama.url}`);
+      break;
+    case "hashing":
+    default:
+      embedder = new HashingEmbedder();
+      console.log(`[EMBED] Using deterministic hashing embedder`);
+      break;
+  }
+
+  return embedder;
+}
+
+// Cosine similarity; both vectors come from the same model so lengths match
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,64 @@
+// Deterministic stand-in for an embedding model: feature hashing of words, word pairs and
+// character trigrams. Needs no model download and gives the same vector for the same text
+// on every machine, so similarity results are reproducible in tests
+
+import type { TextEmbedder } from "./types";
+
+const DIMENSIONS = 256;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "the", "of", "in", "on", "with", "for", "to", "at", "by", "from",
+  "is", "are", "it", "its", "this", "that", "as", "or", "into", "style",
+]);
+
+// FNV-1a, 32-bit
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Crude stemming so "chairs" and "chair" share a feature
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export class HashingEmbedder implements TextEmbedder {
+  readonly model = `hashing-${DIMENSIONS}`;
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The top bit picks a sign so collisions tend to cancel rather than pile up
+      vector[h % DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+    };
+
+    const tokens = words(text);
+    tokens.forEach((word, index) => {
+      add(`w:${word}`, 1);
+      if (index > 0) add(`b:${tokens[index - 1]} ${word}`, 0.5);
+
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => Number((value / norm).toFixed(5))) : vector;
+  }
+}
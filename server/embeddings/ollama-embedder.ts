@@ -0,0 +1,32 @@
+// Embeddings from a model served on the box by Ollama (e.g. nomic-embed-text)
+
+import type { TextEmbedder } from "./types";
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export class OllamaEmbedder implements TextEmbedder {
+  readonly model: string;
+
+  constructor(private url: string, private modelName: string) {
+    this.model = `ollama:${modelName}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await fetch(`${this.url.replace(/\/$/, "")}/api/embeddings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.modelName, prompt: text }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embedding failed: ${response.status} ${response.statusText}`);
+    }
+
+    const { embedding } = await response.json();
+    if (!Array.isArray(embedding) || embedding.length === 0) {
+      throw new Error("Ollama returned no embedding");
+    }
+    return embedding;
+  }
+}
@@ -0,0 +1,15 @@
+// Text embedders behind "find similar": anything that turns text into a fixed-length vector
+
+export interface TextEmbedder {
+  // Stored with each vector; vectors from different models are never compared
+  readonly model: string;
+  embed(text: string): Promise<number[]>;
+}
+
+export interface EmbedderConfig {
+  provider: string; // "hashing" | "ollama"
+  ollama: {
+    url: string;
+    model: string;
+  };
+}
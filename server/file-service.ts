@@ -1,37 +1,81 @@
-// File service for downloading and storing 3D models locally
-import fs from 'fs/promises';
+// File service for downloading and storing generated assets and uploads
 import path from 'path';
 import crypto from 'crypto';
-import { pipeline } from 'stream/promises';
 import { Readable } from 'stream';
+import sharp from 'sharp';
+import { getStorageBackend, assetUrlForKey, keyFromAssetUrl } from './storage-backend/backend-factory';
+import { viewUrl } from './storage-backend/signed-urls';
 
-export class FileService {
-  private static readonly UPLOADS_DIR = path.join(process.cwd(), 'uploads');
-  
-  // Ensure uploads directory exists
-  static async ensureUploadsDir(): Promise<void> {
-    try {
-      await fs.access(this.UPLOADS_DIR);
-    } catch {
-      await fs.mkdir(this.UPLOADS_DIR, { recursive: true });
-    }
-  }
+export type UploadKind = 'model' | 'image';
+
+interface UploadRule {
+  extensions: string[];
+  mimeTypes: string[];
+  maxBytes: number;
+  matches: (head: Buffer) => boolean; // Magic-byte check so a renamed file is rejected
+}
+
+// What /api/uploads accepts for each kind of job input
+export const UPLOAD_RULES: Record<UploadKind, UploadRule> = {
+  model: {
+    extensions: ['.glb', '.gltf'],
+    // Browsers rarely know glTF types, so generic binary/JSON types are allowed too
+    mimeTypes: ['model/gltf-binary', 'model/gltf+json', 'application/octet-stream', 'application/json', ''],
+    maxBytes: 50 * 1024 * 1024,
+    matches: (head) => head.subarray(0, 4).toString('latin1') === 'glTF' || head.toString('utf8').trimStart().startsWith('{'),
+  },
+  image: {
+    extensions: ['.png', '.jpg', '.jpeg', '.webp'],
+    mimeTypes: ['image/png', 'image/jpeg', 'image/webp'],
+    maxBytes: 10 * 1024 * 1024,
+    matches: (head) =>
+      head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) ||
+      head.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) ||
+      (head.subarray(0, 4).toString('latin1') === 'RIFF' && head.subarray(8, 12).toString('latin1') === 'WEBP'),
+  },
+};
+
+export const MAX_UPLOAD_BYTES = Math.max(...Object.values(UPLOAD_RULES).map(rule => rule.maxBytes));
 
-  // Download file from URL and save locally
+// Largest file readFile will load into memory
+const MAX_READ_BYTES = 200 * 1024 * 1024;
+const READ_TIMEOUT_MS = 60000;
+
+// Longest edge of each thumbnail kept for a stored image
+export const THUMBNAIL_SIZES = [128, 256, 512] as const;
+export type ThumbnailSize = typeof THUMBNAIL_SIZES[number];
+
+// Formats stored as they are; anything else is re-encoded as PNG
+const IMAGE_EXTENSIONS: Record<string, string> = { png: '.png', jpeg: '.jpg', webp: '.webp', gif: '.gif' };
+
+// Generated images are keyed by the hash of their bytes: img_<sha256>.<ext>
+const STORED_IMAGE_KEY = /^img_([0-9a-f]{64})\.(png|jpg|webp|gif)$/;
+
+export interface StoredImage {
+  url: string;
+  thumbnails: Record<ThumbnailSize, string>;
+  width: number;
+  height: number;
+  sizeBytes: number;
+}
+
+function thumbnailKey(hash: string, size: ThumbnailSize): string {
+  return `img_${hash}_${size}.webp`;
+}
+
+export class FileService {
+  // Download file from URL and save it to the storage backend
   static async downloadAndStore(url: string, jobId: string, extension?: string): Promise<string> {
-    await this.ensureUploadsDir();
-    
     // Auto-detect extension from URL if not provided
     if (!extension) {
       const urlPath = new URL(url).pathname;
       extension = path.extname(urlPath) || '.glb';
     }
     
-    const filename = `${jobId}${extension}`;
-    const filePath = path.join(this.UPLOADS_DIR, filename);
+    const key = `${jobId}${extension}`;
     
     try {
-      console.log(`[FILE] Downloading ${url} to ${filePath}`);
+      console.log(`[FILE] Downloading ${url} to storage key ${key}`);
       
       const response = await fetch(url);
       if (!response.ok) {
@@ -43,13 +87,11 @@ export class FileService {
       }
       
       // Convert fetch ReadableStream to Node.js Readable
-      const readable = Readable.fromWeb(response.body);
-      const writeStream = (await import('fs')).createWriteStream(filePath);
-      
-      await pipeline(readable, writeStream);
+      const readable = Readable.fromWeb(response.body as any);
+      await getStorageBackend().put(key, readable, response.headers.get('content-type') || undefined);
       
-      console.log(`[FILE] Successfully downloaded and saved: ${filePath}`);
-      return `/uploads/${filename}`;
+      console.log(`[FILE] Successfully downloaded and saved: ${key}`);
+      return assetUrlForKey(key);
       
     } catch (error) {
       console.error(`[FILE] Failed to download ${url}:`, error);
@@ -57,48 +99,153 @@ export class FileService {
     }
   }
 
+  // Store a generated image under the hash of its contents, with a WebP thumbnail per size.
+  // Storing the same bytes twice reuses the files already there
+  static async storeImage(buffer: Buffer): Promise<StoredImage> {
+    const storage = getStorageBackend();
+    const metadata = await sharp(buffer).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error('Generated image has no dimensions');
+    }
+
+    const extension = IMAGE_EXTENSIONS[metadata.format || ''];
+    const body = extension ? buffer : await sharp(buffer).png().toBuffer();
+    const hash = crypto.createHash('sha256').update(body).digest('hex');
+    const key = `img_${hash}${extension || '.png'}`;
+
+    if (!(await storage.stat(key))) {
+      await storage.put(key, body);
+    }
+
+    const thumbnails = {} as Record<ThumbnailSize, string>;
+    for (const size of THUMBNAIL_SIZES) {
+      const thumbKey = thumbnailKey(hash, size);
+      if (!(await storage.stat(thumbKey))) {
+        const thumbnail = await sharp(body)
+          .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+          .webp({ quality: 80 })
+          .toBuffer();
+        await storage.put(thumbKey, thumbnail, 'image/webp');
+      }
+      thumbnails[size] = assetUrlForKey(thumbKey);
+    }
+
+    console.log(`[FILE] Stored image ${key} (${body.length} bytes) with ${THUMBNAIL_SIZES.length} thumbnails`);
+    return { url: assetUrlForKey(key), thumbnails, width: metadata.width, height: metadata.height, sizeBytes: body.length };
+  }
+
+  // Move an inline base64 image into storage
+  static async storeDataUrl(dataUrl: string): Promise<StoredImage> {
+    const comma = dataUrl.indexOf(',');
+    if (!dataUrl.startsWith('data:image/') || comma < 0 || !dataUrl.slice(0, comma).endsWith(';base64')) {
+      throw new Error('Not a base64 image data URL');
+    }
+    return this.storeImage(Buffer.from(dataUrl.slice(comma + 1), 'base64'));
+  }
+
+  // Whole contents of a job output or input: an inline data URL, a stored file or a remote URL
+  static async readFile(url: string, maxBytes: number = MAX_READ_BYTES): Promise<Buffer> {
+    let body: Readable;
+
+    if (url.startsWith('data:')) {
+      const comma = url.indexOf(',');
+      const header = url.slice(0, comma);
+      return header.endsWith(';base64') ? Buffer.from(url.slice(comma + 1), 'base64') : Buffer.from(decodeURIComponent(url.slice(comma + 1)));
+    } else if (keyFromAssetUrl(url)) {
+      const object = await getStorageBackend().get(keyFromAssetUrl(url)!);
+      if (!object) throw new Error(`Stored file ${url} is missing`);
+      body = object.body;
+    } else if (/^https?:\/\//.test(url)) {
+      const response = await fetch(url, { signal: AbortSignal.timeout(READ_TIMEOUT_MS) });
+      if (!response.ok || !response.body) throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+      body = Readable.fromWeb(response.body as any);
+    } else {
+      throw new Error(`Unrecognised file URL: ${url.slice(0, 80)}`);
+    }
+
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for await (const chunk of body) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        body.destroy();
+        throw new Error(`File is larger than ${Math.round(maxBytes / (1024 * 1024))} MB`);
+      }
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  // URL of a stored image's thumbnail, or null for anything storeImage didn't write
+  static thumbnailUrlFor(url: string | null | undefined, size: ThumbnailSize = 256): string | null {
+    const match = url ? keyFromAssetUrl(url)?.match(STORED_IMAGE_KEY) : null;
+    return match ? assetUrlForKey(thumbnailKey(match[1], size)) : null;
+  }
+
+  // Check an uploaded file against the rules for its kind; returns an error message or null
+  static validateUpload(kind: UploadKind, file: { originalname: string; mimetype: string; size: number; buffer: Buffer }): string | null {
+    const rule = UPLOAD_RULES[kind];
+    const extension = path.extname(file.originalname).toLowerCase();
+
+    if (!rule.extensions.includes(extension)) {
+      return `Unsupported ${kind} file type. Allowed: ${rule.extensions.join(', ')}`;
+    }
+    if (!rule.mimeTypes.includes(file.mimetype)) {
+      return `Unsupported content type: ${file.mimetype}`;
+    }
+    if (file.size > rule.maxBytes) {
+      return `File too large. Maximum ${kind} size is ${Math.round(rule.maxBytes / (1024 * 1024))} MB`;
+    }
+    if (!rule.matches(file.buffer.subarray(0, 16))) {
+      return `File contents do not look like a valid ${kind}`;
+    }
+    return null;
+  }
+
+  // Store a user upload under a random name and return its public URL
+  static async storeUpload(buffer: Buffer, originalName: string, contentType?: string): Promise<string> {
+    const extension = path.extname(originalName).toLowerCase();
+    const key = `upload_${crypto.randomUUID()}${extension}`;
+    await getStorageBackend().put(key, buffer, contentType);
+
+    console.log(`[FILE] Stored upload ${originalName} as ${key}`);
+    return assetUrlForKey(key);
+  }
+
+  // Absolute, signed URL for a local /uploads path, for providers that fetch inputs themselves
+  static toPublicUrl(url: string): string {
+    const baseUrl = process.env.BASE_URL;
+    return url.startsWith('/') && baseUrl ? `${baseUrl.replace(/\/$/, '')}${viewUrl(url)}` : url;
+  }
+
   // Get file path for job ID
   static getJobFilePath(jobId: string, extension: string = '.glb'): string {
-    return `/uploads/${jobId}${extension}`;
+    return assetUrlForKey(`${jobId}${extension}`);
   }
 
-  // Check if file exists locally
+  // Check if file exists in storage
   static async fileExists(jobId: string, extension: string = '.glb'): Promise<boolean> {
-    const filePath = path.join(this.UPLOADS_DIR, `${jobId}${extension}`);
-    try {
-      await fs.access(filePath);
-      return true;
-    } catch {
-      return false;
-    }
+    return (await getStorageBackend().stat(`${jobId}${extension}`)) !== null;
   }
 
   // Get file size
   static async getFileSize(jobId: string, extension: string = '.glb'): Promise<number | null> {
-    const filePath = path.join(this.UPLOADS_DIR, `${jobId}${extension}`);
-    try {
-      const stats = await fs.stat(filePath);
-      return stats.size;
-    } catch {
-      return null;
-    }
+    const info = await getStorageBackend().stat(`${jobId}${extension}`);
+    return info ? info.size : null;
   }
 
   // Clean up old files (optional maintenance function)
   static async cleanupOldFiles(maxAge: number = 7 * 24 * 60 * 60 * 1000): Promise<void> {
-    await this.ensureUploadsDir();
+    const storage = getStorageBackend();
     
     try {
-      const files = await fs.readdir(this.UPLOADS_DIR);
+      const files = await storage.list();
       const now = Date.now();
       
       for (const file of files) {
-        const filePath = path.join(this.UPLOADS_DIR, file);
-        const stats = await fs.stat(filePath);
-        
-        if (now - stats.mtime.getTime() > maxAge) {
-          await fs.unlink(filePath);
-          console.log(`[FILE] Cleaned up old file: ${file}`);
+        if (now - file.lastModified.getTime() > maxAge) {
+          await storage.delete(file.key);
+          console.log(`[FILE] Cleaned up old file: ${file.key}`);
         }
       }
     } catch (error) {
@@ -0,0 +1,79 @@
+// Building an in-memory glTF document from plain vertex arrays, for formats read into glTF
+
+import { GltfError, type GltfDocument } from "./document";
+
+export interface MeshData {
+  positions: Float32Array; // xyz per vertex
+  normals?: Float32Array | null;
+  uvs?: Float32Array | null;
+  colors?: Float32Array | null; // RGBA
+  indices?: Uint32Array | null; // Three per triangle; without them the vertices are drawn as points
+}
+
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+// One mesh per entry, each on its own root node, with all data in a single buffer
+export function documentFromMeshes(meshes: MeshData[]): GltfDocument {
+  const chunks: Buffer[] = [];
+  let byteLength = 0;
+  const bufferViews: Record<string, any>[] = [];
+  const accessors: Record<string, any>[] = [];
+
+  const addAccessor = (array: Float32Array | Uint32Array, type: string, target: number, bounds = false): number => {
+    const bytes = Buffer.from(array.buffer, array.byteOffset, array.byteLength);
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, target });
+    chunks.push(bytes);
+    byteLength += bytes.length; // Every array is 4-byte items, so offsets stay aligned
+
+    const accessor: Record<string, any> = {
+      bufferView: bufferViews.length - 1,
+      componentType: array instanceof Float32Array ? FLOAT : UNSIGNED_INT,
+      count: type === "SCALAR" ? array.length : array.length / ({ VEC2: 2, VEC3: 3, VEC4: 4 } as Record<string, number>)[type],
+      type,
+    };
+    if (bounds) {
+      // POSITION accessors must declare their bounding box
+      accessor.min = [Infinity, Infinity, Infinity];
+      accessor.max = [-Infinity, -Infinity, -Infinity];
+      for (let i = 0; i < array.length; i++) {
+        accessor.min[i % 3] = Math.min(accessor.min[i % 3], array[i]);
+        accessor.max[i % 3] = Math.max(accessor.max[i % 3], array[i]);
+      }
+    }
+    accessors.push(accessor);
+    return accessors.length - 1;
+  };
+
+  const gltfMeshes = meshes.map((mesh) => {
+    if (mesh.positions.length === 0) throw new GltfError("Mesh has no vertices");
+
+    const attributes: Record<string, number> = { POSITION: addAccessor(mesh.positions, "VEC3", ARRAY_BUFFER, true) };
+    if (mesh.normals) attributes.NORMAL = addAccessor(mesh.normals, "VEC3", ARRAY_BUFFER);
+    if (mesh.uvs) attributes.TEXCOORD_0 = addAccessor(mesh.uvs, "VEC2", ARRAY_BUFFER);
+    if (mesh.colors) attributes.COLOR_0 = addAccessor(mesh.colors, "VEC4", ARRAY_BUFFER);
+
+    const primitive: Record<string, any> = { attributes, mode: mesh.indices ? 4 : 0 };
+    if (mesh.indices) primitive.indices = addAccessor(mesh.indices, "SCALAR", ELEMENT_ARRAY_BUFFER);
+    return { primitives: [primitive] };
+  });
+
+  const json: Record<string, any> = {
+    asset: { version: "2.0", generator: "AI Studio converter" },
+    scene: 0,
+    scenes: [{ nodes: gltfMeshes.map((_, index) => index) }],
+    nodes: gltfMeshes.map((_, index) => ({ mesh: index })),
+    meshes: gltfMeshes,
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength }],
+  };
+
+  return {
+    json,
+    buffers: [Buffer.concat(chunks)],
+    resolve: async (uri) => { throw new GltfError(`Missing resource ${uri}`); },
+  };
+}
@@ -0,0 +1,206 @@
+// Minimal glTF 2.0 reader: GLB or JSON, buffers resolved up front, accessors decoded on demand
+
+export class GltfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GltfError";
+  }
+}
+
+// Loads an external buffer or image by the URI written in the file
+export type ResourceResolver = (uri: string) => Promise<Buffer>;
+
+export interface GltfDocument {
+  json: Record<string, any>;
+  buffers: Buffer[];
+  resolve: ResourceResolver;
+}
+
+export interface AccessorData {
+  array: Float32Array | Uint32Array; // Floats for attributes, integers for indices
+  itemSize: number;
+  count: number;
+}
+
+// Extensions that change how geometry is stored; without a decoder the file can't be read
+const UNSUPPORTED_EXTENSIONS = ["KHR_draco_mesh_compression", "EXT_meshopt_compression"];
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const ITEM_SIZES: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+
+const COMPONENT_BYTES: Record<number, number> = { 5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4 };
+
+// Divisors that map normalized integers back to [0, 1] or [-1, 1]
+const NORMALIZE: Record<number, number> = { 5120: 127, 5121: 255, 5122: 32767, 5123: 65535 };
+
+export function isGlb(data: Buffer): boolean {
+  return data.length >= 12 && data.readUInt32LE(0) === GLB_MAGIC;
+}
+
+function decodeDataUri(uri: string): Buffer {
+  const comma = uri.indexOf(",");
+  const header = uri.slice(0, comma);
+  const body = uri.slice(comma + 1);
+  return header.endsWith(";base64") ? Buffer.from(body, "base64") : Buffer.from(decodeURIComponent(body));
+}
+
+// Data URIs are decoded in place; anything else goes to the resolver
+export async function loadResource(uri: string, resolve: ResourceResolver): Promise<Buffer> {
+  return uri.startsWith("data:") ? decodeDataUri(uri) : resolve(decodeURIComponent(uri));
+}
+
+export async function readGltf(data: Buffer, resolve: ResourceResolver): Promise<GltfDocument> {
+  let json: Record<string, any>;
+  let binChunk: Buffer | null = null;
+
+  if (isGlb(data)) {
+    const version = data.readUInt32LE(4);
+    if (version !== 2) throw new GltfError(`Unsupported GLB version ${version}`);
+
+    const length = Math.min(data.readUInt32LE(8), data.length);
+    let offset = 12;
+    let jsonChunk: Buffer | null = null;
+    while (offset + 8 <= length) {
+      const chunkLength = data.readUInt32LE(offset);
+      const chunkType = data.readUInt32LE(offset + 4);
+      const chunk = data.subarray(offset + 8, offset + 8 + chunkLength);
+      if (chunkType === CHUNK_JSON) jsonChunk = chunk;
+      else if (chunkType === CHUNK_BIN && !binChunk) binChunk = chunk;
+      offset += 8 + chunkLength;
+    }
+    if (!jsonChunk) throw new GltfError("GLB has no JSON chunk");
+    json = parseJson(jsonChunk);
+  } else {
+    json = parseJson(data);
+  }
+
+  if (!json.asset?.version?.startsWith("2.")) {
+    throw new GltfError(`Unsupported glTF version ${json.asset?.version ?? "(none)"}`);
+  }
+  const blocking = (json.extensionsRequired || []).filter((name: string) => UNSUPPORTED_EXTENSIONS.includes(name));
+  if (blocking.length > 0) {
+    throw new GltfError(`Compressed geometry (${blocking.join(", ")}) isn't supported`);
+  }
+
+  // A GLB's first buffer with no URI is its binary chunk
+  const buffers: Buffer[] = [];
+  const declared: Record<string, any>[] = json.buffers || [];
+  for (let index = 0; index < declared.length; index++) {
+    const buffer = declared[index];
+    if (buffer.uri === undefined) {
+      if (index !== 0 || !binChunk) throw new GltfError(`Buffer ${index} has no data`);
+      buffers.push(binChunk);
+    } else {
+      buffers.push(await loadResource(buffer.uri, resolve));
+    }
+  }
+
+  return { json, buffers, resolve };
+}
+
+function parseJson(chunk: Buffer): Record<string, any> {
+  try {
+    return JSON.parse(chunk.toString("utf8").replace(/^\uFEFF/, ""));
+  } catch {
+    throw new GltfError("Not a glTF file");
+  }
+}
+
+export function readAccessor(doc: GltfDocument, index: number): AccessorData {
+  const accessor = doc.json.accessors?.[index];
+  if (!accessor) throw new GltfError(`Missing accessor ${index}`);
+  if (accessor.sparse) throw new GltfError("Sparse accessors aren't supported");
+
+  const itemSize = ITEM_SIZES[accessor.type];
+  const componentBytes = COMPONENT_BYTES[accessor.componentType];
+  if (!itemSize || !componentBytes) throw new GltfError(`Accessor ${index} has an unknown type`);
+
+  const count: number = accessor.count;
+  const isFloat = accessor.componentType === 5126;
+  const asFloat = isFloat || accessor.normalized || accessor.type !== "SCALAR";
+  const array = asFloat ? new Float32Array(count * itemSize) : new Uint32Array(count * itemSize);
+
+  // No buffer view means all zeros
+  if (accessor.bufferView === undefined) return { array, itemSize, count };
+
+  const view = doc.json.bufferViews?.[accessor.bufferView];
+  const buffer = view ? doc.buffers[view.buffer] : undefined;
+  if (!view || !buffer) throw new GltfError(`Accessor ${index} points at a missing buffer`);
+
+  const base = (view.byteOffset || 0) + (accessor.byteOffset || 0);
+  const stride = view.byteStride || itemSize * componentBytes;
+  if (base + stride * (count - 1) + itemSize * componentBytes > buffer.length) {
+    throw new GltfError(`Accessor ${index} runs past the end of its buffer`);
+  }
+
+  const divisor = accessor.normalized ? NORMALIZE[accessor.componentType] : 1;
+  for (let item = 0; item < count; item++) {
+    for (let component = 0; component < itemSize; component++) {
+      const at = base + item * stride + component * componentBytes;
+      let value: number;
+      switch (accessor.componentType) {
+        case 5120: value = buffer.readInt8(at); break;
+        case 5121: value = buffer.readUInt8(at); break;
+        case 5122: value = buffer.readInt16LE(at); break;
+        case 5123: value = buffer.readUInt16LE(at); break;
+        case 5125: value = buffer.readUInt32LE(at); break;
+        default: value = buffer.readFloatLE(at);
+      }
+      array[item * itemSize + component] = divisor === 1 ? value : Math.max(value / divisor, -1);
+    }
+  }
+
+  return { array, itemSize, count };
+}
+
+// Bytes one element of an accessor takes, or 0 for an unknown type
+export function accessorElementSize(accessor: Record<string, any>): number {
+  return (ITEM_SIZES[accessor.type] || 0) * (COMPONENT_BYTES[accessor.componentType] || 0);
+}
+
+// An accessor's elements tightly packed, in their stored component type. Used to copy
+// attributes without converting them
+export function readAccessorBytes(doc: GltfDocument, index: number): { data: Buffer; elementSize: number; count: number } {
+  const accessor = doc.json.accessors?.[index];
+  if (!accessor) throw new GltfError(`Missing accessor ${index}`);
+  if (accessor.sparse) throw new GltfError("Sparse accessors aren't supported");
+
+  const elementSize = accessorElementSize(accessor);
+  if (!elementSize) throw new GltfError(`Accessor ${index} has an unknown type`);
+
+  const count: number = accessor.count;
+  const data = Buffer.alloc(count * elementSize);
+  if (accessor.bufferView === undefined) return { data, elementSize, count };
+
+  const view = doc.json.bufferViews?.[accessor.bufferView];
+  const buffer = view ? doc.buffers[view.buffer] : undefined;
+  if (!view || !buffer) throw new GltfError(`Accessor ${index} points at a missing buffer`);
+
+  const base = (view.byteOffset || 0) + (accessor.byteOffset || 0);
+  const stride = view.byteStride || elementSize;
+  if (base + stride * (count - 1) + elementSize > buffer.length) {
+    throw new GltfError(`Accessor ${index} runs past the end of its buffer`);
+  }
+  for (let item = 0; item < count; item++) {
+    buffer.copy(data, item * elementSize, base + item * stride, base + item * stride + elementSize);
+  }
+  return { data, elementSize, count };
+}
+
+// Encoded bytes of an image, from a buffer view or its URI
+export async function readImage(doc: GltfDocument, index: number): Promise<Buffer> {
+  const image = doc.json.images?.[index];
+  if (!image) throw new GltfError(`Missing image ${index}`);
+
+  if (image.bufferView !== undefined) {
+    const view = doc.json.bufferViews[image.bufferView];
+    const offset = view.byteOffset || 0;
+    return doc.buffers[view.buffer].subarray(offset, offset + view.byteLength);
+  }
+  if (image.uri) return loadResource(image.uri, doc.resolve);
+
+  throw new GltfError(`Image ${index} has no data`);
+}
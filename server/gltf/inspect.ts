@@ -0,0 +1,181 @@
+// Inspection report for a glTF model: what the default scene draws, how big it is, what it
+// uses, and whether its surfaces are closed
+
+import sharp from "sharp";
+import { readAccessor, readImage, type GltfDocument } from "./document";
+import { meshInstances, transformPoint, triangleIndices, TRIANGLES } from "./scene";
+
+export interface TextureImageInfo {
+  image: number; // Index into the file's images
+  name: string | null;
+  mimeType: string | null;
+  width: number | null; // Null when the encoding couldn't be read
+  height: number | null;
+  sizeBytes: number;
+}
+
+export interface ModelBounds {
+  min: [number, number, number];
+  max: [number, number, number];
+  size: [number, number, number];
+}
+
+export interface ModelInspection {
+  triangles: number; // Counting each instance of a mesh
+  vertices: number;
+  meshes: number; // Distinct meshes the scene draws
+  materials: number;
+  bounds: ModelBounds | null; // World space; null when nothing is drawn
+  textures: TextureImageInfo[];
+  watertight: boolean;
+  openEdges: number; // Edges only one triangle uses
+  nonManifoldEdges: number; // Edges more than two triangles share
+  extensions: string[];
+}
+
+// Triangles of one mesh over vertices welded by position, in the mesh's own space
+interface MeshSurface {
+  positions: Float32Array;
+  triangles: number;
+  vertices: number;
+  openEdges: number;
+  nonManifoldEdges: number;
+}
+
+const KTX2_IDENTIFIER = Buffer.from([0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Edge use is counted across all of a mesh's primitives, since a closed surface is often split
+// by material. Vertices repeated along UV or normal seams are welded by exact position first
+function inspectMesh(doc: GltfDocument, meshIndex: number): MeshSurface {
+  const welded = new Map<string, number>();
+  const points: number[] = [];
+  const edges = new Map<number, number>();
+  const surface: MeshSurface = { positions: new Float32Array(0), triangles: 0, vertices: 0, openEdges: 0, nonManifoldEdges: 0 };
+  const corners: number[] = [];
+
+  for (const primitive of doc.json.meshes?.[meshIndex]?.primitives || []) {
+    if (primitive.attributes?.POSITION === undefined) continue;
+
+    const { array, count } = readAccessor(doc, primitive.attributes.POSITION);
+    const drawn = primitive.indices !== undefined
+      ? readAccessor(doc, primitive.indices).array as Uint32Array
+      : Uint32Array.from({ length: count }, (_, i) => i);
+    const triangles = triangleIndices(primitive.mode ?? TRIANGLES, drawn);
+    if (!triangles) continue;
+
+    const ids = new Uint32Array(count);
+    for (let vertex = 0; vertex < count; vertex++) {
+      const key = `${array[vertex * 3]},${array[vertex * 3 + 1]},${array[vertex * 3 + 2]}`;
+      let id = welded.get(key);
+      if (id === undefined) {
+        id = welded.size;
+        welded.set(key, id);
+        points.push(array[vertex * 3], array[vertex * 3 + 1], array[vertex * 3 + 2]);
+      }
+      ids[vertex] = id;
+    }
+
+    surface.vertices += count;
+    surface.triangles += Math.floor(triangles.length / 3);
+    for (let i = 0; i + 2 < triangles.length; i += 3) {
+      if (triangles[i] >= count || triangles[i + 1] >= count || triangles[i + 2] >= count) continue;
+      corners.push(ids[triangles[i]], ids[triangles[i + 1]], ids[triangles[i + 2]]);
+    }
+  }
+
+  // Collapsed triangles have no area, so their edges don't count either way
+  const vertexCount = welded.size;
+  for (let i = 0; i < corners.length; i += 3) {
+    const [a, b, c] = [corners[i], corners[i + 1], corners[i + 2]];
+    if (a === b || b === c || a === c) continue;
+    for (const [u, v] of [[a, b], [b, c], [c, a]]) {
+      const key = Math.min(u, v) * vertexCount + Math.max(u, v);
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }
+  }
+  edges.forEach(uses => {
+    if (uses === 1) surface.openEdges++;
+    else if (uses > 2) surface.nonManifoldEdges++;
+  });
+
+  surface.positions = Float32Array.from(points);
+  return surface;
+}
+
+// Pixel size from the encoded image: the KTX2 header directly, anything else through sharp
+async function imageSize(data: Buffer): Promise<{ width: number | null; height: number | null }> {
+  if (data.length >= 28 && data.subarray(0, 12).equals(KTX2_IDENTIFIER)) {
+    return { width: data.readUInt32LE(20), height: data.readUInt32LE(24) };
+  }
+  try {
+    const { width, height } = await sharp(data).metadata();
+    return { width: width ?? null, height: height ?? null };
+  } catch {
+    return { width: null, height: null };
+  }
+}
+
+async function inspectImages(doc: GltfDocument): Promise<TextureImageInfo[]> {
+  const images: Record<string, any>[] = doc.json.images || [];
+  const textures: TextureImageInfo[] = [];
+  for (let index = 0; index < images.length; index++) {
+    const data = await readImage(doc, index);
+    textures.push({
+      image: index,
+      name: images[index].name ?? null,
+      mimeType: images[index].mimeType ?? null,
+      ...(await imageSize(data)),
+      sizeBytes: data.length,
+    });
+  }
+  return textures;
+}
+
+export async function inspectDocument(doc: GltfDocument): Promise<ModelInspection> {
+  const surfaces = new Map<number, MeshSurface>();
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  let triangles = 0;
+  let vertices = 0;
+
+  for (const { meshIndex, matrix } of meshInstances(doc)) {
+    let surface = surfaces.get(meshIndex);
+    if (!surface) {
+      surface = inspectMesh(doc, meshIndex);
+      surfaces.set(meshIndex, surface);
+    }
+
+    triangles += surface.triangles;
+    vertices += surface.vertices;
+    const { positions } = surface;
+    for (let i = 0; i < positions.length; i += 3) {
+      const point = transformPoint(matrix, positions[i], positions[i + 1], positions[i + 2]);
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], point[axis]);
+        max[axis] = Math.max(max[axis], point[axis]);
+      }
+    }
+  }
+
+  let openEdges = 0;
+  let nonManifoldEdges = 0;
+  surfaces.forEach(surface => {
+    openEdges += surface.openEdges;
+    nonManifoldEdges += surface.nonManifoldEdges;
+  });
+
+  return {
+    triangles,
+    vertices,
+    meshes: surfaces.size,
+    materials: doc.json.materials?.length ?? 0,
+    bounds: min[0] <= max[0]
+      ? { min, max, size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]] }
+      : null,
+    textures: await inspectImages(doc),
+    watertight: triangles > 0 && openEdges === 0 && nonManifoldEdges === 0,
+    openEdges,
+    nonManifoldEdges,
+    extensions: doc.json.extensionsUsed || [],
+  };
+}
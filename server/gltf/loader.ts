@@ -0,0 +1,27 @@
+// Loading a glTF asset by URL, with its external buffers and images fetched relative to it
+
+import { FileService } from "../file-service";
+import { keyFromAssetUrl, assetUrlForKey } from "../storage-backend/backend-factory";
+import { readGltf, GltfError, type GltfDocument } from "./document";
+
+// Where a URI inside the file points, given the URL the file itself came from
+export function resolveResourceUrl(baseUrl: string, uri: string): string {
+  if (/^https?:\/\//.test(uri)) {
+    // Only remote files may point at other remote files
+    if (!/^https?:\/\//.test(baseUrl)) throw new GltfError(`External resource ${uri} isn't allowed here`);
+    return uri;
+  }
+
+  if (/^https?:\/\//.test(baseUrl)) return new URL(uri, baseUrl).toString();
+
+  // Stored files live side by side under flat keys
+  if (keyFromAssetUrl(baseUrl) && !uri.includes("/") && !uri.startsWith(".")) {
+    return assetUrlForKey(uri);
+  }
+  throw new GltfError(`Can't resolve ${uri} relative to ${baseUrl.slice(0, 80)}`);
+}
+
+// Pass `data` when the file has already been read
+export async function loadGltf(url: string, data?: Buffer): Promise<GltfDocument> {
+  return readGltf(data ?? await FileService.readFile(url), (uri) => FileService.readFile(resolveResourceUrl(url, uri)));
+}
@@ -0,0 +1,75 @@
+// Dropping accessors and buffer views nothing refers to any more, after geometry was replaced
+
+type IndexMap = (index: number) => number;
+
+// Every place in the glTF core and the extensions we write that refers to an accessor
+function mapAccessorRefs(json: Record<string, any>, map: IndexMap): void {
+  for (const mesh of json.meshes || []) {
+    for (const primitive of mesh.primitives || []) {
+      for (const name of Object.keys(primitive.attributes || {})) primitive.attributes[name] = map(primitive.attributes[name]);
+      if (primitive.indices !== undefined) primitive.indices = map(primitive.indices);
+      for (const target of primitive.targets || []) {
+        for (const name of Object.keys(target)) target[name] = map(target[name]);
+      }
+    }
+  }
+  for (const skin of json.skins || []) {
+    if (skin.inverseBindMatrices !== undefined) skin.inverseBindMatrices = map(skin.inverseBindMatrices);
+  }
+  for (const animation of json.animations || []) {
+    for (const sampler of animation.samplers || []) {
+      sampler.input = map(sampler.input);
+      sampler.output = map(sampler.output);
+    }
+  }
+  for (const node of json.nodes || []) {
+    const instancing = node.extensions?.EXT_mesh_gpu_instancing?.attributes;
+    for (const name of Object.keys(instancing || {})) instancing[name] = map(instancing[name]);
+  }
+}
+
+function mapBufferViewRefs(json: Record<string, any>, map: IndexMap): void {
+  for (const accessor of json.accessors || []) {
+    if (accessor.bufferView !== undefined) accessor.bufferView = map(accessor.bufferView);
+    if (accessor.sparse) {
+      accessor.sparse.indices.bufferView = map(accessor.sparse.indices.bufferView);
+      accessor.sparse.values.bufferView = map(accessor.sparse.values.bufferView);
+    }
+  }
+  for (const image of json.images || []) {
+    if (image.bufferView !== undefined) image.bufferView = map(image.bufferView);
+  }
+  for (const mesh of json.meshes || []) {
+    for (const primitive of mesh.primitives || []) {
+      const draco = primitive.extensions?.KHR_draco_mesh_compression;
+      if (draco) draco.bufferView = map(draco.bufferView);
+    }
+  }
+}
+
+// Keep only the entries of `list` that are referenced, renumbering the references to match
+function prune(json: Record<string, any>, key: string, mapRefs: (json: Record<string, any>, map: IndexMap) => void): void {
+  const list: unknown[] | undefined = json[key];
+  if (!list) return;
+
+  const used = new Set<number>();
+  mapRefs(json, (index) => { used.add(index); return index; });
+
+  const renumbered = new Map<number, number>();
+  const kept = list.filter((_, index) => {
+    if (!used.has(index)) return false;
+    renumbered.set(index, renumbered.size);
+    return true;
+  });
+  if (kept.length === list.length) return;
+
+  mapRefs(json, (index) => renumbered.get(index)!);
+  if (kept.length > 0) json[key] = kept;
+  else delete json[key];
+}
+
+// Accessors first, since dropping one can leave its buffer view unused
+export function pruneDocument(json: Record<string, any>): void {
+  prune(json, "accessors", mapAccessorRefs);
+  prune(json, "bufferViews", mapBufferViewRefs);
+}
@@ -0,0 +1,198 @@
+// Walking a glTF scene: node transforms and the triangles each mesh primitive draws
+
+import { readAccessor, GltfError, type GltfDocument } from "./document";
+
+export type Mat4 = Float64Array; // Column-major, as glTF stores them
+
+export interface ScenePrimitive {
+  meshIndex: number;
+  primitiveIndex: number;
+  material: Record<string, any> | null;
+  positions: Float32Array; // World space, xyz per vertex
+  normals: Float32Array | null; // World space, unit length
+  uvs: Float32Array | null; // TEXCOORD_0
+  colors: Float32Array | null; // COLOR_0 as RGBA
+  indices: Uint32Array; // Three per triangle
+}
+
+// Primitive modes that draw triangles; points and lines are skipped
+export const TRIANGLES = 4;
+const TRIANGLE_STRIP = 5;
+const TRIANGLE_FAN = 6;
+
+export function identity(): Mat4 {
+  const m = new Float64Array(16);
+  m[0] = m[5] = m[10] = m[15] = 1;
+  return m;
+}
+
+export function multiply(a: Mat4, b: Mat4): Mat4 {
+  const out = new Float64Array(16);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[column * 4 + k];
+      out[column * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+export function transformPoint(m: Mat4, x: number, y: number, z: number): [number, number, number] {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ];
+}
+
+// A node's local transform, from its matrix or its translation, rotation and scale
+function localMatrix(node: Record<string, any>): Mat4 {
+  if (Array.isArray(node.matrix)) return Float64Array.from(node.matrix);
+
+  const [tx, ty, tz] = node.translation || [0, 0, 0];
+  const [qx, qy, qz, qw] = node.rotation || [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale || [1, 1, 1];
+
+  const m = new Float64Array(16);
+  m[0] = (1 - 2 * (qy * qy + qz * qz)) * sx;
+  m[1] = 2 * (qx * qy + qz * qw) * sx;
+  m[2] = 2 * (qx * qz - qy * qw) * sx;
+  m[4] = 2 * (qx * qy - qz * qw) * sy;
+  m[5] = (1 - 2 * (qx * qx + qz * qz)) * sy;
+  m[6] = 2 * (qy * qz + qx * qw) * sy;
+  m[8] = 2 * (qx * qz + qy * qw) * sz;
+  m[9] = 2 * (qy * qz - qx * qw) * sz;
+  m[10] = (1 - 2 * (qx * qx + qy * qy)) * sz;
+  m[12] = tx;
+  m[13] = ty;
+  m[14] = tz;
+  m[15] = 1;
+  return m;
+}
+
+// Every mesh instance in the default scene with its world matrix. Files without scenes
+// draw every root node
+export function meshInstances(doc: GltfDocument): { meshIndex: number; matrix: Mat4 }[] {
+  const nodes: Record<string, any>[] = doc.json.nodes || [];
+  const scene = doc.json.scenes?.[doc.json.scene ?? 0];
+
+  let roots: number[] = scene?.nodes || [];
+  if (!scene) {
+    const children = new Set(nodes.flatMap(node => node.children || []));
+    roots = nodes.map((_, index) => index).filter(index => !children.has(index));
+  }
+
+  const instances: { meshIndex: number; matrix: Mat4 }[] = [];
+  const visit = (index: number, parent: Mat4, depth: number) => {
+    const node = nodes[index];
+    if (!node || depth > 64) return; // Guard against cycles in a malformed file
+
+    const matrix = multiply(parent, localMatrix(node));
+    if (node.mesh !== undefined) instances.push({ meshIndex: node.mesh, matrix });
+    for (const child of node.children || []) visit(child, matrix, depth + 1);
+  };
+  for (const root of roots) visit(root, identity(), 0);
+
+  return instances;
+}
+
+// Matrix that carries normals into world space: the cofactors of the upper 3x3, which is its
+// inverse transpose up to scale. Mirrored transforms flip the sign so normals still face out
+function normalMatrix(m: Mat4): number[] {
+  const cofactors = [
+    m[5] * m[10] - m[6] * m[9], m[6] * m[8] - m[4] * m[10], m[4] * m[9] - m[5] * m[8],
+    m[9] * m[2] - m[10] * m[1], m[10] * m[0] - m[8] * m[2], m[8] * m[1] - m[9] * m[0],
+    m[1] * m[6] - m[2] * m[5], m[2] * m[4] - m[0] * m[6], m[0] * m[5] - m[1] * m[4],
+  ];
+  const determinant = m[0] * cofactors[0] + m[1] * cofactors[1] + m[2] * cofactors[2];
+  return determinant < 0 ? cofactors.map(value => -value) : cofactors;
+}
+
+// Index list for a primitive as plain triangles, whatever mode it was drawn in
+export function triangleIndices(mode: number, indices: Uint32Array): Uint32Array | null {
+  if (mode === TRIANGLES) return indices;
+
+  const triangles: number[] = [];
+  if (mode === TRIANGLE_STRIP) {
+    for (let i = 2; i < indices.length; i++) {
+      if (i % 2 === 0) triangles.push(indices[i - 2], indices[i - 1], indices[i]);
+      else triangles.push(indices[i - 1], indices[i - 2], indices[i]);
+    }
+  } else if (mode === TRIANGLE_FAN) {
+    for (let i = 2; i < indices.length; i++) triangles.push(indices[0], indices[i - 1], indices[i]);
+  } else {
+    return null;
+  }
+  return Uint32Array.from(triangles);
+}
+
+// The triangles of every mesh instance, with positions already in world space
+export function scenePrimitives(doc: GltfDocument): ScenePrimitive[] {
+  const primitives: ScenePrimitive[] = [];
+
+  for (const { meshIndex, matrix } of meshInstances(doc)) {
+    const mesh = doc.json.meshes?.[meshIndex];
+    if (!mesh) throw new GltfError(`Missing mesh ${meshIndex}`);
+
+    (mesh.primitives || []).forEach((primitive: Record<string, any>, primitiveIndex: number) => {
+      const positionAccessor = primitive.attributes?.POSITION;
+      if (positionAccessor === undefined) return;
+
+      const local = readAccessor(doc, positionAccessor);
+      const sequential = Uint32Array.from({ length: local.count }, (_, i) => i);
+      const drawn = primitive.indices !== undefined ? readAccessor(doc, primitive.indices).array as Uint32Array : sequential;
+      const indices = triangleIndices(primitive.mode ?? TRIANGLES, drawn);
+      if (!indices) return;
+
+      const positions = new Float32Array(local.count * 3);
+      for (let i = 0; i < local.count; i++) {
+        const [x, y, z] = transformPoint(matrix, local.array[i * 3], local.array[i * 3 + 1], local.array[i * 3 + 2]);
+        positions[i * 3] = x;
+        positions[i * 3 + 1] = y;
+        positions[i * 3 + 2] = z;
+      }
+
+      let normals: Float32Array | null = null;
+      if (primitive.attributes.NORMAL !== undefined) {
+        const local = readAccessor(doc, primitive.attributes.NORMAL).array;
+        const n = normalMatrix(matrix);
+        normals = new Float32Array(local.length);
+        for (let i = 0; i < local.length; i += 3) {
+          const x = n[0] * local[i] + n[3] * local[i + 1] + n[6] * local[i + 2];
+          const y = n[1] * local[i] + n[4] * local[i + 1] + n[7] * local[i + 2];
+          const z = n[2] * local[i] + n[5] * local[i + 1] + n[8] * local[i + 2];
+          const length = Math.hypot(x, y, z) || 1;
+          normals[i] = x / length;
+          normals[i + 1] = y / length;
+          normals[i + 2] = z / length;
+        }
+      }
+
+      let colors: Float32Array | null = null;
+      if (primitive.attributes.COLOR_0 !== undefined) {
+        const { array, itemSize, count } = readAccessor(doc, primitive.attributes.COLOR_0);
+        colors = new Float32Array(count * 4);
+        for (let i = 0; i < count; i++) {
+          for (let channel = 0; channel < 4; channel++) {
+            colors[i * 4 + channel] = channel < itemSize ? array[i * itemSize + channel] : 1;
+          }
+        }
+      }
+
+      const uvAccessor = primitive.attributes.TEXCOORD_0;
+      primitives.push({
+        meshIndex,
+        primitiveIndex,
+        material: primitive.material !== undefined ? doc.json.materials?.[primitive.material] ?? null : null,
+        positions,
+        normals,
+        uvs: uvAccessor !== undefined ? readAccessor(doc, uvAccessor).array as Float32Array : null,
+        colors,
+        indices,
+      });
+    });
+  }
+
+  return primitives;
+}
@@ -0,0 +1,105 @@
+// Writing glTF documents back out as a single self-contained GLB or .gltf
+
+import { loadResource, type GltfDocument } from "./document";
+
+const GLB_MAGIC = 0x46546c67;
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  ktx2: "image/ktx2",
+};
+
+// Images embedded in a buffer view must say what they are
+function imageMimeType(data: Buffer, uri: string): string {
+  if (data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  if (data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP") return "image/webp";
+  if (data.subarray(1, 7).toString("latin1") === "KTX 20") return "image/ktx2";
+  return IMAGE_TYPES[uri.split(/[?#]/)[0].split(".").pop()?.toLowerCase() || ""] || "image/png";
+}
+
+function pad(data: Buffer, fill: number): Buffer {
+  const remainder = data.length % 4;
+  return remainder === 0 ? data : Buffer.concat([data, Buffer.alloc(4 - remainder, fill)]);
+}
+
+// Copy every buffer view and external image into one binary buffer, so nothing is left
+// pointing at other files. Data no buffer view uses is dropped
+export async function packDocument(doc: GltfDocument): Promise<{ json: Record<string, any>; bin: Buffer }> {
+  const json = structuredClone(doc.json);
+  const chunks: Buffer[] = [];
+  let byteLength = 0;
+
+  const append = (data: Buffer): number => {
+    const offset = byteLength;
+    const padded = pad(data, 0);
+    chunks.push(padded);
+    byteLength += padded.length;
+    return offset;
+  };
+
+  for (const view of json.bufferViews || []) {
+    const start = view.byteOffset || 0;
+    view.byteOffset = append(doc.buffers[view.buffer].subarray(start, start + view.byteLength));
+    view.buffer = 0;
+  }
+
+  for (const image of json.images || []) {
+    if (image.uri === undefined) continue;
+    const data = await loadResource(image.uri, doc.resolve);
+    json.bufferViews = json.bufferViews || [];
+    json.bufferViews.push({ buffer: 0, byteOffset: append(data), byteLength: data.length });
+    image.bufferView = json.bufferViews.length - 1;
+    image.mimeType = image.mimeType || imageMimeType(data, image.uri);
+    delete image.uri;
+  }
+
+  const bin = Buffer.concat(chunks);
+  if (bin.length > 0) json.buffers = [{ byteLength: bin.length }];
+  else delete json.buffers;
+  return { json, bin };
+}
+
+export async function writeGlb(doc: GltfDocument): Promise<Buffer> {
+  const { json, bin } = await packDocument(doc);
+  return encodeGlb(json, bin);
+}
+
+// A GLB from JSON and the binary chunk its first buffer refers to
+export function encodeGlb(json: Record<string, any>, bin: Buffer): Buffer {
+  const jsonChunk = pad(Buffer.from(JSON.stringify(json)), 0x20);
+
+  const chunks = [jsonChunk];
+  const headers = [CHUNK_JSON];
+  if (bin.length > 0) {
+    chunks.push(pad(bin, 0));
+    headers.push(CHUNK_BIN);
+  }
+
+  const header = Buffer.alloc(12);
+  header.writeUInt32LE(GLB_MAGIC, 0);
+  header.writeUInt32LE(2, 4);
+  const parts = [header];
+  chunks.forEach((chunk, index) => {
+    const chunkHeader = Buffer.alloc(8);
+    chunkHeader.writeUInt32LE(chunk.length, 0);
+    chunkHeader.writeUInt32LE(headers[index], 4);
+    parts.push(chunkHeader, chunk);
+  });
+
+  const glb = Buffer.concat(parts);
+  glb.writeUInt32LE(glb.length, 8);
+  return glb;
+}
+
+// A .gltf with its buffer inlined as a base64 data URI
+export async function writeGltf(doc: GltfDocument): Promise<Buffer> {
+  const { json, bin } = await packDocument(doc);
+  if (json.buffers) json.buffers[0].uri = `data:application/octet-stream;base64,${bin.toString("base64")}`;
+  return Buffer.from(JSON.stringify(json, null, 2));
+}
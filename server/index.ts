@@ -2,6 +2,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupStaticFiles } from "./static-files";
+import { JobQueue } from "./queue/job-queue";
+import { PipelineService } from "./pipeline-service";
+import { AssetService } from "./asset-service";
+import { initDatabase } from "./db";
 
 const app = express();
 app.use(express.json());
@@ -57,6 +61,9 @@ app.use((req, res, next) => {
   console.log(`[ENV] PROVIDER_3D: ${process.env.PROVIDER_3D}`);
   console.log(`[ENV] SIMULATE_WEBHOOKS: ${process.env.SIMULATE_WEBHOOKS}`);
   
+  // Create or upgrade tables before anything queries them
+  await initDatabase();
+
   // Set up static file serving with proper MIME types for 3D models
   setupStaticFiles(app);
   
@@ -90,5 +97,16 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Resume interrupted jobs and start claiming queued ones
+    JobQueue.start().catch((error) => {
+      console.error("[QUEUE] Failed to start job queue:", error);
+    });
+    PipelineService.start().catch((error) => {
+      console.error("[PIPELINE] Failed to start pipelines:", error);
+    });
+    AssetService.start().catch((error) => {
+      console.error("[ASSET] Failed to start asset library:", error);
+    });
   });
 })();
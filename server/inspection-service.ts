@@ -0,0 +1,93 @@
+// Model inspection: a report on each glTF a 3D job outputs, kept in the job's meta
+
+import { db, eq } from "./db";
+import { jobs, type Asset, type Job } from "@shared/schema";
+import { FileService } from "./file-service";
+import { contentTypeFor } from "./storage-backend/content-types";
+import { loadGltf } from "./gltf/loader";
+import { inspectDocument, type ModelInspection } from "./gltf/inspect";
+
+// Tools whose outputs are inspected as they complete; other models are inspected on request
+const INSPECTED_TOOLS = ["text2mesh", "texturing"];
+
+// Larger files are left uninspected rather than held in memory
+const MAX_INSPECT_BYTES = 100 * 1024 * 1024;
+
+export interface InspectionEntry {
+  url: string;
+  inspectedAt: string;
+  report: ModelInspection | null;
+  error: string | null; // Why the file couldn't be inspected
+}
+
+// The asset isn't a glTF model
+export class NotInspectableError extends Error {
+  constructor() {
+    super("Only glTF models can be inspected");
+    this.name = "NotInspectableError";
+  }
+}
+
+function isGltfUrl(url: string): boolean {
+  if (url.startsWith("data:")) return /^data:model\/gltf/.test(url);
+  let pathname = url;
+  try {
+    pathname = new URL(url, "http://localhost").pathname;
+  } catch {}
+  return contentTypeFor(pathname).startsWith("model/gltf");
+}
+
+export class InspectionService {
+  // Job meta with reports for the glTF outputs of an inspected tool added. Called before the
+  // completion is written; a file that can't be read is recorded, never thrown
+  static async withInspections(tool: string, assetUrls: string[] | null | undefined, meta: Record<string, any> | null | undefined): Promise<Record<string, any> | null> {
+    const models = INSPECTED_TOOLS.includes(tool) ? (assetUrls || []).filter(isGltfUrl) : [];
+    if (models.length === 0) return meta ?? null;
+
+    const inspections: InspectionEntry[] = [];
+    for (const url of models) {
+      inspections.push(await this.inspect(url));
+    }
+    return { ...meta, inspections };
+  }
+
+  // The stored report for an asset. It's inspected now, and the result stored, if its job
+  // completed before inspection existed, its tool isn't inspected on completion, or the last
+  // try failed
+  static async forAsset(asset: Asset): Promise<InspectionEntry> {
+    if (asset.kind !== "model" || !isGltfUrl(asset.url)) throw new NotInspectableError();
+
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, asset.jobId));
+    const others = this.storedEntries(job).filter(entry => entry.url !== asset.url);
+    const stored = this.storedEntries(job).find(entry => entry.url === asset.url);
+    if (stored?.report) return stored;
+
+    const entry = await this.inspect(asset.url);
+    if (job) {
+      const meta = job.meta as Record<string, any> | null;
+      await db.update(jobs)
+        .set({ meta: { ...meta, inspections: [...others, entry] } })
+        .where(eq(jobs.id, job.id));
+    }
+    return entry;
+  }
+
+  private static storedEntries(job: Job | undefined): InspectionEntry[] {
+    const inspections = (job?.meta as Record<string, any> | null)?.inspections;
+    return Array.isArray(inspections) ? inspections : [];
+  }
+
+  private static async inspect(url: string): Promise<InspectionEntry> {
+    const inspectedAt = new Date().toISOString();
+    try {
+      const data = await FileService.readFile(url, MAX_INSPECT_BYTES);
+      const report = await inspectDocument(await loadGltf(url, data));
+      console.log(`[INSPECT] ${url.slice(0, 80)}: ${report.triangles} triangles, ${report.watertight ? "watertight" : `${report.openEdges} open edges`}`);
+      return { url, inspectedAt, report, error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[INSPECT] Could not inspect ${url.slice(0, 80)}: ${message}`);
+      return { url, inspectedAt, report: null, error: message };
+    }
+  }
+}
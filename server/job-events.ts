@@ -0,0 +1,90 @@
+// In-process job event bus feeding the Server-Sent Events endpoints
+
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import type { Job, JobProgress } from "@shared/schema";
+import { viewUrl, viewUrls } from "./storage-backend/signed-urls";
+
+export interface JobEvent {
+  jobId: string;
+  userId: string;
+  tool: string;
+  pipelineId?: string | null;
+  status: string;
+  progress?: JobProgress | null;
+  assetUrls?: string[] | null;
+  previewImage?: string | null;
+  error?: string;
+  updatedAt: string;
+}
+
+type JobEventListener = (event: JobEvent) => void;
+
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+const KEEP_ALIVE_MS = 15_000;
+
+export class JobEvents {
+  private static emitter = new EventEmitter().setMaxListeners(0); // One listener per open stream
+
+  // Events only reach streams held by this process; clients re-read the job
+  // (or fall back to polling) when they reconnect, so nothing is lost for good
+  static publish(event: JobEvent): void {
+    this.emitter.emit("job", event);
+  }
+
+  // Publish the current state of a job row
+  static publishJob(job: Job, extra: Partial<JobEvent> = {}): void {
+    this.publish({ ...this.toEvent(job), ...extra });
+  }
+
+  static subscribe(listener: JobEventListener): () => void {
+    this.emitter.on("job", listener);
+    return () => {
+      this.emitter.off("job", listener);
+    };
+  }
+
+  static isTerminal(status: string): boolean {
+    return TERMINAL_STATUSES.includes(status);
+  }
+
+  static toEvent(job: Job): JobEvent {
+    const meta = job.meta as Record<string, any> | null;
+    return {
+      jobId: job.id,
+      userId: job.userId,
+      tool: job.tool,
+      pipelineId: job.pipelineId,
+      status: job.status,
+      assetUrls: job.assetUrls,
+      previewImage: job.previewImage,
+      progress: job.progress,
+      error: job.status === "failed" && meta?.error ? String(meta.error) : undefined,
+      updatedAt: job.updatedAt.toISOString(),
+    };
+  }
+
+  // Turn a response into an SSE stream; returns a send function and cleans up on disconnect
+  static openStream(req: Request, res: Response, onClose: () => void): (event: JobEvent) => void {
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering
+    res.flushHeaders();
+    res.write("retry: 3000\n\n");
+
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), KEEP_ALIVE_MS);
+
+    req.on("close", () => {
+      clearInterval(keepAlive);
+      onClose();
+    });
+
+    // Events carry stored URLs; the client gets links it can load
+    return (event: JobEvent) => {
+      const signed = { ...event, assetUrls: viewUrls(event.assetUrls), previewImage: viewUrl(event.previewImage) };
+      res.write(`event: job\ndata: ${JSON.stringify(signed)}\n\n`);
+    };
+  }
+}
@@ -1,14 +1,39 @@
 // Job service for managing AI generation jobs
 
+import crypto from "crypto";
 import { db } from "./db";
-import { jobs, toolCosts, toolSchema, type Tool, type Job, sessions, users } from "@shared/schema";
-import { eq, and, gt, desc, sql } from "./db";
-import { ProviderFactory } from "./providers/provider-factory";
+import {
+  jobs,
+  jobBatches,
+  toolCosts,
+  toolSchema,
+  sessions,
+  type Tool,
+  type Job,
+  type JobAttempt,
+  type JobBatch,
+  type JobProgress,
+  type BatchVariant,
+  textToImageParamsSchema,
+  resolveTextToImageParams,
+  meshProcessingOptionsSchema,
+} from "@shared/schema";
+import { eq, and, or, gt, asc, desc, sql, inArray, type Transaction } from "./db";
+import { ProviderFactory, getProviderConfig } from "./providers/provider-factory";
+import { isRetryable, backoffDelay, errorStatusOf } from "./providers/retry-policy";
+import { JobQueue } from "./queue/job-queue";
+import { CreditService } from "./credit-service";
+import { JobEvents } from "./job-events";
+import { AssetService } from "./asset-service";
+import { InspectionService } from "./inspection-service";
+import { isUploadUrl, isValidSignedUrl, canonicalUploadUrl } from "./storage-backend/signed-urls";
 import type { 
-  TextToImageRequest, 
-  TextTo3DRequest, 
-  TexturingRequest, 
-  ImageToVideoRequest,
+  ITextToImageProvider,
+  ITextTo3DProvider,
+  IImageTo3DProvider,
+  ITexturingProvider,
+  IImageToVideoProvider,
+  IMeshProcessingProvider,
   ProviderJob
 } from "./providers/types";
 
@@ -18,26 +43,91 @@ export interface CreateJobRequest {
   inputs?: any;
   userId: string;
   sessionId: string;
+  parentJobId?: string;
+  presetId?: string;
+}
+
+export interface RemixJobRequest {
+  prompt?: string;
+  inputs?: Record<string, any>; // Merged over the parent's inputs; null clears an inherited value
+  userId: string;
+  sessionId: string;
+}
+
+export interface CreateBatchRequest {
+  tool: Tool;
+  prompt: string;
+  inputs?: Record<string, any>;
+  count?: number;
+  variants?: BatchVariant[];
+  presetId?: string;
+  template?: string; // Bulk runs keep their template and rows so results can be exported per row
+  rows?: Record<string, string>[];
+  userId: string;
+  sessionId: string;
+}
+
+// Tools that count towards the hourly heavy job limit
+const HEAVY_TOOLS: Tool[] = ["text2mesh", "img2mesh", "texturing", "img2video"];
+export const HEAVY_JOBS_PER_HOUR = 5;
+
+const randomSeed = () => crypto.randomInt(0, 2 ** 31);
+
+function withoutNulls(values: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null));
+}
+
+// Active statuses once a job may be with a provider; a waiting pipeline step isn't yet
+export const PROVIDER_ACTIVE_STATUSES = ["queued", "processing"];
+
+// Statuses a job can still be cancelled, completed or failed from
+export const ACTIVE_STATUSES = ["waiting", ...PROVIDER_ACTIVE_STATUSES];
+
+// How one provider attempt ended; "stopped" means cancelled, finished elsewhere or taken over
+type AttemptResult =
+  | { outcome: "completed"; providerJob: ProviderJob }
+  | { outcome: "failed"; error: string; errorStatus?: number }
+  | { outcome: "stopped" };
+
+export class JobNotCancellableError extends Error {
+  constructor(status: string) {
+    super(`Job is already ${status}`);
+    this.name = "JobNotCancellableError";
+  }
+}
+
+// The asset a mesh processing job names isn't one of the user's models
+export class SourceAssetNotFoundError extends Error {
+  constructor() {
+    super("Model asset not found");
+    this.name = "SourceAssetNotFoundError";
+  }
 }
 
 export class JobService {
   // Check if user has enough credits
   static async checkCredits(userId: string, tool: Tool): Promise<boolean> {
-    const cost = toolCosts[tool];
-    const [user] = await db.select({ credits: users.credits }).from(users).where({ column: 'id', value: userId });
-    return user && user.credits >= cost;
+    return (await CreditService.getBalance(userId)) >= toolCosts[tool];
   }
 
-  // Check rate limits for heavy jobs
-  static async checkRateLimit(userId: string, sessionId: string, tool: Tool): Promise<boolean> {
-    const heavyJobs: Tool[] = ["text2mesh", "texturing", "img2video"];
-    if (!heavyJobs.includes(tool)) return true;
+  static isHeavyTool(tool: Tool): boolean {
+    return HEAVY_TOOLS.includes(tool);
+  }
+
+  // Check rate limits for heavy jobs, for jobCount new jobs of a tool
+  static async checkRateLimit(userId: string, sessionId: string, tool: Tool, jobCount: number = 1): Promise<boolean> {
+    return !this.isHeavyTool(tool) || this.checkHeavyJobLimit(userId, sessionId, jobCount);
+  }
+
+  // Whether heavyJobs more heavy jobs fit in the session's hourly allowance
+  static async checkHeavyJobLimit(userId: string, sessionId: string, heavyJobs: number): Promise<boolean> {
+    if (heavyJobs === 0) return true;
 
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
     
     // Get or create session
     let [session] = await db.select().from(sessions).where(
-      and({ column: 'userId', value: userId }, { column: 'id', value: sessionId })
+      and(eq(sessions.userId, userId), eq(sessions.id, sessionId))
     );
 
     if (!session) {
@@ -55,16 +145,35 @@ export class JobService {
           heavyJobsThisHour: 0,
           lastHeavyJobAt: new Date()
         })
-        .where({ column: 'id', value: sessionId });
-      return true;
+        .where(eq(sessions.id, sessionId));
+      return heavyJobs <= HEAVY_JOBS_PER_HOUR;
+    }
+
+    return session.heavyJobsThisHour + heavyJobs <= HEAVY_JOBS_PER_HOUR;
+  }
+
+  // Update heavy job counter for rate limiting
+  private static async countHeavyJobs(tx: Transaction, userId: string, sessionId: string, tool: Tool, jobCount: number): Promise<void> {
+    if (this.isHeavyTool(tool)) {
+      await this.recordHeavyJobs(tx, userId, sessionId, jobCount);
     }
+  }
 
-    return session.heavyJobsThisHour < 5;
+  // Add heavy jobs of any mix of tools to the session's counter
+  static async recordHeavyJobs(tx: Transaction, userId: string, sessionId: string, jobCount: number): Promise<void> {
+    if (jobCount === 0) return;
+
+    await tx.update(sessions)
+      .set({ 
+        heavyJobsThisHour: sql`${sessions.heavyJobsThisHour} + ${jobCount}`,
+        lastHeavyJobAt: new Date()
+      })
+      .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)));
   }
 
   // Create and start a job
   static async createJob(request: CreateJobRequest): Promise<Job> {
-    const { tool, prompt, inputs, userId, sessionId } = request;
+    const { tool, prompt, inputs, userId, sessionId, parentJobId, presetId } = request;
     const cost = toolCosts[tool];
 
     // Validate tool
@@ -72,6 +181,11 @@ export class JobService {
       throw new Error(`Invalid tool: ${tool}`);
     }
 
+    const resolvedInputs = this.resolveInputs(tool, await this.resolveSources(tool, inputs, userId));
+    if (tool === "meshprocess" && !resolvedInputs.modelUrl) {
+      throw new Error("A model asset is required for mesh optimization");
+    }
+
     // Check credits
     if (!(await this.checkCredits(userId, tool))) {
       throw new Error(`Insufficient credits. ${tool} costs ${cost} credits.`);
@@ -79,175 +193,487 @@ export class JobService {
 
     // Check rate limits
     if (!(await this.checkRateLimit(userId, sessionId, tool))) {
-      throw new Error("Rate limit exceeded. Maximum 5 heavy jobs per hour.");
+      throw new Error(`Rate limit exceeded. Maximum ${HEAVY_JOBS_PER_HOUR} heavy jobs per hour.`);
     }
 
-    // Deduct credits atomically
-    await db.transaction(async (tx) => {
-      const [user] = await tx.select().from(users).where({ column: 'id', value: userId });
-      if (!user || user.credits < cost) {
-        throw new Error("Insufficient credits");
-      }
-      
-      await tx.update(users)
-        .set({ credits: user.credits - cost })
-        .where({ column: 'id', value: userId });
-    });
-
-    // Create job record and update heavy job counter if needed
+    // Create job record, charge it and update heavy job counter in one transaction
     const job = await db.transaction(async (tx) => {
       const [newJob] = await tx.insert(jobs).values({
         tool,
         prompt,
-        inputs: inputs || null,
+        inputs: resolvedInputs,
         status: "queued",
         userId,
         sessionId,
         creditsUsed: cost,
-        provider: this.getProviderName(tool),
+        provider: ProviderFactory.getProviderChain(tool)[0],
+        parentJobId: parentJobId || null,
+        presetId: presetId || null,
       }).returning();
 
-      // Update heavy job counter for rate limiting
-      const heavyJobs: Tool[] = ["text2mesh", "texturing", "img2video"];
-      if (heavyJobs.includes(tool)) {
-        await tx.update(sessions)
-          .set({ 
-            heavyJobsThisHour: sql`${sessions.heavyJobsThisHour} + 1`,
-            lastHeavyJobAt: new Date()
-          })
-          .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)));
-      }
+      await CreditService.chargeJob(tx, newJob);
+      await this.countHeavyJobs(tx, userId, sessionId, tool, 1);
 
       return newJob;
     });
 
-    // Start the job asynchronously
-    this.startJob(job.id).catch(console.error);
+    // Hand the job to the queue; a worker claims it when a slot for this tool frees up
+    JobEvents.publishJob(job);
+    JobQueue.notify();
 
     return job;
   }
 
-  // Start job processing
-  private static async startJob(jobId: string): Promise<void> {
-    try {
-      const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
-      if (!job) throw new Error("Job not found");
+  // Re-run one of the user's jobs with tweaks; the new job records its parent
+  static async remixJob(parentJobId: string, request: RemixJobRequest): Promise<Job | null> {
+    const parent = await this.getJob(parentJobId);
+    if (!parent || parent.userId !== request.userId) return null;
+
+    const inherited = (parent.inputs as Record<string, any> | null) || {};
+    const overrides = request.inputs || {};
+    const options = withoutNulls({ ...inherited.options, ...overrides.options });
+    const inputs = withoutNulls({ ...inherited, ...overrides, options });
+
+    return this.createJob({
+      tool: parent.tool as Tool,
+      prompt: request.prompt?.trim() || parent.prompt,
+      inputs,
+      userId: request.userId,
+      sessionId: request.sessionId,
+      parentJobId: parent.id,
+    });
+  }
+
+  // Create a batch of variations as child jobs, charged all together or not at all
+  static async createBatch(request: CreateBatchRequest): Promise<{ batch: JobBatch; jobs: Job[] }> {
+    const { tool, prompt, count, variants, presetId, template, rows, userId, sessionId } = request;
+    const cost = toolCosts[tool];
+    const inputs = await this.resolveSources(tool, request.inputs, userId);
+    if (tool === "meshprocess" && !inputs.modelUrl) {
+      throw new Error("A model asset is required for mesh optimization");
+    }
 
-      // Update status to processing
-      await db.update(jobs)
-        .set({ status: "processing", updatedAt: new Date() })
-        .where({ column: 'id', value: jobId });
+    // Every variation gets its own seed so it can be reproduced later: the variant's,
+    // else consecutive seeds from a base seed in inputs, else a random one
+    const baseSeed: number | undefined = inputs?.options?.seed;
+    const specs = (variants || Array.from({ length: count || 1 }, (): BatchVariant => ({}))).map((variant, index) => ({
+      prompt: variant.prompt || prompt,
+      inputs: this.resolveInputs(tool, {
+        ...inputs,
+        options: {
+          ...inputs?.options,
+          ...variant.options,
+          seed: variant.seed ?? (baseSeed !== undefined ? baseSeed + index : randomSeed()),
+        },
+      }),
+    }));
+    const total = cost * specs.length;
+
+    if ((await CreditService.getBalance(userId)) < total) {
+      throw new Error(`Insufficient credits. ${specs.length} × ${tool} costs ${total} credits.`);
+    }
 
-      // Route to appropriate provider
-      const providerJob = await this.routeToProvider(job);
+    if (!(await this.checkRateLimit(userId, sessionId, tool, specs.length))) {
+      throw new Error(`Rate limit exceeded. Maximum ${HEAVY_JOBS_PER_HOUR} heavy jobs per hour.`);
+    }
 
-      // Store provider job ID
-      await db.update(jobs)
-        .set({ 
-          providerJobId: providerJob.id,
-          updatedAt: new Date()
-        })
-        .where({ column: 'id', value: jobId });
+    const provider = ProviderFactory.getProviderChain(tool)[0];
 
-      // Start polling for completion (if not immediate)
-      if (providerJob.status !== "completed") {
-        this.pollJobStatus(jobId, providerJob.id).catch(console.error);
-      } else {
-        await this.completeJob(jobId, providerJob);
+    const result = await db.transaction(async (tx) => {
+      const [batch] = await tx.insert(jobBatches).values({
+        userId,
+        tool,
+        prompt,
+        count: specs.length,
+        creditsUsed: total,
+        template: template || null,
+        rows: rows || null,
+      }).returning();
+
+      const children = await tx.insert(jobs).values(specs.map((spec, index) => ({
+        tool,
+        prompt: spec.prompt,
+        inputs: spec.inputs,
+        status: "queued",
+        userId,
+        sessionId,
+        creditsUsed: cost,
+        provider,
+        batchId: batch.id,
+        batchIndex: index,
+        presetId: presetId || null,
+      }))).returning();
+
+      // A failed charge part-way through rolls back the batch and every charge before it
+      for (const child of children) {
+        await CreditService.chargeJob(tx, child);
+      }
+      await this.countHeavyJobs(tx, userId, sessionId, tool, children.length);
+
+      return { batch, jobs: children };
+    });
+
+    console.log(`[BATCH] Created batch ${result.batch.id} with ${result.jobs.length} ${tool} job(s)`);
+    for (const job of result.jobs) {
+      JobEvents.publishJob(job);
+    }
+    JobQueue.notify();
+
+    return result;
+  }
+
+  // Pin down tool parameters at creation so retries, failovers and reruns use the same values
+  static resolveInputs(tool: Tool, inputs: any): any {
+    if (tool === "meshprocess") return this.resolveMeshProcessingInputs(inputs);
+    if (tool !== "text2image") return inputs || null;
+
+    const params = textToImageParamsSchema.safeParse(inputs?.options || {});
+    if (!params.success) {
+      const issue = params.error.errors[0];
+      throw new Error(`Invalid image parameter ${issue?.path.join(".")}: ${issue?.message}`);
+    }
+
+    return { ...inputs, options: resolveTextToImageParams(params.data, randomSeed) };
+  }
+
+  // Look up and check the stored files a job reads. Mesh processing reads its model on the
+  // server, so the request names one of the user's model assets and its URL is looked up here;
+  // a modelUrl sent by the client is dropped. Without an asset, a pipeline step gets its model
+  // from the step before it
+  static async resolveSources(tool: Tool, inputs: any, userId: string): Promise<any> {
+    if (tool !== "meshprocess") return this.resolveUploadUrls(inputs, userId);
+
+    const { modelUrl, ...rest } = inputs || {};
+    if (rest.assetId === undefined) return rest;
+
+    const asset = typeof rest.assetId === "string" ? await AssetService.getAsset(rest.assetId, userId) : null;
+    if (!asset || asset.kind !== "model" || asset.status === "unavailable") {
+      throw new SourceAssetNotFoundError();
+    }
+    return { ...rest, modelUrl: asset.url };
+  }
+
+  // Stored files given as image/model inputs are kept without their signature. One is only
+  // accepted with a valid signature, which the API only hands to the file's owner, or when it
+  // is already one of the user's job inputs or outputs (remixes, presets, expired links)
+  private static async resolveUploadUrls(inputs: any, userId: string): Promise<any> {
+    if (!inputs || typeof inputs !== "object") return inputs;
+
+    const resolved = { ...inputs };
+    for (const field of ["imageUrl", "modelUrl"]) {
+      const url = resolved[field];
+      if (typeof url !== "string" || !isUploadUrl(url)) continue;
+
+      resolved[field] = canonicalUploadUrl(url);
+      if (!isValidSignedUrl(url) && !(await this.userHasFile(userId, resolved[field]))) {
+        throw new Error(`${field} links to a file that isn't yours`);
+      }
+    }
+    return resolved;
+  }
+
+  private static async userHasFile(userId: string, url: string): Promise<boolean> {
+    const [match] = await db.select({ id: jobs.id }).from(jobs).where(and(
+      eq(jobs.userId, userId),
+      or(
+        sql`${jobs.assetUrls} @> ${JSON.stringify([url])}::jsonb`,
+        eq(jobs.previewImage, url),
+        sql`${jobs.inputs}->>'imageUrl' = ${url}`,
+        sql`${jobs.inputs}->>'modelUrl' = ${url}`,
+      ),
+    )).limit(1);
+    return !!match;
+  }
+
+  private static resolveMeshProcessingInputs(inputs: any): any {
+    const options = meshProcessingOptionsSchema.safeParse(inputs?.options || {});
+    if (!options.success) {
+      const issue = options.error.errors[0];
+      throw new Error(`Invalid mesh processing option ${issue?.path.join(".")}: ${issue?.message}`);
+    }
+
+    // Most detailed level first
+    return { ...inputs, options: { ...options.data, lods: [...options.data.lods].sort((a, b) => b - a) } };
+  }
+
+  // Run a job claimed by a queue worker until it reaches a terminal state
+  static async processJob(job: Job): Promise<void> {
+    await this.runProviderChain(job, [...(job.attempts || [])]);
+  }
+
+  // Pick up a job another worker (or a previous process) left in "processing"
+  static async resumeJob(job: Job): Promise<void> {
+    const attempts = [...(job.attempts || [])];
+    let current = attempts[attempts.length - 1];
+
+    if (!job.providerJobId || !job.provider) {
+      // Never reached the provider, so there is nothing to re-poll; count it as a failed try
+      if (current?.status === "running") {
+        Object.assign(current, { status: "failed", error: "Interrupted before reaching the provider", errorStatus: 0, finishedAt: new Date().toISOString() });
+      }
+      await this.runProviderChain(job, attempts);
+      return;
+    }
+
+    if (current?.status !== "running") {
+      // Jobs started before attempts were recorded
+      current = { provider: job.provider, attempt: 1, providerJobId: job.providerJobId, status: "running", startedAt: job.updatedAt.toISOString() };
+      attempts.push(current);
+    }
+
+    console.log(`[QUEUE] Resuming job ${job.id} via provider job ${job.providerJobId}`);
+    const result = await this.pollJobStatus(job, job.provider, job.providerJobId);
+    if (await this.settleAttempt(job, current, attempts, result) === "failed") {
+      await this.runProviderChain(job, attempts);
+    }
+  }
+
+  // Walk the tool's provider chain: retry retryable failures with backoff, then fail over
+  private static async runProviderChain(job: Job, attempts: JobAttempt[]): Promise<void> {
+    const tool = job.tool as Tool;
+    const policy = getProviderConfig().retry[tool];
+
+    for (const provider of ProviderFactory.getProviderChain(tool)) {
+      for (;;) {
+        const tries = attempts.filter(attempt => attempt.provider === provider);
+        const last = tries[tries.length - 1];
+        if (last && (tries.length >= policy.maxAttempts || !isRetryable(policy, last))) break;
+
+        if (last) {
+          const delay = backoffDelay(policy, tries.length);
+          console.log(`[RETRY] Job ${job.id}: ${provider} attempt ${tries.length} failed (${last.error}), retrying in ${delay}ms`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        } else if (attempts.length > 0) {
+          console.log(`[RETRY] Job ${job.id}: failing over to ${provider}`);
+        }
+
+        // Stop if the job was cancelled or another worker took it over
+        if (!(await JobQueue.ownsLease(job.id))) return;
+
+        if (await this.runAttempt(job, provider, tries.length + 1, attempts) !== "failed") return;
+      }
+    }
+
+    const last = attempts[attempts.length - 1];
+    await this.failJob(job.id, last?.error || "No provider available", attempts);
+  }
+
+  // Submit the job to one provider and follow it until it settles
+  private static async runAttempt(
+    job: Job,
+    provider: string,
+    attemptNumber: number,
+    attempts: JobAttempt[]
+  ): Promise<AttemptResult["outcome"]> {
+    const attempt: JobAttempt = { provider, attempt: attemptNumber, status: "running", startedAt: new Date().toISOString() };
+    attempts.push(attempt);
+
+    if (!(await this.saveAttempts(job.id, attempts, { provider, providerJobId: null, progress: null }))) {
+      return "stopped";
+    }
+
+    let result: AttemptResult;
+    try {
+      const providerJob = await this.routeToProvider(job, provider);
+      // A rejected submission gets a placeholder ID with no upstream job behind it
+      if (providerJob.status !== "failed") attempt.providerJobId = providerJob.id;
+
+      // Store provider job ID so the job can be re-polled after a restart
+      const started = await this.saveAttempts(job.id, attempts, {
+        providerJobId: providerJob.id,
+        progress: providerJob.progress ?? null,
+      });
+
+      // Cancelled while the provider request was in flight
+      if (!started) {
+        await this.cancelAtProvider(job.tool as Tool, provider, providerJob.id);
+        return "stopped";
       }
 
+      if (providerJob.status === "completed") {
+        result = { outcome: "completed", providerJob };
+      } else if (providerJob.status === "failed") {
+        result = { outcome: "failed", error: providerJob.error || "Provider job failed", errorStatus: providerJob.errorStatus };
+      } else {
+        result = await this.pollJobStatus(job, provider, providerJob.id);
+      }
     } catch (error) {
-      console.error("Error starting job:", error);
-      await this.failJob(jobId, error instanceof Error ? error.message : "Unknown error");
+      console.error(`Error starting job on ${provider}:`, error);
+      result = {
+        outcome: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorStatus: errorStatusOf(error),
+      };
     }
+
+    return this.settleAttempt(job, attempt, attempts, result);
+  }
+
+  // Record how an attempt ended; completion finishes the job, failure leaves the next step to the chain
+  private static async settleAttempt(
+    job: Job,
+    attempt: JobAttempt,
+    attempts: JobAttempt[],
+    result: AttemptResult
+  ): Promise<AttemptResult["outcome"]> {
+    if (result.outcome === "stopped") return "stopped";
+
+    attempt.finishedAt = new Date().toISOString();
+
+    if (result.outcome === "completed") {
+      attempt.status = "completed";
+      await this.completeJob(job, result.providerJob, attempts);
+      return "completed";
+    }
+
+    Object.assign(attempt, { status: "failed", error: result.error, errorStatus: result.errorStatus });
+
+    // Timeouts and polling errors may leave work running upstream; stop it before trying again
+    if (result.errorStatus === 0 && attempt.providerJobId) {
+      await this.cancelAtProvider(job.tool as Tool, attempt.provider, attempt.providerJobId);
+    }
+
+    return (await this.saveAttempts(job.id, attempts)) ? "failed" : "stopped";
+  }
+
+  // Persist the attempt log (and provider fields) while the job is still running
+  private static async saveAttempts(
+    jobId: string,
+    attempts: JobAttempt[],
+    fields: Partial<Pick<Job, "provider" | "providerJobId" | "progress">> = {}
+  ): Promise<boolean> {
+    const [updated] = await db.update(jobs)
+      .set({ ...fields, attempts, updatedAt: new Date() })
+      .where(and(eq(jobs.id, jobId), eq(jobs.status, "processing")))
+      .returning({ id: jobs.id });
+    return !!updated;
   }
 
   // Route job to appropriate provider
-  private static async routeToProvider(job: Job): Promise<ProviderJob> {
+  private static async routeToProvider(job: Job, providerName: string): Promise<ProviderJob> {
     const inputs = job.inputs as any || {};
+    const provider = this.getProvider(job.tool as Tool, providerName);
     
     switch (job.tool) {
       case "text2image":
-        const imageProvider = ProviderFactory.createTextToImageProvider();
-        return imageProvider.generateImage({
+        return (provider as ITextToImageProvider).generateImage({
           prompt: job.prompt,
           options: inputs.options
         });
 
       case "text2mesh":
-        const meshProvider = ProviderFactory.createTextTo3DProvider();
-        return meshProvider.generateMesh({
+        return (provider as ITextTo3DProvider).generateMesh({
+          prompt: job.prompt,
+          options: inputs.options
+        });
+
+      case "img2mesh":
+        return (provider as IImageTo3DProvider).generateMeshFromImage({
+          imageUrl: inputs.imageUrl,
           prompt: job.prompt,
           options: inputs.options
         });
 
       case "texturing":
-        const texturingProvider = ProviderFactory.createTexturingProvider();
-        return texturingProvider.generateTextures({
+        return (provider as ITexturingProvider).generateTextures({
           modelUrl: inputs.modelUrl,
           prompt: job.prompt,
           options: inputs.options
         });
 
       case "img2video":
-        const videoProvider = ProviderFactory.createImageToVideoProvider();
-        return videoProvider.generateVideo({
+        return (provider as IImageToVideoProvider).generateVideo({
           imageUrl: inputs.imageUrl,
           prompt: job.prompt,
           options: inputs.options
         });
 
+      case "meshprocess":
+        return (provider as IMeshProcessingProvider).processMesh({
+          modelUrl: inputs.modelUrl,
+          options: inputs.options
+        });
+
       default:
         throw new Error(`Unsupported tool: ${job.tool}`);
     }
   }
 
   // Poll job status for async providers
-  private static async pollJobStatus(jobId: string, providerJobId: string): Promise<void> {
+  private static async pollJobStatus(job: Job, providerName: string, providerJobId: string): Promise<AttemptResult> {
+    const jobId = job.id;
     const maxAttempts = 60; // 5 minutes at 5 second intervals
-    let attempts = 0;
+    const maxPollErrors = getProviderConfig().retry[job.tool as Tool].maxAttempts;
+    let lastProgress: string | null = null;
+    let pollErrors = 0;
+
+    for (let attempts = 1; attempts <= maxAttempts; attempts++) {
+      await new Promise(resolve => setTimeout(resolve, 5000));
 
-    const poll = async (): Promise<void> => {
       try {
-        attempts++;
-        
-        const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
-        if (!job) return;
+        // Stop if a webhook already finished the job or another worker took it over
+        if (!(await JobQueue.ownsLease(jobId))) return { outcome: "stopped" };
 
-        const provider = this.getProvider(job.tool as Tool);
+        const provider = this.getProvider(job.tool as Tool, providerName);
         const providerJob = await provider.getJobStatus(providerJobId);
+        pollErrors = 0;
 
         console.log(`[POLL DEBUG] Job ${jobId}, Provider Job ${providerJobId}, Status: ${providerJob.status}, Attempt: ${attempts}`);
         
         if (providerJob.status === "completed") {
           console.log(`[POLL DEBUG] Completing job ${jobId} with result:`, providerJob.result);
-          await this.completeJob(jobId, providerJob);
+          return { outcome: "completed", providerJob };
         } else if (providerJob.status === "failed") {
-          await this.failJob(jobId, providerJob.error || "Provider job failed");
-        } else if (attempts < maxAttempts) {
-          // Continue polling
-          setTimeout(poll, 5000);
-        } else {
-          await this.failJob(jobId, "Job timed out");
+          return { outcome: "failed", error: providerJob.error || "Provider job failed", errorStatus: providerJob.errorStatus };
+        }
+
+        // Persist and push progress only when it moved
+        const progress = providerJob.progress ? JSON.stringify(providerJob.progress) : null;
+        if (progress && progress !== lastProgress) {
+          lastProgress = progress;
+          await this.updateProgress(jobId, providerJob.progress!);
         }
       } catch (error) {
-        console.error("Error polling job status:", error);
-        await this.failJob(jobId, "Polling error");
+        // A blip while polling doesn't mean the provider job failed; give up after a few in a row
+        pollErrors++;
+        console.error(`Error polling job status (${pollErrors}/${maxPollErrors}):`, error);
+        if (pollErrors >= maxPollErrors) {
+          return {
+            outcome: "failed",
+            error: `Polling error: ${error instanceof Error ? error.message : "Unknown error"}`,
+            errorStatus: errorStatusOf(error),
+          };
+        }
       }
-    };
+    }
+
+    return { outcome: "failed", error: "Job timed out", errorStatus: 0 };
+  }
+
+  // Record provider progress on the job row and notify subscribers
+  private static async updateProgress(jobId: string, progress: JobProgress): Promise<void> {
+    const [job] = await db.update(jobs)
+      .set({ progress, updatedAt: new Date() })
+      .where(and(eq(jobs.id, jobId), eq(jobs.status, "processing")))
+      .returning();
 
-    setTimeout(poll, 5000);
+    if (job) JobEvents.publishJob(job);
   }
 
   // Complete a job
-  private static async completeJob(jobId: string, providerJob: ProviderJob): Promise<void> {
+  private static async completeJob(job: Job, providerJob: ProviderJob, attempts: JobAttempt[]): Promise<void> {
+    const jobId = job.id;
     try {
       console.log(`[COMPLETE DEBUG] Starting job completion for ${jobId}`);
       
       const updateData: any = {
         status: "completed",
         assetUrls: providerJob.result?.assetUrls || null,
-        meta: providerJob.result?.meta || null,
+        meta: await InspectionService.withInspections(job.tool, providerJob.result?.assetUrls, providerJob.result?.meta),
+        progress: { percent: 100, stage: "completed", etaSeconds: 0 },
+        attempts,
+        leaseOwner: null,
+        leaseExpiresAt: null,
         updatedAt: new Date()
       };
 
@@ -258,10 +684,16 @@ export class JobService {
 
       console.log(`[COMPLETE DEBUG] Update data:`, updateData);
 
-      await db.update(jobs)
+      // Guarded so a cancelled job stays cancelled
+      const [completed] = await db.update(jobs)
         .set(updateData)
-        .where({ column: 'id', value: jobId });
-        
+        .where(and(eq(jobs.id, jobId), inArray(jobs.status, ACTIVE_STATUSES)))
+        .returning();
+      if (completed) {
+        await AssetService.recordJob(completed);
+        JobEvents.publishJob(completed);
+      }
+
       console.log(`[COMPLETE DEBUG] Successfully completed job ${jobId}`);
     } catch (error) {
       console.error(`[COMPLETE ERROR] Failed to complete job ${jobId}:`, error);
@@ -270,67 +702,93 @@ export class JobService {
   }
 
   // Fail a job and refund credits
-  private static async failJob(jobId: string, error: string): Promise<void> {
+  static async failJob(jobId: string, error: string, attempts?: JobAttempt[]): Promise<void> {
     const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
     if (!job) return;
 
-    // Refund credits
-    await db.transaction(async (tx) => {
-      // Get current credits first
-      const [user] = await tx.select().from(users).where(eq(users.id, job.userId));
-      if (user) {
-        await tx.update(users)
-          .set({ credits: user.credits + job.creditsUsed })
-          .where(eq(users.id, job.userId));
-      }
-
-      await tx.update(jobs)
+    // Refund credits (idempotent, so a webhook failing the same job can't refund twice)
+    const failed = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(jobs)
         .set({
           status: "failed",
           meta: { error },
+          ...(attempts ? { attempts } : {}),
+          leaseOwner: null,
+          leaseExpiresAt: null,
           updatedAt: new Date()
         })
-        .where(eq(jobs.id, jobId));
+        .where(and(eq(jobs.id, jobId), inArray(jobs.status, ACTIVE_STATUSES)))
+        .returning();
+
+      // Already finished or cancelled, which settled the credits
+      if (!updated) return null;
+
+      await CreditService.refundJob(tx, job, error);
+      return updated;
     });
+
+    if (failed) JobEvents.publishJob(failed);
   }
 
-  // Get provider for a tool
-  private static getProvider(tool: Tool): any {
-    switch (tool) {
-      case "text2image":
-        return ProviderFactory.createTextToImageProvider();
-      case "text2mesh":
-        return ProviderFactory.createTextTo3DProvider();
-      case "texturing":
-        return ProviderFactory.createTexturingProvider();
-      case "img2video":
-        return ProviderFactory.createImageToVideoProvider();
-      default:
-        throw new Error(`Unknown tool: ${tool}`);
+  // Cancel a queued or processing job on behalf of its owner and refund it
+  static async cancelJob(jobId: string, userId: string): Promise<Job | null> {
+    const [job] = await db.select().from(jobs).where(and(eq(jobs.id, jobId), eq(jobs.userId, userId)));
+    if (!job) return null;
+
+    const cancelled = await db.transaction(async (tx) => {
+      // Releasing the lease makes the polling worker stop at its next check
+      const [updated] = await tx.update(jobs)
+        .set({
+          status: "cancelled",
+          meta: { ...(job.meta as Record<string, any> | null), cancelledAt: new Date().toISOString() },
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          updatedAt: new Date()
+        })
+        .where(and(eq(jobs.id, jobId), inArray(jobs.status, ACTIVE_STATUSES)))
+        .returning();
+
+      if (!updated) return null;
+
+      await CreditService.refundJob(tx, updated, "Cancelled by user");
+      return updated;
+    });
+
+    if (!cancelled) {
+      const current = await this.getJob(jobId);
+      throw new JobNotCancellableError(current?.status || job.status);
+    }
+
+    console.log(`[CANCEL] Job ${jobId} cancelled by user ${userId}`);
+    JobEvents.publishJob(cancelled);
+
+    // The refund stands even if the provider keeps running the job
+    if (cancelled.provider && cancelled.providerJobId) {
+      await this.cancelAtProvider(cancelled.tool as Tool, cancelled.provider, cancelled.providerJobId);
     }
+
+    return cancelled;
   }
 
-  // Get provider name for a tool
-  private static getProviderName(tool: Tool): string {
-    const config = {
-      text2image: process.env.PROVIDER_TEXT2IMAGE || "FLUX",
-      text2mesh: process.env.PROVIDER_3D || "SIM",
-      texturing: process.env.PROVIDER_TEXTURE || "SIM",
-      img2video: process.env.PROVIDER_VIDEO || "SIM",
-    };
+  // Ask the provider to stop work; not every provider supports it
+  private static async cancelAtProvider(tool: Tool, providerName: string, providerJobId: string): Promise<void> {
+    try {
+      const provider = this.getProvider(tool, providerName);
+      if (typeof provider.cancelJob === "function") {
+        await provider.cancelJob(providerJobId);
+      }
+    } catch (error) {
+      console.error(`[CANCEL] Provider cancellation failed for ${providerJobId}:`, error);
+    }
+  }
 
-    switch (tool) {
-      case "text2image":
-        return config.text2image;
-      case "text2mesh":
-        return config.text2mesh;
-      case "texturing":
-        return config.texturing;
-      case "img2video":
-        return config.img2video;
-      default:
-        return "SIM";
+  // Get a named provider for a tool
+  private static getProvider(tool: Tool, providerName: string): any {
+    const provider = ProviderFactory.createProviderByName(tool, providerName);
+    if (!provider) {
+      throw new Error(`Provider ${providerName} is not available for ${tool}`);
     }
+    return provider;
   }
 
   // Get job by ID
@@ -339,11 +797,33 @@ export class JobService {
     return job || null;
   }
 
-  // Get jobs for user
-  static async getUserJobs(userId: string, limit: number = 20, offset: number = 0): Promise<Job[]> {
+  // Get a user's batch with its child jobs in variant order
+  static async getBatch(batchId: string, userId: string): Promise<{ batch: JobBatch; jobs: Job[] } | null> {
+    const [batch] = await db.select().from(jobBatches)
+      .where(and(eq(jobBatches.id, batchId), eq(jobBatches.userId, userId)));
+    if (!batch) return null;
+
+    const children = await db.select().from(jobs)
+      .where(eq(jobs.batchId, batchId))
+      .orderBy(asc(jobs.batchIndex));
+
+    return { batch, jobs: children };
+  }
+
+  // Mark or unmark one of the user's jobs as a favourite
+  static async setFavorite(jobId: string, userId: string, isFavorite: boolean): Promise<Job | null> {
+    const [job] = await db.update(jobs)
+      .set({ isFavorite })
+      .where(and(eq(jobs.id, jobId), eq(jobs.userId, userId)))
+      .returning();
+    return job || null;
+  }
+
+  // Get jobs for user, optionally for a single tool
+  static async getUserJobs(userId: string, limit: number = 20, offset: number = 0, tool?: Tool): Promise<Job[]> {
     return db.select()
       .from(jobs)
-      .where(eq(jobs.userId, userId))
+      .where(tool ? and(eq(jobs.userId, userId), eq(jobs.tool, tool)) : eq(jobs.userId, userId))
       .orderBy(desc(jobs.createdAt))
       .limit(limit)
       .offset(offset);
@@ -0,0 +1,47 @@
+// Adding new binary data to a loaded glTF document
+
+import type { GltfDocument } from "../gltf/document";
+
+// Collects new buffer views in one extra buffer, attached to the document by `finish`
+export class BufferWriter {
+  private chunks: Buffer[] = [];
+  private byteLength = 0;
+  private readonly bufferIndex: number;
+
+  constructor(private doc: GltfDocument) {
+    this.bufferIndex = doc.buffers.length;
+  }
+
+  addView(data: Buffer, fields: Record<string, any> = {}): number {
+    const json = this.doc.json;
+    json.bufferViews = json.bufferViews || [];
+    json.bufferViews.push({ buffer: this.bufferIndex, byteOffset: this.byteLength, byteLength: data.length, ...fields });
+
+    // Views start on 4-byte boundaries so any component type can follow
+    const remainder = data.length % 4;
+    const padded = remainder === 0 ? data : Buffer.concat([data, Buffer.alloc(4 - remainder)]);
+    this.chunks.push(padded);
+    this.byteLength += padded.length;
+    return json.bufferViews.length - 1;
+  }
+
+  addAccessor(accessor: Record<string, any>): number {
+    const json = this.doc.json;
+    json.accessors = json.accessors || [];
+    json.accessors.push(accessor);
+    return json.accessors.length - 1;
+  }
+
+  finish(): void {
+    if (this.byteLength === 0) return;
+    this.doc.buffers.push(Buffer.concat(this.chunks));
+    this.doc.json.buffers = this.doc.json.buffers || [];
+    this.doc.json.buffers.push({ byteLength: this.byteLength });
+  }
+}
+
+// Declare an extension the file uses; required ones stop loaders that don't support it
+export function useExtension(json: Record<string, any>, name: string, required: boolean): void {
+  json.extensionsUsed = Array.from(new Set([...(json.extensionsUsed || []), name]));
+  if (required) json.extensionsRequired = Array.from(new Set([...(json.extensionsRequired || []), name]));
+}
@@ -0,0 +1,147 @@
+// KHR_draco_mesh_compression: each triangle primitive's geometry replaced by one Draco stream
+
+import draco3d, { type EncoderModule, type GeometryAttributeType } from "draco3d";
+import { readAccessor, type GltfDocument } from "../gltf/document";
+import { TRIANGLES } from "../gltf/scene";
+import { BufferWriter, useExtension } from "./buffer-writer";
+
+const EXTENSION = "KHR_draco_mesh_compression";
+
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+
+// Quantization bits per attribute type; the usual defaults for web delivery
+const QUANTIZATION: Record<string, number> = { POSITION: 14, NORMAL: 10, TEX_COORD: 12, COLOR: 8, GENERIC: 12 };
+
+// The encoder is a WebAssembly module, compiled once on first use
+let encoderModule: Promise<EncoderModule> | null = null;
+
+function getEncoderModule(): Promise<EncoderModule> {
+  if (!encoderModule) encoderModule = draco3d.createEncoderModule({});
+  return encoderModule;
+}
+
+function attributeType(draco: EncoderModule, name: string): GeometryAttributeType {
+  if (name === "POSITION") return draco.POSITION;
+  if (name === "NORMAL") return draco.NORMAL;
+  if (name.startsWith("TEXCOORD_")) return draco.TEX_COORD;
+  if (name.startsWith("COLOR_")) return draco.COLOR;
+  return draco.GENERIC;
+}
+
+interface EncodedPrimitive {
+  data: Buffer;
+  points: number; // Vertices after decoding, which Edgebreaker may split or merge
+  faces: number;
+  attributeIds: Record<string, number>;
+}
+
+function encodePrimitive(draco: EncoderModule, doc: GltfDocument, primitive: Record<string, any>): EncodedPrimitive | null {
+  const builder = new draco.MeshBuilder();
+  const mesh = new draco.Mesh();
+  const encoder = new draco.Encoder();
+  const output = new draco.DracoInt8Array();
+
+  try {
+    const vertexCount: number = doc.json.accessors[primitive.attributes.POSITION].count;
+    const indices = primitive.indices !== undefined
+      ? readAccessor(doc, primitive.indices).array as Uint32Array
+      : Uint32Array.from({ length: vertexCount }, (_, i) => i);
+    builder.AddFacesToMesh(mesh, Math.floor(indices.length / 3), indices);
+
+    const attributeIds: Record<string, number> = {};
+    for (const name of Object.keys(primitive.attributes)) {
+      const { array, itemSize, count } = readAccessor(doc, primitive.attributes[name]);
+      const type = attributeType(draco, name);
+      // Joint indices stay integers; everything else is encoded as floats and quantized
+      attributeIds[name] = name.startsWith("JOINTS_")
+        ? builder.AddUInt16Attribute(mesh, type, count, itemSize, Uint16Array.from(array))
+        : builder.AddFloatAttribute(mesh, type, count, itemSize, array instanceof Float32Array ? array : Float32Array.from(array));
+    }
+
+    for (const [name, bits] of Object.entries(QUANTIZATION)) {
+      encoder.SetAttributeQuantization((draco as any)[name], bits);
+    }
+    encoder.SetSpeedOptions(5, 5);
+    encoder.SetEncodingMethod(draco.MESH_EDGEBREAKER_ENCODING);
+    encoder.SetTrackEncodedProperties(true);
+
+    const length = encoder.EncodeMeshToDracoBuffer(mesh, output);
+    if (length <= 0) return null;
+
+    const data = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) data[i] = output.GetValue(i);
+    return {
+      data,
+      points: encoder.GetNumberOfEncodedPoints(),
+      faces: encoder.GetNumberOfEncodedFaces(),
+      attributeIds,
+    };
+  } finally {
+    draco.destroy(output);
+    draco.destroy(encoder);
+    draco.destroy(mesh);
+    draco.destroy(builder);
+  }
+}
+
+// Compress every triangle-list primitive in place and return what couldn't be. Morph targets
+// would have to follow Draco's vertex order, so primitives with them are left alone
+export async function compressDraco(doc: GltfDocument): Promise<string[]> {
+  const draco = await getEncoderModule();
+  const writer = new BufferWriter(doc);
+  const warnings: string[] = [];
+  let compressed = 0;
+
+  (doc.json.meshes || []).forEach((mesh: Record<string, any>, meshIndex: number) => {
+    (mesh.primitives || []).forEach((primitive: Record<string, any>, primitiveIndex: number) => {
+      if (primitive.attributes?.POSITION === undefined || (primitive.mode ?? TRIANGLES) !== TRIANGLES) return;
+
+      const label = `Mesh ${mesh.name || meshIndex} primitive ${primitiveIndex}`;
+      if (primitive.targets?.length) {
+        warnings.push(`${label} has morph targets, so it was left uncompressed`);
+        return;
+      }
+      const encoded = encodePrimitive(draco, doc, primitive);
+      if (!encoded) {
+        warnings.push(`${label} couldn't be Draco-encoded, so it was left uncompressed`);
+        return;
+      }
+
+      // The accessors keep their counts and bounds but no data; decoders fill them from the stream
+      for (const name of Object.keys(primitive.attributes)) {
+        const source = doc.json.accessors[primitive.attributes[name]];
+        const accessor: Record<string, any> = {
+          componentType: name.startsWith("JOINTS_") ? UNSIGNED_SHORT : FLOAT,
+          count: encoded.points,
+          type: source.type,
+        };
+        if (name === "POSITION") {
+          const { array } = readAccessor(doc, primitive.attributes[name]);
+          accessor.min = [Infinity, Infinity, Infinity];
+          accessor.max = [-Infinity, -Infinity, -Infinity];
+          for (let i = 0; i < array.length; i++) {
+            accessor.min[i % 3] = Math.min(accessor.min[i % 3], array[i]);
+            accessor.max[i % 3] = Math.max(accessor.max[i % 3], array[i]);
+          }
+        }
+        primitive.attributes[name] = writer.addAccessor(accessor);
+      }
+      primitive.indices = writer.addAccessor({
+        componentType: encoded.points > 0xffff ? UNSIGNED_INT : UNSIGNED_SHORT,
+        count: encoded.faces * 3,
+        type: "SCALAR",
+      });
+      primitive.extensions = {
+        ...primitive.extensions,
+        [EXTENSION]: { bufferView: writer.addView(encoded.data), attributes: encoded.attributeIds },
+      };
+      compressed++;
+    });
+  });
+
+  writer.finish();
+  if (compressed > 0) useExtension(doc.json, EXTENSION, true);
+  return warnings;
+}
@@ -0,0 +1,130 @@
+// KTX2 textures (KHR_texture_basisu), encoded with toktx from KTX-Software (TOKTX_PATH, or
+// "toktx" on the PATH). Normal maps get UASTC, which keeps their detail; other maps get the
+// smaller ETC1S
+
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { readImage, type GltfDocument } from "../gltf/document";
+import { useExtension } from "./buffer-writer";
+
+const EXTENSION = "KHR_texture_basisu";
+const TOKTX_TIMEOUT_MS = 120000;
+
+type TextureRole = "color" | "data" | "normal";
+
+export function getToktxPath(): string {
+  return process.env.TOKTX_PATH || "toktx";
+}
+
+class ToktxMissingError extends Error {
+  constructor() {
+    super("toktx is not installed; set TOKTX_PATH to transcode textures to KTX2");
+    this.name = "ToktxMissingError";
+  }
+}
+
+function runToktx(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const toktx = spawn(getToktxPath(), args);
+    let stderr = "";
+    const timer = setTimeout(() => toktx.kill("SIGKILL"), TOKTX_TIMEOUT_MS);
+
+    toktx.stderr.on("data", (chunk: Buffer) => { stderr += chunk.toString(); });
+    toktx.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === "ENOENT" ? new ToktxMissingError() : error);
+    });
+    toktx.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`toktx exited with ${code ?? "a timeout"}: ${stderr.trim().split("\n").pop() || "no output"}`));
+    });
+  });
+}
+
+// What each image holds, from the material slots that use it. Colour maps are sRGB, the rest
+// linear; an image used as a normal map anywhere is treated as one
+function imageRoles(json: Record<string, any>): Map<number, TextureRole> {
+  const roles = new Map<number, TextureRole>();
+  const rank: Record<TextureRole, number> = { color: 0, data: 1, normal: 2 };
+  const assign = (textureInfo: Record<string, any> | undefined, role: TextureRole) => {
+    const source = textureInfo ? json.textures?.[textureInfo.index]?.source : undefined;
+    if (source === undefined) return;
+    const current = roles.get(source);
+    if (!current || rank[role] > rank[current]) roles.set(source, role);
+  };
+
+  for (const material of json.materials || []) {
+    const pbr = material.pbrMetallicRoughness || {};
+    assign(pbr.baseColorTexture, "color");
+    assign(material.emissiveTexture, "color");
+    assign(pbr.metallicRoughnessTexture, "data");
+    assign(material.occlusionTexture, "data");
+    assign(material.normalTexture, "normal");
+  }
+  return roles;
+}
+
+function toktxArgs(role: TextureRole, output: string, input: string): string[] {
+  const encoding = role === "normal"
+    ? ["--encode", "uastc", "--uastc_quality", "2", "--zcmp", "19"]
+    : ["--encode", "etc1s", "--clevel", "1", "--qlevel", "128"];
+  return ["--t2", ...encoding, "--genmipmap", "--assign_oetf", role === "color" ? "srgb" : "linear", output, input];
+}
+
+// KTX2 versions of the document's textured images, by image index. Images that fail keep
+// their original encoding and are reported in `warnings`
+export async function transcodeTextures(doc: GltfDocument): Promise<{ images: Map<number, Buffer>; warnings: string[] }> {
+  const images = new Map<number, Buffer>();
+  const warnings: string[] = [];
+  const textured = new Set<number>((doc.json.textures || []).map((texture: Record<string, any>) => texture.source).filter((source: unknown) => source !== undefined));
+  if (textured.size === 0) return { images, warnings };
+
+  const roles = imageRoles(doc.json);
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "ktx2-"));
+  try {
+    for (const index of Array.from(textured)) {
+      const input = path.join(dir, `${index}.png`);
+      const output = path.join(dir, `${index}.ktx2`);
+      try {
+        // toktx only reads PNG and JPEG, so everything goes through PNG
+        await fs.writeFile(input, await sharp(await readImage(doc, index)).png().toBuffer());
+        await runToktx(toktxArgs(roles.get(index) ?? "color", output, input));
+        images.set(index, await fs.readFile(output));
+      } catch (error) {
+        if (error instanceof ToktxMissingError) {
+          warnings.push(`${error.message}. Textures were kept as they were`);
+          images.clear();
+          break;
+        }
+        warnings.push(`Image ${doc.json.images?.[index]?.name || index} kept its original encoding: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  if (images.size > 0) console.log(`[MESH] Transcoded ${images.size} texture(s) to KTX2`);
+  return { images, warnings };
+}
+
+// Point the document's textures at KTX2 images from `transcodeTextures`, in place
+export function useKtx2Images(json: Record<string, any>, images: Map<number, Buffer>): void {
+  if (images.size === 0) return;
+
+  images.forEach((data, index) => {
+    const image = json.images[index];
+    delete image.bufferView;
+    image.uri = `data:image/ktx2;base64,${data.toString("base64")}`;
+    image.mimeType = "image/ktx2";
+  });
+  for (const texture of json.textures || []) {
+    if (texture.source === undefined || !images.has(texture.source)) continue;
+    texture.extensions = { ...texture.extensions, [EXTENSION]: { source: texture.source } };
+    delete texture.source;
+  }
+  useExtension(json, EXTENSION, true);
+}
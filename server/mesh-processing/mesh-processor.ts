@@ -0,0 +1,84 @@
+// Mesh processing for delivery: LODs of a model at triangle budgets, each optionally compressed
+// and with KTX2 textures, stored as self-contained GLBs
+
+import crypto from "crypto";
+import type { MeshCompression, MeshProcessingOptions } from "@shared/schema";
+import { FileService } from "../file-service";
+import { getStorageBackend, assetUrlForKey } from "../storage-backend/backend-factory";
+import { contentTypeFor } from "../storage-backend/content-types";
+import { GltfError, type GltfDocument } from "../gltf/document";
+import { loadGltf } from "../gltf/loader";
+import { pruneDocument } from "../gltf/prune";
+import { encodeGlb, packDocument } from "../gltf/writer";
+import { geometryStats, simplifyDocument, type GeometryStats } from "./simplify";
+import { compressDraco } from "./draco";
+import { compressMeshopt } from "./meshopt";
+import { transcodeTextures, useKtx2Images } from "./ktx2";
+
+export interface LodResult extends GeometryStats {
+  budget: number; // Triangles asked for
+  sizeBytes: number;
+  url: string;
+}
+
+export interface MeshProcessingResult {
+  source: GeometryStats & { sizeBytes: number };
+  lods: LodResult[]; // Most detailed first
+  compression: MeshCompression;
+  textures: MeshProcessingOptions["textures"];
+  warnings: string[];
+}
+
+// A copy whose JSON and buffer list can be changed without touching the source
+function cloneDocument(doc: GltfDocument): GltfDocument {
+  return { json: structuredClone(doc.json), buffers: [...doc.buffers], resolve: doc.resolve };
+}
+
+export class MeshProcessor {
+  static async process(modelUrl: string, options: MeshProcessingOptions): Promise<MeshProcessingResult> {
+    const data = await FileService.readFile(modelUrl);
+    const source = await loadGltf(modelUrl, data);
+    const sourceStats = geometryStats(source);
+    if (sourceStats.triangles === 0) throw new GltfError("The model has no triangles to process");
+
+    const warnings: string[] = [];
+    const ktx2 = options.textures === "ktx2" ? await transcodeTextures(source) : null;
+    if (ktx2) warnings.push(...ktx2.warnings);
+
+    const storage = getStorageBackend();
+    const runId = crypto.randomUUID();
+    const lods: LodResult[] = [];
+
+    for (let level = 0; level < options.lods.length; level++) {
+      const budget = options.lods[level];
+      const doc = cloneDocument(source);
+
+      // Budgets at or above the source keep every triangle
+      if (budget < sourceStats.triangles) await simplifyDocument(doc, budget / sourceStats.triangles);
+      if (options.compression === "draco") {
+        const dracoWarnings = await compressDraco(doc);
+        if (level === 0) warnings.push(...dracoWarnings); // Every level has the same primitives
+      }
+      if (ktx2) useKtx2Images(doc.json, ktx2.images);
+      pruneDocument(doc.json);
+
+      const packed = await packDocument(doc);
+      const bin = options.compression === "meshopt" ? await compressMeshopt(packed.json, packed.bin) : packed.bin;
+      const glb = encodeGlb(packed.json, bin);
+
+      const key = `lod_${runId}_${level}.glb`;
+      await storage.put(key, glb, contentTypeFor(key));
+      const stats = geometryStats(doc);
+      lods.push({ budget, ...stats, sizeBytes: glb.length, url: assetUrlForKey(key) });
+      console.log(`[MESH] LOD ${level}: ${stats.triangles} of ${sourceStats.triangles} triangles (${Math.round(glb.length / 1024)} KB): ${key}`);
+    }
+
+    return {
+      source: { ...sourceStats, sizeBytes: data.length },
+      lods,
+      compression: options.compression,
+      textures: options.textures,
+      warnings,
+    };
+  }
+}
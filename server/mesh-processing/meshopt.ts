@@ -0,0 +1,107 @@
+// EXT_meshopt_compression: vertex and index buffer views stored in meshoptimizer's codec, which
+// decodes faster than Draco and keeps the vertex order. Runs on a packed document
+
+import { MeshoptEncoder } from "meshoptimizer";
+import { accessorElementSize } from "../gltf/document";
+import { TRIANGLES } from "../gltf/scene";
+import { useExtension } from "./buffer-writer";
+
+const EXTENSION = "EXT_meshopt_compression";
+
+const INDEX_BYTES: Record<number, number> = { 5123: 2, 5125: 4 };
+
+interface ViewEncoding {
+  mode: "ATTRIBUTES" | "TRIANGLES" | "INDICES";
+  count: number;
+  byteStride: number;
+}
+
+// How each buffer view can be encoded. Views shared by index and vertex data, image views and
+// strides the codec can't take are left as they are
+function planEncodings(json: Record<string, any>): Map<number, ViewEncoding> {
+  const indexModes = new Map<number, number>(); // Accessor -> primitive mode
+  for (const mesh of json.meshes || []) {
+    for (const primitive of mesh.primitives || []) {
+      if (primitive.indices === undefined) continue;
+      const mode = primitive.mode ?? TRIANGLES;
+      const seen = indexModes.get(primitive.indices);
+      indexModes.set(primitive.indices, seen === undefined || seen === mode ? mode : -1);
+    }
+  }
+
+  const viewAccessors = new Map<number, number[]>();
+  (json.accessors || []).forEach((accessor: Record<string, any>, index: number) => {
+    if (accessor.bufferView === undefined || accessor.sparse) return;
+    viewAccessors.set(accessor.bufferView, [...(viewAccessors.get(accessor.bufferView) || []), index]);
+  });
+
+  const plans = new Map<number, ViewEncoding>();
+  viewAccessors.forEach((accessorIndices, viewIndex) => {
+    const view = json.bufferViews[viewIndex];
+    const accessors = accessorIndices.map(index => json.accessors[index]);
+    const indexAccessors = accessorIndices.filter(index => indexModes.has(index)).length;
+
+    if (indexAccessors === accessorIndices.length) {
+      const size = INDEX_BYTES[accessors[0].componentType];
+      if (!size || accessors.some(accessor => INDEX_BYTES[accessor.componentType] !== size) || view.byteLength % size !== 0) return;
+
+      const count = view.byteLength / size;
+      const [only] = accessors;
+      const triangleList = accessors.length === 1 && !only.byteOffset && only.count === count &&
+        count % 3 === 0 && indexModes.get(accessorIndices[0]) === TRIANGLES;
+      plans.set(viewIndex, { mode: triangleList ? "TRIANGLES" : "INDICES", count, byteStride: size });
+    } else if (indexAccessors === 0) {
+      const byteStride = view.byteStride || (accessors.length === 1 ? accessorElementSize(accessors[0]) : 0);
+      if (!byteStride || byteStride % 4 !== 0 || byteStride > 256 || view.byteLength % byteStride !== 0) return;
+      plans.set(viewIndex, { mode: "ATTRIBUTES", count: view.byteLength / byteStride, byteStride });
+    }
+  });
+  return plans;
+}
+
+// Re-lay `bin` with the encodable views compressed. Their uncompressed layout moves to a
+// fallback buffer that has no data, as loaders without the extension can't read the file anyway
+export async function compressMeshopt(json: Record<string, any>, bin: Buffer): Promise<Buffer> {
+  await MeshoptEncoder.ready;
+  const plans = planEncodings(json);
+  if (plans.size === 0) return bin;
+
+  const chunks: Buffer[] = [];
+  let byteLength = 0;
+  let fallbackLength = 0;
+  const append = (data: Buffer): number => {
+    const offset = byteLength;
+    const remainder = data.length % 4;
+    const padded = remainder === 0 ? data : Buffer.concat([data, Buffer.alloc(4 - remainder)]);
+    chunks.push(padded);
+    byteLength += padded.length;
+    return offset;
+  };
+
+  (json.bufferViews || []).forEach((view: Record<string, any>, index: number) => {
+    const start = view.byteOffset || 0;
+    const data = bin.subarray(start, start + view.byteLength);
+    const plan = plans.get(index);
+    if (!plan) {
+      view.byteOffset = append(data);
+      return;
+    }
+
+    const source = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    const encoded = Buffer.from(MeshoptEncoder.encodeGltfBuffer(source, plan.count, plan.byteStride, plan.mode));
+    view.extensions = {
+      ...view.extensions,
+      [EXTENSION]: { buffer: 0, byteOffset: append(encoded), byteLength: encoded.length, ...plan },
+    };
+    view.buffer = 1;
+    view.byteOffset = fallbackLength;
+    fallbackLength += Math.ceil(view.byteLength / 4) * 4;
+  });
+
+  json.buffers = [
+    { byteLength },
+    { byteLength: fallbackLength, extensions: { [EXTENSION]: { fallback: true } } },
+  ];
+  useExtension(json, EXTENSION, true);
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,181 @@
+// Decimation with meshoptimizer: every triangle primitive cut down by the same ratio, keeping
+// the scene graph, materials, skins and animations as they were
+
+import { MeshoptSimplifier } from "meshoptimizer";
+import { readAccessor, readAccessorBytes, GltfError, type GltfDocument } from "../gltf/document";
+import { meshInstances, triangleIndices, TRIANGLES } from "../gltf/scene";
+import { BufferWriter } from "./buffer-writer";
+
+export interface GeometryStats {
+  triangles: number;
+  vertices: number;
+}
+
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const UNUSED = 0xffffffff; // compactMesh's mark for vertices no triangle uses
+
+// Simplification stops at the target count or at this error, relative to the primitive's size.
+// The budget is what matters, so the error is left wide open
+const TARGET_ERROR = 1;
+
+// How far above its target a pass may stop before the next, less careful one is tried: first
+// collapsing across UV and normal seams, then the sloppy simplifier, which ignores topology
+const STALL_THRESHOLD = 1.5;
+
+function primitiveTriangles(json: Record<string, any>, primitive: Record<string, any>): number {
+  const accessorIndex = primitive.indices ?? primitive.attributes?.POSITION;
+  const count: number = json.accessors?.[accessorIndex]?.count ?? 0;
+  switch (primitive.mode ?? TRIANGLES) {
+    case 4: return Math.floor(count / 3);
+    case 5:
+    case 6: return Math.max(count - 2, 0);
+    default: return 0;
+  }
+}
+
+// What the default scene draws, counting each instance of a mesh. Works from accessor counts,
+// so it also holds for Draco-compressed primitives
+export function geometryStats(doc: GltfDocument): GeometryStats {
+  const stats: GeometryStats = { triangles: 0, vertices: 0 };
+  for (const { meshIndex } of meshInstances(doc)) {
+    for (const primitive of doc.json.meshes?.[meshIndex]?.primitives || []) {
+      stats.triangles += primitiveTriangles(doc.json, primitive);
+      stats.vertices += doc.json.accessors?.[primitive.attributes?.POSITION]?.count ?? 0;
+    }
+  }
+  return stats;
+}
+
+// A copy of an attribute holding only the vertices `remap` keeps, in their new order
+function remapAttribute(doc: GltfDocument, writer: BufferWriter, index: number, remap: Uint32Array, count: number): number {
+  const accessor = doc.json.accessors[index];
+  const { data, elementSize } = readAccessorBytes(doc, index);
+
+  // Vertex attributes must start on 4-byte boundaries, so odd-sized elements are padded
+  const stride = Math.ceil(elementSize / 4) * 4;
+  const out = Buffer.alloc(count * stride);
+  for (let old = 0; old < remap.length; old++) {
+    if (remap[old] !== UNUSED) data.copy(out, remap[old] * stride, old * elementSize, (old + 1) * elementSize);
+  }
+
+  const { bufferView, byteOffset, sparse, min, max, ...rest } = accessor;
+  const copy: Record<string, any> = {
+    ...rest,
+    bufferView: writer.addView(out, stride !== elementSize ? { byteStride: stride, target: ARRAY_BUFFER } : { target: ARRAY_BUFFER }),
+    count,
+  };
+
+  // Bounds are required on positions; float ones are recomputed for the smaller set
+  if (min && max && accessor.componentType === FLOAT) {
+    const components = elementSize / 4;
+    copy.min = new Array(components).fill(Infinity);
+    copy.max = new Array(components).fill(-Infinity);
+    for (let vertex = 0; vertex < count; vertex++) {
+      for (let component = 0; component < components; component++) {
+        const value = out.readFloatLE(vertex * stride + component * 4);
+        copy.min[component] = Math.min(copy.min[component], value);
+        copy.max[component] = Math.max(copy.max[component], value);
+      }
+    }
+  } else if (min && max) {
+    Object.assign(copy, { min, max });
+  }
+  return writer.addAccessor(copy);
+}
+
+// Point the triangles at one copy of each distinct vertex. Files that repeat vertices per
+// triangle would otherwise look like loose triangles the simplifier can't collapse
+function weld(doc: GltfDocument, primitive: Record<string, any>, vertexCount: number, triangles: Uint32Array): Uint32Array {
+  const attributes = [
+    ...Object.values(primitive.attributes),
+    ...(primitive.targets || []).flatMap((target: Record<string, number>) => Object.values(target)),
+  ].map(index => readAccessorBytes(doc, index as number));
+
+  const canonical = new Uint32Array(vertexCount);
+  const seen = new Map<string, number>();
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    const key = attributes
+      .map(({ data, elementSize }) => data.toString("base64", vertex * elementSize, (vertex + 1) * elementSize))
+      .join("|");
+    const first = seen.get(key);
+    if (first === undefined) seen.set(key, vertex);
+    canonical[vertex] = first ?? vertex;
+  }
+  return triangles.map(index => canonical[index]);
+}
+
+// Simplified triangle list for one primitive, or null when it can't get any smaller
+function simplifyPrimitive(doc: GltfDocument, primitive: Record<string, any>, ratio: number): Uint32Array | null {
+  const positions = readAccessor(doc, primitive.attributes.POSITION).array as Float32Array;
+  const vertexCount = positions.length / 3;
+  const drawn = primitive.indices !== undefined
+    ? readAccessor(doc, primitive.indices).array as Uint32Array
+    : Uint32Array.from({ length: vertexCount }, (_, i) => i);
+
+  const triangles = triangleIndices(primitive.mode ?? TRIANGLES, drawn);
+  if (!triangles || triangles.length < 3) return null;
+  for (let i = 0; i < triangles.length; i++) {
+    if (triangles[i] >= vertexCount) throw new GltfError("A triangle points at a missing vertex");
+  }
+
+  const usable = triangles.length - triangles.length % 3;
+  const source = weld(doc, primitive, vertexCount, triangles.slice(0, usable));
+  const target = Math.max(1, Math.round((usable / 3) * ratio)) * 3;
+  if (target >= usable) return null;
+
+  const passes = [
+    () => MeshoptSimplifier.simplify(source, positions, 3, target, TARGET_ERROR),
+    () => MeshoptSimplifier.simplify(source, positions, 3, target, TARGET_ERROR, ["Permissive"]),
+    () => MeshoptSimplifier.simplifySloppy(source, positions, 3, null, target, TARGET_ERROR),
+  ];
+  let indices = source;
+  for (const pass of passes) {
+    const [result] = pass();
+    if (result.length > 0 && result.length < indices.length) indices = result;
+    if (indices.length <= target * STALL_THRESHOLD) break;
+  }
+  return indices.length < source.length ? indices : null;
+}
+
+// Cut every triangle primitive to `ratio` of its triangles, in place. Attributes and morph
+// targets are copied for the vertices that are left; the old data stays until the document
+// is pruned
+export async function simplifyDocument(doc: GltfDocument, ratio: number): Promise<void> {
+  await MeshoptSimplifier.ready;
+  const writer = new BufferWriter(doc);
+
+  for (const mesh of doc.json.meshes || []) {
+    for (const primitive of mesh.primitives || []) {
+      if (primitive.attributes?.POSITION === undefined) continue;
+
+      const indices = simplifyPrimitive(doc, primitive, ratio);
+      if (!indices) continue;
+
+      // Renumbers the indices to the vertices they still use
+      const [remap, vertexCount] = MeshoptSimplifier.compactMesh(indices);
+
+      for (const name of Object.keys(primitive.attributes)) {
+        primitive.attributes[name] = remapAttribute(doc, writer, primitive.attributes[name], remap, vertexCount);
+      }
+      for (const target of primitive.targets || []) {
+        for (const name of Object.keys(target)) target[name] = remapAttribute(doc, writer, target[name], remap, vertexCount);
+      }
+
+      const narrow = vertexCount <= 0xffff;
+      const packed = narrow ? Uint16Array.from(indices) : indices;
+      primitive.indices = writer.addAccessor({
+        bufferView: writer.addView(Buffer.from(packed.buffer, packed.byteOffset, packed.byteLength), { target: ELEMENT_ARRAY_BUFFER }),
+        componentType: narrow ? UNSIGNED_SHORT : UNSIGNED_INT,
+        count: indices.length,
+        type: "SCALAR",
+      });
+      primitive.mode = TRIANGLES;
+    }
+  }
+
+  writer.finish();
+}
@@ -0,0 +1,377 @@
+// Pipelines: chained tool steps run as one unit, charged up front and resumable from a failed step
+
+import { db, eq, and, asc, desc, inArray, sql, type Transaction } from "./db";
+import {
+  jobs,
+  assets,
+  pipelines,
+  toolCosts,
+  pipelineToolInputs,
+  type Job,
+  type Pipeline,
+  type PipelineRequest,
+  type PipelineStep,
+} from "@shared/schema";
+import { ProviderFactory } from "./providers/provider-factory";
+import { JobQueue } from "./queue/job-queue";
+import { CreditService } from "./credit-service";
+import { JobEvents } from "./job-events";
+import { JobService, JobNotCancellableError, ACTIVE_STATUSES, HEAVY_JOBS_PER_HOUR } from "./job-service";
+
+export interface CreatePipelineRequest extends PipelineRequest {
+  userId: string;
+  sessionId: string;
+}
+
+export interface PipelineRun {
+  pipeline: Pipeline;
+  jobs: Job[]; // Every job the pipeline has run, oldest first
+}
+
+export class PipelineStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PipelineStateError";
+  }
+}
+
+// Latest job for each step; a resumed step leaves its earlier jobs behind
+export function latestStepJobs(stepJobs: Job[]): Map<string, Job> {
+  const latest = new Map<string, Job>();
+  for (const job of stepJobs) {
+    if (job.pipelineStep) latest.set(job.pipelineStep, job);
+  }
+  return latest;
+}
+
+// What a finished step hands on: only the assets it produced, never the inputs it was given
+function stepOutputs(job: Job): Record<string, string> {
+  const outputs: Record<string, string> = {};
+
+  const asset = job.assetUrls?.[0];
+  if (job.tool === "text2image" && asset) {
+    outputs.imageUrl = asset;
+  } else if (job.tool === "text2mesh" || job.tool === "img2mesh" || job.tool === "meshprocess") {
+    if (asset) outputs.modelUrl = asset;
+    if (job.previewImage) outputs.imageUrl = job.previewImage;
+  }
+
+  return outputs;
+}
+
+export class PipelineService {
+  private static unsubscribe: (() => void) | null = null;
+  private static advancing = new Map<string, Promise<void>>(); // Pipeline ID -> pending advance
+
+  // Follow step jobs as they settle and pick up pipelines left running by a previous process
+  static async start(): Promise<void> {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = JobEvents.subscribe((event) => {
+      if (event.pipelineId && JobEvents.isTerminal(event.status)) {
+        this.advance(event.pipelineId);
+      }
+    });
+
+    const running = await db.select({ id: pipelines.id }).from(pipelines).where(eq(pipelines.status, "running"));
+    for (const { id } of running) {
+      await this.advance(id);
+    }
+
+    console.log(`[PIPELINE] Recovery: ${running.length} running pipeline(s) checked`);
+  }
+
+  // Create a pipeline run with one job per step, all charged in a single transaction
+  static async createPipeline(request: CreatePipelineRequest): Promise<PipelineRun> {
+    const { name, prompt, steps, userId, sessionId } = request;
+    const specs = await this.resolveSteps(steps, userId);
+    const total = specs.reduce((sum, spec) => sum + toolCosts[spec.step.tool], 0);
+
+    await this.checkLimits(userId, sessionId, steps, total);
+
+    const pipeline = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(pipelines).values({
+        userId,
+        name: name || null,
+        prompt,
+        steps,
+        creditsUsed: total,
+      }).returning();
+
+      await this.insertStepJobs(tx, created, specs, sessionId);
+      return created;
+    });
+
+    console.log(`[PIPELINE] Created pipeline ${pipeline.id} with ${steps.length} step(s) for ${total} credits`);
+    await this.advance(pipeline.id);
+
+    return (await this.getPipeline(pipeline.id, userId))!;
+  }
+
+  // Re-run every step that didn't complete, charging those steps again
+  static async resumePipeline(pipelineId: string, userId: string, sessionId: string): Promise<PipelineRun | null> {
+    const run = await this.getPipeline(pipelineId, userId);
+    if (!run) return null;
+
+    const { pipeline } = run;
+    if (pipeline.status !== "failed" && pipeline.status !== "cancelled") {
+      throw new PipelineStateError(`Pipeline is ${pipeline.status === "running" ? "still running" : "already completed"}`);
+    }
+
+    const latest = latestStepJobs(run.jobs);
+    const steps = pipeline.steps.filter(step => latest.get(step.id)?.status !== "completed");
+    const specs = await this.resolveSteps(steps, userId);
+    const total = specs.reduce((sum, spec) => sum + toolCosts[spec.step.tool], 0);
+
+    await this.checkLimits(userId, sessionId, steps, total);
+
+    const resumed = await db.transaction(async (tx) => {
+      // Guarded so two resume requests can't both charge
+      const [updated] = await tx.update(pipelines)
+        .set({ status: "running", creditsUsed: sql`${pipelines.creditsUsed} + ${total}`, updatedAt: new Date() })
+        .where(and(eq(pipelines.id, pipelineId), inArray(pipelines.status, ["failed", "cancelled"])))
+        .returning();
+      if (!updated) return null;
+
+      await this.insertStepJobs(tx, updated, specs, sessionId);
+      return updated;
+    });
+
+    if (!resumed) {
+      throw new PipelineStateError("Pipeline is already being resumed");
+    }
+
+    console.log(`[PIPELINE] Resuming pipeline ${pipelineId} from step(s) ${steps.map(step => step.id).join(", ")}`);
+    await this.advance(pipelineId);
+
+    return this.getPipeline(pipelineId, userId);
+  }
+
+  // Cancel a running pipeline; every step that hasn't finished is cancelled and refunded
+  static async cancelPipeline(pipelineId: string, userId: string): Promise<PipelineRun | null> {
+    const [cancelled] = await db.update(pipelines)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(pipelines.id, pipelineId), eq(pipelines.userId, userId), eq(pipelines.status, "running")))
+      .returning();
+
+    if (!cancelled) {
+      const run = await this.getPipeline(pipelineId, userId);
+      if (!run) return null;
+      throw new PipelineStateError(`Pipeline is already ${run.pipeline.status}`);
+    }
+
+    const active = await db.select().from(jobs)
+      .where(and(eq(jobs.pipelineId, pipelineId), inArray(jobs.status, ACTIVE_STATUSES)));
+
+    for (const job of active) {
+      try {
+        await JobService.cancelJob(job.id, userId);
+      } catch (error) {
+        // Finished on its own in the meantime
+        if (!(error instanceof JobNotCancellableError)) throw error;
+      }
+    }
+
+    console.log(`[PIPELINE] Pipeline ${pipelineId} cancelled by user ${userId}`);
+    return this.getPipeline(pipelineId, userId);
+  }
+
+  // Get a user's pipeline with all of its jobs
+  static async getPipeline(pipelineId: string, userId: string): Promise<PipelineRun | null> {
+    const [pipeline] = await db.select().from(pipelines)
+      .where(and(eq(pipelines.id, pipelineId), eq(pipelines.userId, userId)));
+    if (!pipeline) return null;
+
+    return { pipeline, jobs: await this.getStepJobs(pipelineId) };
+  }
+
+  // A user's most recent pipelines with their jobs
+  static async getUserPipelines(userId: string, limit: number = 20, offset: number = 0): Promise<PipelineRun[]> {
+    const rows = await db.select().from(pipelines)
+      .where(eq(pipelines.userId, userId))
+      .orderBy(desc(pipelines.createdAt))
+      .limit(limit)
+      .offset(offset);
+    if (rows.length === 0) return [];
+
+    const stepJobs = await db.select().from(jobs)
+      .where(inArray(jobs.pipelineId, rows.map(pipeline => pipeline.id)))
+      .orderBy(asc(jobs.createdAt));
+
+    return rows.map(pipeline => ({
+      pipeline,
+      jobs: stepJobs.filter(job => job.pipelineId === pipeline.id),
+    }));
+  }
+
+  // Move a pipeline along after one of its jobs settled; runs one at a time per pipeline
+  static advance(pipelineId: string): Promise<void> {
+    const previous = this.advancing.get(pipelineId) || Promise.resolve();
+    const next = previous
+      .then(() => this.advanceNow(pipelineId))
+      .catch((error) => console.error(`[PIPELINE] Failed to advance pipeline ${pipelineId}:`, error))
+      .finally(() => {
+        if (this.advancing.get(pipelineId) === next) this.advancing.delete(pipelineId);
+      });
+
+    this.advancing.set(pipelineId, next);
+    return next;
+  }
+
+  private static async advanceNow(pipelineId: string): Promise<void> {
+    const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.id, pipelineId));
+    if (!pipeline || pipeline.status !== "running") return;
+
+    const latest = latestStepJobs(await this.getStepJobs(pipelineId));
+    let queued = false;
+
+    for (const step of pipeline.steps) {
+      const job = latest.get(step.id);
+      if (job?.status !== "waiting") continue;
+
+      const upstream = step.dependsOn.map(id => latest.get(id)!);
+      const blocked = upstream.find(dependency => dependency.status === "failed" || dependency.status === "cancelled");
+      if (blocked) {
+        // Its own settle event advances the pipeline again, so the rest of the branch follows
+        await this.cancelBlockedStep(job, `Step ${blocked.pipelineStep} ${blocked.status}`);
+        continue;
+      }
+      if (!upstream.every(dependency => dependency.status === "completed")) continue;
+
+      // The step's own inputs win over anything handed on. Handed-on files get the same
+      // checks as a job's own inputs
+      let inputs: Record<string, any>;
+      try {
+        inputs = await JobService.resolveSources(step.tool, await this.stepInputs(job, upstream), job.userId);
+      } catch (error) {
+        await JobService.failJob(job.id, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+      const missing = pipelineToolInputs[step.tool].find(input => !inputs[input]);
+      if (missing) {
+        await JobService.failJob(job.id, `No ${missing} was produced for step ${step.id}`);
+        continue;
+      }
+
+      const [started] = await db.update(jobs)
+        .set({ inputs, status: "queued", updatedAt: new Date() })
+        .where(and(eq(jobs.id, job.id), eq(jobs.status, "waiting")))
+        .returning();
+
+      if (started) {
+        JobEvents.publishJob(started);
+        queued = true;
+      }
+    }
+
+    if (queued) {
+      JobQueue.notify();
+      return;
+    }
+
+    // Settle the pipeline once none of its steps can make progress
+    const statuses = pipeline.steps.map(step => latest.get(step.id)?.status || "failed");
+    if (statuses.some(status => ACTIVE_STATUSES.includes(status))) return;
+
+    const status = statuses.every(status => status === "completed") ? "completed" : "failed";
+    const [settled] = await db.update(pipelines)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(pipelines.id, pipelineId), eq(pipelines.status, "running")))
+      .returning({ id: pipelines.id });
+
+    if (settled) console.log(`[PIPELINE] Pipeline ${pipelineId} ${status}`);
+  }
+
+  // A step's own inputs over what its dependencies hand on. Mesh processing takes its model as
+  // an asset, so a handed-on model becomes the asset recorded for the step that produced it
+  private static async stepInputs(job: Job, upstream: Job[]): Promise<Record<string, any>> {
+    const own = (job.inputs as Record<string, any> | null) || {};
+    const inputs = { ...Object.assign({}, ...upstream.map(stepOutputs)), ...own };
+    if (job.tool !== "meshprocess" || own.assetId !== undefined || !inputs.modelUrl) return inputs;
+
+    const [asset] = await db.select({ id: assets.id }).from(assets).where(and(
+      inArray(assets.jobId, upstream.map(dependency => dependency.id)),
+      eq(assets.url, inputs.modelUrl),
+    ));
+    return asset ? { ...inputs, assetId: asset.id } : inputs;
+  }
+
+  // A step can't run once a step it depends on failed; give its credits back until the pipeline is resumed
+  private static async cancelBlockedStep(job: Job, reason: string): Promise<void> {
+    const cancelled = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(jobs)
+        .set({
+          status: "cancelled",
+          meta: { cancelledAt: new Date().toISOString(), reason },
+          updatedAt: new Date()
+        })
+        .where(and(eq(jobs.id, job.id), eq(jobs.status, "waiting")))
+        .returning();
+
+      if (!updated) return null;
+
+      await CreditService.refundJob(tx, updated, reason);
+      return updated;
+    });
+
+    if (cancelled) JobEvents.publishJob(cancelled);
+  }
+
+  // Validate and pin down each step's inputs before anything is charged
+  private static async resolveSteps(steps: PipelineStep[], userId: string): Promise<{ step: PipelineStep; inputs: any }[]> {
+    const specs: { step: PipelineStep; inputs: any }[] = [];
+    for (const step of steps) {
+      const inputs = await JobService.resolveSources(step.tool, step.inputs, userId);
+      specs.push({ step, inputs: JobService.resolveInputs(step.tool, inputs) });
+    }
+    return specs;
+  }
+
+  private static async checkLimits(userId: string, sessionId: string, steps: PipelineStep[], total: number): Promise<void> {
+    if ((await CreditService.getBalance(userId)) < total) {
+      throw new Error(`Insufficient credits. This pipeline costs ${total} credits.`);
+    }
+
+    const heavySteps = steps.filter(step => JobService.isHeavyTool(step.tool)).length;
+    if (!(await JobService.checkHeavyJobLimit(userId, sessionId, heavySteps))) {
+      throw new Error(`Rate limit exceeded. Maximum ${HEAVY_JOBS_PER_HOUR} heavy jobs per hour.`);
+    }
+  }
+
+  // Insert and charge one waiting job per step; advance() queues them as their inputs become ready
+  private static async insertStepJobs(
+    tx: Transaction,
+    pipeline: Pipeline,
+    specs: { step: PipelineStep; inputs: any }[],
+    sessionId: string
+  ): Promise<Job[]> {
+    const stepJobs = await tx.insert(jobs).values(specs.map(({ step, inputs }) => ({
+      tool: step.tool,
+      prompt: step.prompt || pipeline.prompt,
+      inputs,
+      status: "waiting",
+      userId: pipeline.userId,
+      sessionId,
+      creditsUsed: toolCosts[step.tool],
+      provider: ProviderFactory.getProviderChain(step.tool)[0],
+      pipelineId: pipeline.id,
+      pipelineStep: step.id,
+    }))).returning();
+
+    // A failed charge part-way through rolls back the whole run
+    for (const job of stepJobs) {
+      await CreditService.chargeJob(tx, job);
+    }
+
+    const heavySteps = specs.filter(({ step }) => JobService.isHeavyTool(step.tool)).length;
+    await JobService.recordHeavyJobs(tx, pipeline.userId, sessionId, heavySteps);
+
+    return stepJobs;
+  }
+
+  private static async getStepJobs(pipelineId: string): Promise<Job[]> {
+    return db.select().from(jobs)
+      .where(eq(jobs.pipelineId, pipelineId))
+      .orderBy(asc(jobs.createdAt));
+  }
+}
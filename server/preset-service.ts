@@ -0,0 +1,146 @@
+// Presets: saved prompt scaffolds and tool settings, private to their owner or shared with everyone
+
+import { db, eq, and, or, desc } from "./db";
+import {
+  presets,
+  textToImageParamsSchema,
+  pipelineStepsSchema,
+  PRESET_PROMPT_PLACEHOLDER,
+  type Preset,
+  type PresetRequest,
+  type PresetUpdate,
+  type PresetTool,
+} from "@shared/schema";
+
+export class PresetNotFoundError extends Error {
+  constructor() {
+    super("Preset not found");
+    this.name = "PresetNotFoundError";
+  }
+}
+
+export class PresetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetValidationError";
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Merge nested objects key by key; any other value in overrides replaces the preset's
+function mergeInputs(base: Record<string, any>, overrides: Record<string, any>): Record<string, any> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeInputs(merged[key], value) : value;
+  }
+  return merged;
+}
+
+export class PresetService {
+  // The user's own presets plus everyone's shared ones, most recently edited first
+  static async listPresets(userId: string, tool?: PresetTool): Promise<Preset[]> {
+    const visible = or(eq(presets.userId, userId), eq(presets.isShared, true));
+
+    return db.select()
+      .from(presets)
+      .where(tool ? and(visible, eq(presets.tool, tool)) : visible)
+      .orderBy(desc(presets.updatedAt));
+  }
+
+  static async getPreset(presetId: string, userId: string): Promise<Preset | null> {
+    const [preset] = await db.select().from(presets).where(and(
+      eq(presets.id, presetId),
+      or(eq(presets.userId, userId), eq(presets.isShared, true)),
+    ));
+    return preset || null;
+  }
+
+  static async createPreset(userId: string, request: PresetRequest): Promise<Preset> {
+    this.validateInputs(request.tool, request.inputs);
+
+    const [preset] = await db.insert(presets).values({
+      userId,
+      tool: request.tool,
+      name: request.name,
+      description: request.description || null,
+      promptTemplate: request.promptTemplate || null,
+      inputs: request.inputs || null,
+      isShared: request.isShared ?? false,
+    }).returning();
+
+    console.log(`[PRESET] ${userId} saved ${preset.tool} preset ${preset.id}${preset.isShared ? " (shared)" : ""}`);
+    return preset;
+  }
+
+  // Only the owner can edit; null means not found or not theirs
+  static async updatePreset(presetId: string, userId: string, update: PresetUpdate): Promise<Preset | null> {
+    const [existing] = await db.select().from(presets)
+      .where(and(eq(presets.id, presetId), eq(presets.userId, userId)));
+    if (!existing) return null;
+
+    if (update.inputs !== undefined) {
+      this.validateInputs(existing.tool as PresetTool, update.inputs);
+    }
+
+    const [preset] = await db.update(presets)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(presets.id, presetId), eq(presets.userId, userId)))
+      .returning();
+    return preset || null;
+  }
+
+  static async deletePreset(presetId: string, userId: string): Promise<boolean> {
+    const deleted = await db.delete(presets)
+      .where(and(eq(presets.id, presetId), eq(presets.userId, userId)))
+      .returning({ id: presets.id });
+    return deleted.length > 0;
+  }
+
+  // Apply a preset to a request: its template wraps the prompt and the request's inputs win over its own
+  static async applyPreset(
+    presetId: string,
+    userId: string,
+    tool: PresetTool,
+    prompt: string,
+    inputs: Record<string, any> = {}
+  ): Promise<{ preset: Preset; prompt: string; inputs: Record<string, any> }> {
+    const preset = await this.getPreset(presetId, userId);
+    if (!preset) throw new PresetNotFoundError();
+
+    if (preset.tool !== tool) {
+      throw new PresetValidationError(`Preset "${preset.name}" is for ${preset.tool}, not ${tool}`);
+    }
+
+    const subject = (prompt || "").trim();
+    return {
+      preset,
+      prompt: preset.promptTemplate && subject
+        ? preset.promptTemplate.split(PRESET_PROMPT_PLACEHOLDER).join(subject)
+        : subject,
+      inputs: mergeInputs(preset.inputs || {}, inputs),
+    };
+  }
+
+  // Catch settings that could never be used when the preset is applied
+  private static validateInputs(tool: PresetTool, inputs: Record<string, any> | null | undefined): void {
+    if (!inputs) return;
+
+    if (tool === "text2image" && inputs.options !== undefined) {
+      const params = textToImageParamsSchema.safeParse(inputs.options);
+      if (!params.success) {
+        const issue = params.error.errors[0];
+        throw new PresetValidationError(`Invalid image parameter ${issue?.path.join(".")}: ${issue?.message}`);
+      }
+    }
+
+    if (tool === "pipeline") {
+      const steps = pipelineStepsSchema.safeParse(inputs.steps);
+      if (!steps.success) {
+        throw new PresetValidationError(steps.error.errors[0]?.message || "Invalid pipeline steps");
+      }
+    }
+  }
+}
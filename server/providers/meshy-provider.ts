@@ -1,8 +1,14 @@
-// Meshy API provider for Text→3D generation
-import { ITextTo3DProvider, TextTo3DRequest, ProviderJob } from './types';
+// Meshy API provider for Text→3D and Image→3D generation
+import { ITextTo3DProvider, IImageTo3DProvider, TextTo3DRequest, ImageTo3DRequest, ProviderJob, ProviderError } from './types';
+import { errorStatusOf } from './retry-policy';
 import { FileService } from '../file-service';
 
-export class MeshyProvider implements ITextTo3DProvider {
+type MeshyTaskType = 'text-to-3d' | 'image-to-3d';
+
+// Image-to-3D job IDs carry a prefix so a restarted worker knows which endpoint to poll
+const IMAGE_TO_3D_PREFIX = 'img3d_';
+
+export class MeshyProvider implements ITextTo3DProvider, IImageTo3DProvider {
   private apiKey: string;
   private baseUrl = 'https://api.meshy.ai/v1';
   private jobs = new Map<string, ProviderJob>();
@@ -17,11 +23,6 @@ export class MeshyProvider implements ITextTo3DProvider {
   async generateMesh(request: TextTo3DRequest): Promise<ProviderJob> {
     console.log('[MESHY] Starting text-to-3D generation:', request.prompt);
 
-    const job: ProviderJob = {
-      id: `meshy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      status: 'processing'
-    };
-
     try {
       // Create text-to-3D task with Meshy API
       const response = await fetch(`${this.baseUrl}/text-to-3d`, {
@@ -40,16 +41,23 @@ export class MeshyProvider implements ITextTo3DProvider {
 
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(`Meshy API error: ${response.status} ${error}`);
+        throw new ProviderError(`Meshy API error: ${response.status} ${error}`, response.status);
       }
 
       const result = await response.json();
-      job.result = {
-        assetUrls: [], // Will be populated when task completes
-        meta: {
-          meshyTaskId: result.result,
-          prompt: request.prompt,
-          provider: 'MESHY',
+
+      // The Meshy task ID doubles as our provider job ID so it can be re-polled after a restart
+      const job: ProviderJob = {
+        id: result.result,
+        status: 'processing',
+        result: {
+          assetUrls: [], // Will be populated when task completes
+          meta: {
+            meshyTaskId: result.result,
+            meshyTaskType: 'text-to-3d',
+            prompt: request.prompt,
+            provider: 'MESHY',
+          }
         }
       };
 
@@ -63,27 +71,107 @@ export class MeshyProvider implements ITextTo3DProvider {
         console.warn('[MESHY] No BASE_URL or WEBHOOK_SECRET configured, webhook disabled');
       }
 
-      console.log(`[MESHY] Text-to-3D job created: ${job.id} (Meshy task: ${result.result})`);
+      console.log(`[MESHY] Text-to-3D job created: ${job.id}`);
       return job;
 
     } catch (error) {
       console.error('[MESHY] Error creating text-to-3D job:', error);
-      job.status = 'failed';
-      job.error = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        id: `meshy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorStatus: errorStatusOf(error),
+      };
+    }
+  }
+
+  async generateMeshFromImage(request: ImageTo3DRequest): Promise<ProviderJob> {
+    console.log('[MESHY] Starting image-to-3D generation');
+
+    try {
+      const response = await fetch(`${this.baseUrl}/image-to-3d`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          image_url: FileService.toPublicUrl(request.imageUrl),
+          enable_pbr: request.options?.enablePbr ?? true,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new ProviderError(`Meshy API error: ${response.status} ${error}`, response.status);
+      }
+
+      const result = await response.json();
+
+      const job: ProviderJob = {
+        id: `${IMAGE_TO_3D_PREFIX}${result.result}`,
+        status: 'processing',
+        result: {
+          assetUrls: [],
+          previewImage: request.imageUrl,
+          meta: {
+            meshyTaskId: result.result,
+            meshyTaskType: 'image-to-3d',
+            prompt: request.prompt,
+            provider: 'MESHY',
+          }
+        }
+      };
+
+      this.jobs.set(job.id, job);
+
+      const baseUrl = process.env.BASE_URL;
+      if (baseUrl && process.env.WEBHOOK_SECRET) {
+        this.setupWebhookPolling(job.id, result.result, baseUrl);
+      } else {
+        console.warn('[MESHY] No BASE_URL or WEBHOOK_SECRET configured, webhook disabled');
+      }
+
+      console.log(`[MESHY] Image-to-3D job created: ${job.id}`);
       return job;
+
+    } catch (error) {
+      console.error('[MESHY] Error creating image-to-3D job:', error);
+      return {
+        id: `meshy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorStatus: errorStatusOf(error),
+      };
     }
   }
 
   async getJobStatus(jobId: string): Promise<ProviderJob> {
-    const job = this.jobs.get(jobId);
+    let job = this.jobs.get(jobId);
     if (!job) {
-      throw new Error(`Job ${jobId} not found`);
+      // Unknown to this instance (e.g. after a restart): the job ID is the Meshy task ID
+      const isImageTask = jobId.startsWith(IMAGE_TO_3D_PREFIX);
+      const meshyTaskId = isImageTask ? jobId.slice(IMAGE_TO_3D_PREFIX.length) : jobId;
+      job = {
+        id: jobId,
+        status: 'processing',
+        result: {
+          assetUrls: [],
+          meta: {
+            meshyTaskId,
+            meshyTaskType: isImageTask ? 'image-to-3d' : 'text-to-3d',
+            provider: 'MESHY',
+          },
+        },
+      };
+      this.jobs.set(jobId, job);
     }
 
     // If job has a Meshy task ID, check its status
     if (job.result?.meta?.meshyTaskId) {
+      const taskType: MeshyTaskType = job.result.meta.meshyTaskType || 'text-to-3d';
       try {
-        const response = await fetch(`${this.baseUrl}/text-to-3d/${job.result.meta.meshyTaskId}`, {
+        const response = await fetch(`${this.baseUrl}/${taskType}/${job.result.meta.meshyTaskId}`, {
           headers: {
             'Authorization': `Bearer ${this.apiKey}`,
           },
@@ -101,6 +189,7 @@ export class MeshyProvider implements ITextTo3DProvider {
                 job.status = 'completed';
                 job.result = {
                   assetUrls: [localPath],
+                  previewImage: job.result.previewImage || result.thumbnail_url,
                   meta: {
                     ...job.result.meta,
                     originalUrl: glbUrl,
@@ -116,8 +205,10 @@ export class MeshyProvider implements ITextTo3DProvider {
           } else if (result.status === 'FAILED') {
             job.status = 'failed';
             job.error = 'Meshy generation failed';
+          } else {
+            // PENDING or IN_PROGRESS: keep as processing and report Meshy's progress
+            job.progress = this.toProgress(result, taskType);
           }
-          // Otherwise keep as processing
         }
       } catch (error) {
         console.error('[MESHY] Error checking job status:', error);
@@ -127,6 +218,43 @@ export class MeshyProvider implements ITextTo3DProvider {
     return job;
   }
 
+  // Deleting a Meshy task stops it if it is still pending or running
+  async cancelJob(jobId: string): Promise<void> {
+    const isImageTask = jobId.startsWith(IMAGE_TO_3D_PREFIX);
+    const meta = this.jobs.get(jobId)?.result?.meta;
+    const taskType: MeshyTaskType = meta?.meshyTaskType || (isImageTask ? 'image-to-3d' : 'text-to-3d');
+    const meshyTaskId = meta?.meshyTaskId || (isImageTask ? jobId.slice(IMAGE_TO_3D_PREFIX.length) : jobId);
+
+    const response = await fetch(`${this.baseUrl}/${taskType}/${meshyTaskId}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(`Meshy cancel failed: ${response.status} ${await response.text()}`, response.status);
+    }
+
+    this.jobs.delete(jobId);
+    console.log(`[MESHY] Cancelled ${taskType} task ${meshyTaskId}`);
+  }
+
+  // Meshy reports 0-100 progress; ETA is extrapolated from time spent so far
+  private toProgress(task: any, taskType: MeshyTaskType): ProviderJob['progress'] {
+    const percent = typeof task.progress === 'number' ? Math.max(0, Math.min(task.progress, 99)) : 0;
+    if (task.status === 'PENDING') {
+      return { percent: 0, stage: 'queued' };
+    }
+
+    const elapsedMs = task.started_at ? Date.now() - task.started_at : 0;
+    const etaSeconds = percent > 0 && elapsedMs > 0
+      ? Math.round((elapsedMs / percent) * (100 - percent) / 1000)
+      : undefined;
+
+    return { percent, stage: taskType === 'text-to-3d' ? 'preview' : 'generating', etaSeconds };
+  }
+
   // Set up polling for webhook simulation since Meshy doesn't have webhooks
   private setupWebhookPolling(jobId: string, meshyTaskId: string, baseUrl: string): void {
     const pollInterval = setInterval(async () => {
@@ -3,21 +3,72 @@
 import { 
   ITextToImageProvider, 
   ITextTo3DProvider, 
+  IImageTo3DProvider,
   ITexturingProvider, 
   IImageToVideoProvider,
-  ProviderConfig
+  IMeshProcessingProvider,
+  ProviderConfig,
+  RetryPolicy
 } from "./types";
+import type { Tool } from "@shared/schema";
 import { SimProvider } from "./sim-provider";
 import { MeshyProvider } from "./meshy-provider";
 import { ReplicateProvider } from "./replicate-provider";
+import { LocalMeshProvider } from "./local-mesh-provider";
+
+export type ToolProvider =
+  | ITextToImageProvider
+  | ITextTo3DProvider
+  | IImageTo3DProvider
+  | ITexturingProvider
+  | IImageToVideoProvider
+  | IMeshProcessingProvider;
+
+// Throttling, timeouts, upstream outages and network errors (0)
+const DEFAULT_RETRYABLE_STATUSES = [0, 408, 429, 500, 502, 503, 504];
 
 // Get provider configuration from environment
 export function getProviderConfig(): ProviderConfig {
+  const list = (name: string, fallback: string) =>
+    (process.env[name] ?? fallback).split(",").map(item => item.trim().toUpperCase()).filter(Boolean);
+  const positiveInt = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || "", 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  const retryableStatuses = process.env.RETRY_STATUSES
+    ? list("RETRY_STATUSES", "").map(Number).filter(Number.isFinite)
+    : DEFAULT_RETRYABLE_STATUSES;
+  const retry = (envSuffix: string, maxAttempts: number, baseDelayMs: number): RetryPolicy => ({
+    maxAttempts: positiveInt(`RETRY_MAX_ATTEMPTS_${envSuffix}`, positiveInt("RETRY_MAX_ATTEMPTS", maxAttempts)),
+    baseDelayMs: positiveInt("RETRY_BASE_DELAY_MS", baseDelayMs),
+    maxDelayMs: positiveInt("RETRY_MAX_DELAY_MS", 60_000),
+    retryableStatuses,
+  });
+
   return {
     text2image: process.env.PROVIDER_TEXT2IMAGE || "FLUX",
     text2mesh: process.env.PROVIDER_3D || "SIM",
+    img2mesh: process.env.PROVIDER_IMAGE_3D || "SIM",
     texturing: process.env.PROVIDER_TEXTURE || "SIM", 
     img2video: process.env.PROVIDER_VIDEO || "SIM",
+    meshprocess: process.env.PROVIDER_MESH_PROCESSING || "LOCAL",
+    fallbacks: {
+      text2image: list("PROVIDER_TEXT2IMAGE_FALLBACK", ""),
+      text2mesh: list("PROVIDER_3D_FALLBACK", "REPLICATE,SIM"),
+      img2mesh: list("PROVIDER_IMAGE_3D_FALLBACK", "SIM"),
+      texturing: list("PROVIDER_TEXTURE_FALLBACK", ""),
+      img2video: list("PROVIDER_VIDEO_FALLBACK", ""),
+      meshprocess: list("PROVIDER_MESH_PROCESSING_FALLBACK", ""),
+    },
+    retry: {
+      text2image: retry("TEXT2IMAGE", 2, 2_000),
+      text2mesh: retry("3D", 3, 5_000),
+      img2mesh: retry("IMAGE_3D", 3, 5_000),
+      texturing: retry("TEXTURE", 3, 5_000),
+      img2video: retry("VIDEO", 2, 10_000),
+      meshprocess: retry("MESH_PROCESSING", 1, 1_000), // Runs here, so a retry would fail the same way
+    },
   };
 }
 
@@ -31,6 +82,69 @@ function getSimProvider(): SimProvider {
   return simProvider;
 }
 
+let localMeshProvider: LocalMeshProvider | null = null;
+
+function getLocalMeshProvider(): LocalMeshProvider {
+  if (!localMeshProvider) {
+    localMeshProvider = new LocalMeshProvider();
+  }
+  return localMeshProvider;
+}
+
+// Keyed providers, or null when their credentials are missing
+function createMeshyProvider(): MeshyProvider | null {
+  const meshyKey = process.env.MESHY_API_KEY;
+  if (!meshyKey) return null;
+  try {
+    return new MeshyProvider(meshyKey);
+  } catch (error) {
+    console.error("[PROVIDER] Failed to create Meshy provider:", error);
+    return null;
+  }
+}
+
+function createReplicateProvider(): ReplicateProvider | null {
+  const replicateToken = process.env.REPLICATE_API_TOKEN;
+  if (!replicateToken) return null;
+  try {
+    return new ReplicateProvider(replicateToken);
+  } catch (error) {
+    console.error("[PROVIDER] Failed to create Replicate provider:", error);
+    return null;
+  }
+}
+
+// A named provider for a tool, or null if it doesn't support the tool or isn't configured
+export function createProviderByName(tool: Tool, name: string): ToolProvider | null {
+  switch (name) {
+    case "SIM":
+      return tool === "meshprocess" ? null : getSimProvider();
+    case "LOCAL":
+      return tool === "meshprocess" ? getLocalMeshProvider() : null;
+    case "FLUX":
+      return tool === "text2image" ? getSimProvider() : null;
+    case "MESHY":
+      return tool === "text2mesh" || tool === "img2mesh" ? createMeshyProvider() : null;
+    case "REPLICATE":
+      return tool === "text2mesh" ? createReplicateProvider() : null;
+    default:
+      return null;
+  }
+}
+
+// Ordered, de-duplicated providers to try for a tool, skipping ones that can't run here
+export function getProviderChain(tool: Tool): string[] {
+  const config = getProviderConfig();
+  const names = [config[tool], ...config.fallbacks[tool]];
+  const chain = names.filter((name, index) =>
+    names.indexOf(name) === index && createProviderByName(tool, name) !== null
+  );
+
+  // Never leave a tool without a provider
+  if (chain.length > 0) return chain;
+  return tool === "meshprocess" ? ["LOCAL"] : ["SIM"];
+}
+
 // Factory functions
 export function createTextToImageProvider(): ITextToImageProvider {
   const config = getProviderConfig();
@@ -48,29 +162,36 @@ export function createTextTo3DProvider(): ITextTo3DProvider {
   
   switch (config.text2mesh) {
     case "MESHY":
-      const meshyKey = process.env.MESHY_API_KEY;
-      if (!meshyKey) {
-        console.warn("[PROVIDER] MESHY_API_KEY not found, falling back to SIM mode");
-        return getSimProvider();
-      }
-      try {
-        return new MeshyProvider(meshyKey);
-      } catch (error) {
-        console.error("[PROVIDER] Failed to create Meshy provider, falling back to SIM:", error);
+      const meshy = createMeshyProvider();
+      if (!meshy) {
+        console.warn("[PROVIDER] Meshy unavailable (check MESHY_API_KEY), falling back to SIM mode");
         return getSimProvider();
       }
+      return meshy;
     case "REPLICATE":
-      const replicateToken = process.env.REPLICATE_API_TOKEN;
-      if (!replicateToken) {
-        console.warn("[PROVIDER] REPLICATE_API_TOKEN not found, falling back to SIM mode");
+      const replicate = createReplicateProvider();
+      if (!replicate) {
+        console.warn("[PROVIDER] Replicate unavailable (check REPLICATE_API_TOKEN), falling back to SIM mode");
         return getSimProvider();
       }
-      try {
-        return new ReplicateProvider(replicateToken);
-      } catch (error) {
-        console.error("[PROVIDER] Failed to create Replicate provider, falling back to SIM:", error);
+      return replicate;
+    case "SIM":
+    default:
+      return getSimProvider();
+  }
+}
+
+export function createImageTo3DProvider(): IImageTo3DProvider {
+  const config = getProviderConfig();
+
+  switch (config.img2mesh) {
+    case "MESHY":
+      const meshy = createMeshyProvider();
+      if (!meshy) {
+        console.warn("[PROVIDER] Meshy unavailable (check MESHY_API_KEY), falling back to SIM mode");
         return getSimProvider();
       }
+      return meshy;
     case "SIM":
     default:
       return getSimProvider();
@@ -109,6 +230,9 @@ export function createImageToVideoProvider(): IImageToVideoProvider {
 export const ProviderFactory = {
   createTextToImageProvider,
   createTextTo3DProvider,
+  createImageTo3DProvider,
   createTexturingProvider,
   createImageToVideoProvider,
+  createProviderByName,
+  getProviderChain,
 };
\ No newline at end of file
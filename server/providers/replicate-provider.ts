@@ -1,7 +1,21 @@
 // Replicate API provider for Text→3D generation
-import { ITextTo3DProvider, TextTo3DRequest, ProviderJob } from './types';
+import { ITextTo3DProvider, TextTo3DRequest, ProviderJob, ProviderError } from './types';
+import { errorStatusOf } from './retry-policy';
 import { FileService } from '../file-service';
 
+// Progress from the last tqdm bar in prediction logs, e.g. " 45%|████▌     | 29/64 [00:03<00:04,  8.12it/s]"
+export function parseReplicateLogs(logs: string | null | undefined): ProviderJob['progress'] {
+  if (!logs) return undefined;
+
+  const bars = Array.from(logs.matchAll(/(\d{1,3})%\|[^|\n]*\|\s*\d+\/\d+\s*\[[\d:]+<([\d:]+)/g));
+  const last = bars[bars.length - 1];
+  if (!last) return undefined;
+
+  // "mm:ss" or "hh:mm:ss"
+  const etaSeconds = last[2].split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return { percent: Math.min(parseInt(last[1], 10), 99), stage: 'generating', etaSeconds };
+}
+
 export class ReplicateProvider implements ITextTo3DProvider {
   private apiToken: string;
   private baseUrl = 'https://api.replicate.com/v1';
@@ -17,11 +31,6 @@ export class ReplicateProvider implements ITextTo3DProvider {
   async generateMesh(request: TextTo3DRequest): Promise<ProviderJob> {
     console.log('[REPLICATE] Starting text-to-3D generation:', request.prompt);
 
-    const job: ProviderJob = {
-      id: `replicate_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      status: 'processing'
-    };
-
     try {
       // Create prediction with Point-E or similar 3D model
       const response = await fetch(`${this.baseUrl}/predictions`, {
@@ -42,38 +51,52 @@ export class ReplicateProvider implements ITextTo3DProvider {
 
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(`Replicate API error: ${response.status} ${error}`);
+        throw new ProviderError(`Replicate API error: ${response.status} ${error}`, response.status);
       }
 
       const result = await response.json();
       
-      job.result = {
-        assetUrls: [], // Will be populated when prediction completes
-        meta: {
-          replicateId: result.id,
-          prompt: request.prompt,
-          provider: 'REPLICATE',
-          status: result.status,
+      // The prediction ID doubles as our provider job ID so it can be re-polled after a restart
+      const job: ProviderJob = {
+        id: result.id,
+        status: 'processing',
+        result: {
+          assetUrls: [], // Will be populated when prediction completes
+          meta: {
+            replicateId: result.id,
+            prompt: request.prompt,
+            provider: 'REPLICATE',
+            status: result.status,
+          }
         }
       };
 
       this.jobs.set(job.id, job);
 
-      console.log(`[REPLICATE] Text-to-3D job created: ${job.id} (Replicate ID: ${result.id})`);
+      console.log(`[REPLICATE] Text-to-3D job created: ${job.id}`);
       return job;
 
     } catch (error) {
       console.error('[REPLICATE] Error creating text-to-3D job:', error);
-      job.status = 'failed';
-      job.error = error instanceof Error ? error.message : 'Unknown error';
-      return job;
+      return {
+        id: `replicate_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorStatus: errorStatusOf(error),
+      };
     }
   }
 
   async getJobStatus(jobId: string): Promise<ProviderJob> {
-    const job = this.jobs.get(jobId);
+    let job = this.jobs.get(jobId);
     if (!job) {
-      throw new Error(`Job ${jobId} not found`);
+      // Unknown to this instance (e.g. after a restart): the job ID is the prediction ID
+      job = {
+        id: jobId,
+        status: 'processing',
+        result: { assetUrls: [], meta: { replicateId: jobId, provider: 'REPLICATE' } },
+      };
+      this.jobs.set(jobId, job);
     }
 
     // If job has a Replicate prediction ID, check its status
@@ -121,6 +144,10 @@ export class ReplicateProvider implements ITextTo3DProvider {
           } else if (result.status === 'canceled') {
             job.status = 'failed';
             job.error = 'Generation was canceled';
+          } else if (result.status === 'starting') {
+            job.progress = { percent: 0, stage: 'starting' };
+          } else {
+            job.progress = parseReplicateLogs(result.logs) || job.progress;
           }
           
           // Update meta with latest status
@@ -136,6 +163,24 @@ export class ReplicateProvider implements ITextTo3DProvider {
     return job;
   }
 
+  async cancelJob(jobId: string): Promise<void> {
+    const predictionId = this.jobs.get(jobId)?.result?.meta?.replicateId || jobId;
+
+    const response = await fetch(`${this.baseUrl}/predictions/${predictionId}/cancel`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Token ${this.apiToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(`Replicate cancel failed: ${response.status} ${await response.text()}`, response.status);
+    }
+
+    this.jobs.delete(jobId);
+    console.log(`[REPLICATE] Cancelled prediction ${predictionId}`);
+  }
+
   private getWebhookUrl(): string | undefined {
     const baseUrl = process.env.BASE_URL;
     return baseUrl ? `${baseUrl}/api/webhooks/vendor` : undefined;
@@ -148,7 +193,7 @@ export class ReplicateProvider implements ITextTo3DProvider {
     // Replicate webhook format is different, extract job info
     if (payload.id && payload.status) {
       const webhookData = {
-        jobId: `replicate_${payload.id}`, // Match our job ID format
+        jobId: payload.id, // Prediction ID is our provider job ID
         status: payload.status === 'succeeded' ? 'completed' : 'failed',
         result: payload.status === 'succeeded' ? {
           assetUrls: Array.isArray(payload.output) ? payload.output : [payload.output],
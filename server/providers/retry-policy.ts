@@ -0,0 +1,45 @@
+// Retry decisions and attempt bookkeeping for provider calls
+
+import type { JobAttempt } from "@shared/schema";
+import { ProviderError, type RetryPolicy } from "./types";
+
+// Node's codes for a request that never got an answer
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_SOCKET"];
+
+// Only failures with a retryable status are tried again on the same provider;
+// anything else (e.g. the provider rejected the prompt) moves on to the next provider
+export function isRetryable(policy: RetryPolicy, attempt: Pick<JobAttempt, "errorStatus">): boolean {
+  return attempt.errorStatus !== undefined && policy.retryableStatuses.includes(attempt.errorStatus);
+}
+
+// Status to record for a thrown error: the provider's HTTP status, 0 when the request got no
+// answer, and none for local failures (e.g. an image that won't decode), which another try won't fix
+export function errorStatusOf(error: unknown): number | undefined {
+  if (error instanceof ProviderError) return error.status;
+  if (!(error instanceof Error)) return undefined;
+  if (error.name === "AbortError" || error.name === "TimeoutError") return 0;
+
+  const code = (error as { code?: string }).code ?? (error.cause as { code?: string } | undefined)?.code;
+  if (code && NETWORK_ERROR_CODES.includes(code)) return 0;
+  return error instanceof TypeError && error.message === "fetch failed" ? 0 : undefined;
+}
+
+// Exponential backoff before try number failures + 1
+export function backoffDelay(policy: RetryPolicy, failures: number): number {
+  const delay = policy.baseDelayMs * 2 ** Math.max(failures - 1, 0);
+  // Up to 20% jitter so throttled jobs don't retry in lockstep
+  return Math.min(Math.round(delay * (1 + Math.random() * 0.2)), policy.maxDelayMs);
+}
+
+// Close out the attempt still marked running, e.g. when a webhook finishes the job
+export function settleRunningAttempt(
+  attempts: JobAttempt[] | null,
+  update: Pick<JobAttempt, "status"> & Partial<JobAttempt>,
+): JobAttempt[] | null {
+  if (!attempts) return attempts;
+
+  return attempts.map(attempt => attempt.status === "running"
+    ? { ...attempt, ...update, finishedAt: new Date().toISOString() }
+    : attempt
+  );
+}
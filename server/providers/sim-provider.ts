@@ -3,11 +3,13 @@
 import { 
   ITextToImageProvider, 
   ITextTo3DProvider, 
+  IImageTo3DProvider,
   ITexturingProvider, 
   IImageToVideoProvider,
   ProviderJob,
   TextToImageRequest,
   TextTo3DRequest,
+  ImageTo3DRequest,
   TexturingRequest,
   ImageToVideoRequest
 } from "./types";
@@ -83,8 +85,17 @@ function enhancePromptWithCustomizations(prompt: string, customizations: any): s
   return enhanced;
 }
 
-export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, ITexturingProvider, IImageToVideoProvider {
+// Simulated stages, spread evenly over each tool's timer
+interface ProgressPlan {
+  startedAt: number;
+  durationMs: number;
+  stages: string[];
+}
+
+export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, IImageTo3DProvider, ITexturingProvider, IImageToVideoProvider {
   private jobs = new Map<string, ProviderJob>();
+  private progressPlans = new Map<string, ProgressPlan>();
+  private timers = new Map<string, NodeJS.Timeout>(); // Job ID -> pending result timer
 
   private generateJobId(): string {
     return `sim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -97,34 +108,68 @@ export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, ITe
     return job;
   }
 
+  // Produce a job's result after a delay; cancelling the job clears the timer
+  private schedule(jobId: string, run: () => unknown, delayMs: number): void {
+    this.timers.set(jobId, setTimeout(() => {
+      this.timers.delete(jobId);
+      run();
+    }, delayMs));
+  }
+
+  // Write back a result unless the job was cancelled while it was being produced
+  private settle(job: ProviderJob): void {
+    if (this.jobs.has(job.id)) this.jobs.set(job.id, job);
+  }
+
+  private trackProgress(job: ProviderJob, durationMs: number, stages: string[]): void {
+    this.progressPlans.set(job.id, { startedAt: Date.now(), durationMs, stages });
+    job.progress = { percent: 0, stage: stages[0], etaSeconds: Math.ceil(durationMs / 1000) };
+  }
+
+  // Where a running job is along its timer; stops short of 100 until the result lands
+  private currentProgress(jobId: string): ProviderJob["progress"] {
+    const plan = this.progressPlans.get(jobId);
+    if (!plan) return undefined;
+
+    const fraction = Math.min((Date.now() - plan.startedAt) / plan.durationMs, 1);
+    const stage = plan.stages[Math.min(Math.floor(fraction * plan.stages.length), plan.stages.length - 1)];
+    return {
+      percent: Math.min(Math.round(fraction * 100), 95),
+      stage,
+      etaSeconds: Math.max(Math.ceil((plan.durationMs - (Date.now() - plan.startedAt)) / 1000), 0),
+    };
+  }
+
   // Text to Image (using existing FLUX implementation)
   async generateImage(request: TextToImageRequest): Promise<ProviderJob> {
     // For SIM mode, we'll still use the real FLUX.1 implementation
     const job = this.createJob("processing");
+    this.trackProgress(job, 2000, ["generating"]);
     
     // Simulate async processing
-    setTimeout(async () => {
+    this.schedule(job.id, async () => {
       try {
         // Import the existing AI service
         const { AIService } = await import("../ai-service");
-        const result = await AIService.generateTextToImage(request.prompt);
+        const result = await AIService.generateTextToImage(request.prompt, request.options);
         
         if (result.success) {
           job.status = "completed";
           job.result = {
             assetUrls: [result.url],
-            meta: { prompt: request.prompt, model: "FLUX.1-schnell" }
+            meta: { prompt: request.prompt, model: "FLUX.1-schnell", params: request.options }
           };
         } else {
           job.status = "failed";
           job.error = result.error || "Generation failed";
+          job.errorStatus = result.errorStatus;
         }
       } catch (error) {
         job.status = "failed";
         job.error = error instanceof Error ? error.message : "Unknown error";
       }
       
-      this.jobs.set(job.id, job);
+      this.settle(job);
     }, 2000); // 2 second delay for realism
     
     return job;
@@ -133,9 +178,10 @@ export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, ITe
   // Text to 3D (Enhanced with image preview and real generation)
   async generateMesh(request: TextTo3DRequest): Promise<ProviderJob> {
     const job = this.createJob("processing");
+    this.trackProgress(job, 8000, ["preview", "mesh", "refine", "downloading"]);
     
     // Simulate realistic generation process
-    setTimeout(async () => {
+    this.schedule(job.id, async () => {
       try {
         // Step 1: Generate image preview first (like Meshy AI)
         const { AIService } = await import("../ai-service");
@@ -198,22 +244,60 @@ export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, ITe
           }
         }
         
-        this.jobs.set(job.id, job);
+        this.settle(job);
       } catch (error) {
         job.status = "failed";
         job.error = error instanceof Error ? error.message : "3D generation failed";
-        this.jobs.set(job.id, job);
+        this.settle(job);
       }
     }, 8000); // Longer delay for realistic 3D generation
     
     return job;
   }
 
+  // Image to 3D (the input image doubles as the preview)
+  async generateMeshFromImage(request: ImageTo3DRequest): Promise<ProviderJob> {
+    const job = this.createJob("processing");
+    this.trackProgress(job, 8000, ["analyzing", "mesh", "refine", "downloading"]);
+
+    this.schedule(job.id, async () => {
+      const selectedModel = selectModelFromPrompt(request.prompt || "");
+
+      job.status = "completed";
+      job.result = {
+        assetUrls: [selectedModel],
+        previewImage: request.imageUrl,
+        meta: {
+          prompt: request.prompt,
+          provider: "SIM",
+          type: "3D_from_image",
+          note: `Generated 3D model from image${request.prompt ? ` for: "${request.prompt}"` : ""}`
+        }
+      };
+
+      if (process.env.SIMULATE_WEBHOOKS === 'true') {
+        try {
+          const updatedResult = await this.simulateWebhookWithFileDownload(job.id, job.result);
+          if (updatedResult) {
+            job.result = updatedResult;
+          }
+        } catch (error) {
+          console.error(`[SIM ERROR] Failed to simulate webhook for job ${job.id}:`, error);
+        }
+      }
+
+      this.settle(job);
+    }, 8000);
+
+    return job;
+  }
+
   // AI Texturing
   async generateTextures(request: TexturingRequest): Promise<ProviderJob> {
     const job = this.createJob("processing");
+    this.trackProgress(job, 6000, ["albedo", "normal", "roughness"]);
     
-    setTimeout(() => {
+    this.schedule(job.id, () => {
       job.status = "completed";
       job.result = {
         assetUrls: [
@@ -232,7 +316,7 @@ export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, ITe
           }
         }
       };
-      this.jobs.set(job.id, job);
+      this.settle(job);
     }, 6000);
     
     return job;
@@ -241,8 +325,9 @@ export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, ITe
   // Image to Video
   async generateVideo(request: ImageToVideoRequest): Promise<ProviderJob> {
     const job = this.createJob("processing");
+    this.trackProgress(job, 10000, ["motion", "frames", "encoding"]);
     
-    setTimeout(() => {
+    this.schedule(job.id, () => {
       job.status = "completed";
       job.result = {
         assetUrls: [SIM_ASSETS.VIDEO_SAMPLE],
@@ -253,7 +338,7 @@ export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, ITe
           note: "This is a sample video for demonstration"
         }
       };
-      this.jobs.set(job.id, job);
+      this.settle(job);
     }, 10000); // Longest delay for video generation
     
     return job;
@@ -265,9 +350,24 @@ export class SimProvider implements ITextToImageProvider, ITextTo3DProvider, ITe
     if (!job) {
       throw new Error(`Job ${jobId} not found`);
     }
+
+    if (job.status === "processing") {
+      job.progress = this.currentProgress(jobId);
+    } else {
+      this.progressPlans.delete(jobId);
+      job.progress = job.status === "completed" ? { percent: 100, stage: "completed", etaSeconds: 0 } : undefined;
+    }
     return job;
   }
 
+  // Stop the job's timer and forget it; a result already being produced is dropped
+  async cancelJob(jobId: string): Promise<void> {
+    clearTimeout(this.timers.get(jobId));
+    this.timers.delete(jobId);
+    this.jobs.delete(jobId);
+    this.progressPlans.delete(jobId);
+  }
+
   // Simulate webhook with file download for comprehensive testing
   private async simulateWebhookWithFileDownload(jobId: string, result: any): Promise<any> {
     const baseUrl = process.env.BASE_URL;
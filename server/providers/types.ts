@@ -1,23 +1,31 @@
 // Provider interfaces for AI studio tools
 
+import type { JobProgress, MeshProcessingOptions, TextToImageParams, Tool } from "@shared/schema";
+
 export interface ProviderJob {
   id: string;
   status: "queued" | "processing" | "completed" | "failed";
+  progress?: JobProgress; // Set while processing when the provider can tell
   result?: {
     assetUrls: string[];
     previewImage?: string; // For image preview alongside 3D models
     meta?: Record<string, any>;
   };
   error?: string;
+  errorStatus?: number; // HTTP status behind a failure, 0 for network errors; unset when generation itself failed
+}
+
+// Failed provider API call; status lets the retry policy tell throttling from bad requests
+export class ProviderError extends Error {
+  constructor(message: string, public status: number = 0) {
+    super(message);
+    this.name = "ProviderError";
+  }
 }
 
 export interface TextToImageRequest {
   prompt: string;
-  options?: {
-    width?: number;
-    height?: number;
-    steps?: number;
-  };
+  options?: TextToImageParams; // Resolved when the job was created, so every field is normally set
 }
 
 export interface TextTo3DRequest {
@@ -34,6 +42,15 @@ export interface TextTo3DRequest {
   };
 }
 
+export interface ImageTo3DRequest {
+  imageUrl: string; // Uploaded image or a previously generated text2image asset
+  prompt?: string;
+  options?: {
+    style?: string;
+    enablePbr?: boolean;
+  };
+}
+
 export interface TexturingRequest {
   modelUrl: string; // URL to uploaded .glb file
   prompt: string;
@@ -52,29 +69,61 @@ export interface ImageToVideoRequest {
   };
 }
 
+export interface MeshProcessingRequest {
+  modelUrl: string; // A finished model asset
+  options: MeshProcessingOptions; // Resolved when the job was created
+}
+
 export interface ITextToImageProvider {
   generateImage(request: TextToImageRequest): Promise<ProviderJob>;
   getJobStatus(jobId: string): Promise<ProviderJob>;
+  cancelJob?(jobId: string): Promise<void>; // Best effort; the job row is already cancelled
 }
 
 export interface ITextTo3DProvider {
   generateMesh(request: TextTo3DRequest): Promise<ProviderJob>;
   getJobStatus(jobId: string): Promise<ProviderJob>;
+  cancelJob?(jobId: string): Promise<void>;
+}
+
+export interface IImageTo3DProvider {
+  generateMeshFromImage(request: ImageTo3DRequest): Promise<ProviderJob>;
+  getJobStatus(jobId: string): Promise<ProviderJob>;
+  cancelJob?(jobId: string): Promise<void>;
 }
 
 export interface ITexturingProvider {
   generateTextures(request: TexturingRequest): Promise<ProviderJob>;
   getJobStatus(jobId: string): Promise<ProviderJob>;
+  cancelJob?(jobId: string): Promise<void>;
 }
 
 export interface IImageToVideoProvider {
   generateVideo(request: ImageToVideoRequest): Promise<ProviderJob>;
   getJobStatus(jobId: string): Promise<ProviderJob>;
+  cancelJob?(jobId: string): Promise<void>;
+}
+
+export interface IMeshProcessingProvider {
+  processMesh(request: MeshProcessingRequest): Promise<ProviderJob>;
+  getJobStatus(jobId: string): Promise<ProviderJob>;
+  cancelJob?(jobId: string): Promise<void>;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Tries per provider, including the first
+  baseDelayMs: number; // Backoff before the second try; doubles after each failure
+  maxDelayMs: number;
+  retryableStatuses: number[]; // HTTP statuses worth retrying on the same provider (0 = network error)
 }
 
 export interface ProviderConfig {
   text2image: string; // "FLUX" | "SIM"
   text2mesh: string; // "MESHY" | "REPLICATE" | "SIM"
+  img2mesh: string; // "MESHY" | "SIM"
   texturing: string; // "MESHY" | "SIM"
   img2video: string; // "REPLICATE" | "SIM"
+  meshprocess: string; // "LOCAL"
+  fallbacks: Record<Tool, string[]>; // Tried in order once the primary provider gives up
+  retry: Record<Tool, RetryPolicy>;
 }
\ No newline at end of file
@@ -0,0 +1,210 @@
+// Durable job queue: workers claim queued rows from the jobs table under a lease
+
+import os from "os";
+import crypto from "crypto";
+import { db, eq, and, or, lt, isNull, asc } from "../db";
+import { jobs, toolSchema, type Job, type Tool } from "@shared/schema";
+import { JobService } from "../job-service";
+import { JobEvents } from "../job-events";
+
+export interface QueueConfig {
+  concurrency: Record<Tool, number>; // Max jobs per tool running on this worker
+  leaseMs: number; // How long a claim stays valid without a heartbeat
+  pollIntervalMs: number; // How often the worker looks for new work
+}
+
+// Get queue configuration from environment
+export function getQueueConfig(): QueueConfig {
+  const positiveInt = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || "", 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    concurrency: {
+      text2image: positiveInt("QUEUE_CONCURRENCY_TEXT2IMAGE", 4),
+      text2mesh: positiveInt("QUEUE_CONCURRENCY_3D", 2),
+      img2mesh: positiveInt("QUEUE_CONCURRENCY_IMAGE_3D", 2),
+      texturing: positiveInt("QUEUE_CONCURRENCY_TEXTURE", 2),
+      img2video: positiveInt("QUEUE_CONCURRENCY_VIDEO", 1),
+      meshprocess: positiveInt("QUEUE_CONCURRENCY_MESH_PROCESSING", 1), // CPU-bound, on this machine
+    },
+    leaseMs: positiveInt("QUEUE_LEASE_MS", 60_000),
+    pollIntervalMs: positiveInt("QUEUE_POLL_INTERVAL_MS", 1_000),
+  };
+}
+
+export class JobQueue {
+  static readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`;
+
+  private static config: QueueConfig = getQueueConfig();
+  private static active = new Map<string, Tool>(); // Job ID -> tool, for jobs running here
+  private static timer: NodeJS.Timeout | null = null;
+  private static ticking = false;
+
+  // Recover orphaned jobs and start claiming work
+  static async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.config = getQueueConfig();
+    this.timer = setInterval(() => this.tick(), this.config.pollIntervalMs);
+
+    console.log(`[QUEUE] Worker ${this.workerId} started with limits:`, this.config.concurrency);
+    await this.recover();
+    this.notify();
+  }
+
+  // Stop claiming new jobs; in-flight jobs keep running until their handlers return
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Wake the worker right away instead of waiting for the next poll
+  static notify(): void {
+    setImmediate(() => this.tick());
+  }
+
+  // Whether this worker still holds the lease on a job
+  static async ownsLease(jobId: string): Promise<boolean> {
+    const [job] = await db.select({ leaseOwner: jobs.leaseOwner, status: jobs.status })
+      .from(jobs)
+      .where(eq(jobs.id, jobId));
+    return !!job && job.status === "processing" && job.leaseOwner === this.workerId;
+  }
+
+  // Boot-time recovery of jobs left behind by a previous process
+  static async recover(): Promise<void> {
+    const queued = await db.select({ id: jobs.id }).from(jobs).where(eq(jobs.status, "queued"));
+    const resumed = await this.reclaimExpiredLeases();
+
+    console.log(`[QUEUE] Recovery: ${queued.length} queued job(s) pending, ${resumed} processing job(s) reclaimed`);
+  }
+
+  private static activeCount(tool: Tool): number {
+    let count = 0;
+    for (const activeTool of Array.from(this.active.values())) {
+      if (activeTool === tool) count++;
+    }
+    return count;
+  }
+
+  private static hasCapacity(tool: Tool): boolean {
+    return this.activeCount(tool) < this.config.concurrency[tool];
+  }
+
+  private static async tick(): Promise<void> {
+    if (this.ticking || !this.timer) return;
+    this.ticking = true;
+
+    try {
+      await this.reclaimExpiredLeases();
+
+      for (const tool of toolSchema.options) {
+        while (this.hasCapacity(tool)) {
+          const job = await this.claimNext(tool);
+          if (!job) break;
+          this.run(job, () => JobService.processJob(job));
+        }
+      }
+    } catch (error) {
+      console.error("[QUEUE] Error while claiming jobs:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Claim the oldest queued job for a tool
+  private static async claimNext(tool: Tool): Promise<Job | null> {
+    const candidates = await db.select()
+      .from(jobs)
+      .where(and(eq(jobs.tool, tool), eq(jobs.status, "queued")))
+      .orderBy(asc(jobs.createdAt))
+      .limit(5);
+
+    for (const candidate of candidates) {
+      const claimed = await this.acquireLease(candidate.id, eq(jobs.status, "queued"));
+      if (claimed) return claimed;
+    }
+
+    return null;
+  }
+
+  // Take over "processing" jobs whose owner stopped heartbeating
+  private static async reclaimExpiredLeases(): Promise<number> {
+    const leaseExpired = () => and(
+      eq(jobs.status, "processing"),
+      or(isNull(jobs.leaseExpiresAt), lt(jobs.leaseExpiresAt, new Date())),
+    );
+
+    const stale = await db.select().from(jobs).where(leaseExpired());
+    let reclaimed = 0;
+
+    for (const job of stale) {
+      const tool = job.tool as Tool;
+      if (this.active.has(job.id) || !this.hasCapacity(tool)) continue;
+
+      const claimed = await this.acquireLease(job.id, leaseExpired());
+      if (!claimed) continue;
+
+      console.log(`[QUEUE] Reclaimed job ${job.id} from ${job.leaseOwner || "unknown worker"}`);
+      this.run(claimed, () => JobService.resumeJob(claimed));
+      reclaimed++;
+    }
+
+    return reclaimed;
+  }
+
+  // Conditional update so only one worker wins a given job
+  private static async acquireLease(jobId: string, guard: any): Promise<Job | null> {
+    const now = new Date();
+    const [claimed] = await db.update(jobs)
+      .set({
+        status: "processing",
+        leaseOwner: this.workerId,
+        leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs),
+        heartbeatAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(jobs.id, jobId), guard))
+      .returning();
+
+    return claimed || null;
+  }
+
+  // Run a claimed job, heartbeating its lease until the handler settles
+  private static run(job: Job, handler: () => Promise<void>): void {
+    this.active.set(job.id, job.tool as Tool);
+    JobEvents.publishJob(job);
+
+    const heartbeat = setInterval(() => {
+      this.heartbeat(job.id).catch((error) => {
+        console.error(`[QUEUE] Heartbeat failed for job ${job.id}:`, error);
+      });
+    }, Math.max(1000, Math.floor(this.config.leaseMs / 3)));
+
+    handler()
+      .catch((error) => console.error(`[QUEUE] Job ${job.id} handler crashed:`, error))
+      .finally(() => {
+        clearInterval(heartbeat);
+        this.active.delete(job.id);
+        this.notify();
+      });
+  }
+
+  private static async heartbeat(jobId: string): Promise<void> {
+    const now = new Date();
+    await db.update(jobs)
+      .set({
+        heartbeatAt: now,
+        leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs),
+      })
+      .where(and(
+        eq(jobs.id, jobId),
+        eq(jobs.status, "processing"),
+        eq(jobs.leaseOwner, this.workerId),
+      ));
+  }
+}
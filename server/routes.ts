@@ -1,16 +1,44 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import rateLimit from "express-rate-limit";
-import { JobService } from "./job-service";
+import { JobService, JobNotCancellableError, SourceAssetNotFoundError } from "./job-service";
+import { PipelineService, PipelineStateError, latestStepJobs, type PipelineRun } from "./pipeline-service";
+import { PresetService, PresetNotFoundError, PresetValidationError } from "./preset-service";
+import { BulkService, BulkValidationError, toCsv } from "./bulk-service";
+import { AssetService, type RankedAsset } from "./asset-service";
+import { CollectionService, CollectionNotFoundError, CollectionNameTakenError } from "./collection-service";
+import { InspectionService, NotInspectableError } from "./inspection-service";
+import { CreditService } from "./credit-service";
 import { WebhookService } from "./webhook-service";
-import { toolSchema, toolCosts } from "@shared/schema";
+import { JobEvents } from "./job-events";
+import {
+  toolSchema,
+  toolCosts,
+  batchRequestSchema,
+  bulkRequestSchema,
+  pipelineRequestSchema,
+  presetToolSchema,
+  presetRequestSchema,
+  presetUpdateSchema,
+  collectionRequestSchema,
+  assetUpdateSchema,
+  assetBulkActionSchema,
+  type Tool,
+  type Preset,
+  type Job,
+} from "@shared/schema";
 import { AIService } from "./ai-service";
+import { setupAuth, requireAuth } from "./auth";
+import { FileService, MAX_UPLOAD_BYTES } from "./file-service";
+import { getStorageBackend, keyFromAssetUrl, assetUrlForKey } from "./storage-backend/backend-factory";
+import { viewUrl, viewUrls } from "./storage-backend/signed-urls";
+import { ConversionService } from "./conversion/conversion-service";
+import { ConversionError, MODEL_FORMATS } from "./conversion/types";
+import multer from "multer";
+import path from "path";
 import { z } from "zod";
 import crypto from "crypto";
 
-const DEMO_USER_ID = "demo-user";
-const DEMO_SESSION_ID = "demo-session";
-
 // Rate limiting middleware for mutating operations only
 const generalRateLimit = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minute
@@ -19,42 +47,268 @@ const generalRateLimit = rateLimit({
   skip: (req) => req.method === "HEAD" || req.method === "GET" // Skip rate limiting for read operations
 });
 
+// Uploads are validated in memory before anything touches disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+const uploadKindSchema = z.enum(["model", "image"]);
+
+// Job inputs are merged into presets and resolved options, so only a plain object is accepted
+const jobInputsSchema = z.record(z.any()).nullable().optional();
+
+// A date-only "to" covers that whole day
+const endOfDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value)
+  ? new Date(new Date(value).getTime() + 24 * 60 * 60 * 1000)
+  : new Date(value);
+
+const assetQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+  offset: z.coerce.number().int().min(0).default(0),
+  tool: toolSchema.optional(),
+  kind: z.enum(["image", "model", "video", "file"]).optional(),
+  status: z.enum(["pending", "ready", "unavailable"]).optional(),
+  from: z.string().refine(value => !isNaN(Date.parse(value)), "from must be a date").transform(value => new Date(value)).optional(),
+  to: z.string().refine(value => !isNaN(Date.parse(value)), "to must be a date").transform(endOfDay).optional(),
+  q: z.string().trim().max(200).optional(),
+  collection: z.string().optional(), // A collection id, or "none" for unfiled assets
+  tag: z.string().trim().toLowerCase().optional(),
+  favorite: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  sort: z.enum(["relevance", "newest", "oldest", "largest", "smallest"]).optional(), // Relevance when searching, else newest
+});
+
+const similarQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+  q: z.string().trim().min(1).max(500).optional(),
+});
+
+const downloadQuerySchema = z.object({
+  format: z.enum(MODEL_FORMATS, {
+    errorMap: () => ({ message: `format must be one of ${MODEL_FORMATS.join(", ")}` }),
+  }).optional(),
+});
+
+// Accept one file under "file", turning multer's errors into JSON responses
+function acceptFile(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).json({ error: err.code === "LIMIT_FILE_SIZE" ? "File too large" : err.message });
+    }
+    if (err) return next(err);
+    next();
+  });
+}
+
+// Bulk requests arrive as JSON, or as a form with the CSV/JSON file under "file" and inputs as a JSON string
+function bulkRequestBody(req: Request): unknown {
+  if (!req.file) return req.body;
+
+  const { inputs, ...fields } = req.body;
+  let parsedInputs: unknown;
+  try {
+    parsedInputs = inputs ? JSON.parse(inputs) : undefined;
+  } catch {
+    throw new BulkValidationError("inputs must be a JSON object");
+  }
+
+  return { ...fields, inputs: parsedInputs, ...BulkService.parseUpload(req.file.originalname, req.file.buffer) };
+}
+
+// Tool-specific input checks shared by single jobs and batches
+function validateJobInputs(tool: Tool, inputs: any): string | null {
+  if (tool === "img2mesh" && (!inputs?.imageUrl || typeof inputs.imageUrl !== "string")) {
+    return "An input image is required for Image to 3D";
+  }
+  if (tool === "texturing" && (!inputs?.modelUrl || typeof inputs.modelUrl !== "string")) {
+    return "A 3D model is required for AI Texturing";
+  }
+  if (tool === "img2video" && (!inputs?.imageUrl || typeof inputs.imageUrl !== "string")) {
+    return "An input image is required for Image to Video";
+  }
+  if (tool === "meshprocess" && (!inputs?.assetId || typeof inputs.assetId !== "string")) {
+    return "A model asset is required for mesh optimization";
+  }
+  return null;
+}
+
+// Map job creation errors to the status codes clients rely on
+function sendJobCreationError(res: Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+
+  if (error instanceof PresetNotFoundError || error instanceof SourceAssetNotFoundError) {
+    return res.status(404).json({ error: message });
+  }
+  if (message.includes("Insufficient credits")) {
+    return res.status(402).json({ error: "Insufficient credits", message });
+  }
+  if (message.includes("Rate limit")) {
+    return res.status(429).json({ error: "Rate limit exceeded", message });
+  }
+
+  res.status(400).json({ error: message });
+}
+
+// Small preview for job lists: the generated image's, or the 3D preview image's
+function jobThumbnailUrl(job: Job): string | null {
+  return viewUrl(FileService.thumbnailUrlFor(job.tool === "text2image" ? job.assetUrls?.[0] : job.previewImage));
+}
+
+// Job inputs with the stored source files signed, so a remix can show and resend them
+function jobInputsResponse(inputs: unknown): unknown {
+  if (!inputs || typeof inputs !== "object") return inputs;
+  const signed: Record<string, any> = { ...inputs };
+  for (const field of ["imageUrl", "modelUrl"]) {
+    if (typeof signed[field] === "string") signed[field] = viewUrl(signed[field]);
+  }
+  return signed;
+}
+
+// Job meta with the stored files it lists (LOD outputs, inspected models) signed
+function jobMetaResponse(meta: unknown): unknown {
+  if (!meta || typeof meta !== "object") return meta;
+  const signed: Record<string, any> = { ...meta };
+  for (const field of ["lods", "inspections"]) {
+    if (Array.isArray(signed[field])) {
+      signed[field] = signed[field].map((entry: Record<string, any>) => ({ ...entry, url: viewUrl(entry.url) }));
+    }
+  }
+  return signed;
+}
+
+function assetResponse(asset: RankedAsset) {
+  return {
+    id: asset.id,
+    jobId: asset.jobId,
+    tool: asset.tool,
+    jobType: asset.tool === "text2image" ? "text-to-image" : asset.tool, // Name older clients expect
+    kind: asset.kind,
+    prompt: asset.prompt,
+    url: viewUrl(asset.url),
+    mimeType: asset.mimeType,
+    sizeBytes: asset.sizeBytes,
+    width: asset.width,
+    height: asset.height,
+    status: asset.status,
+    collectionId: asset.collectionId,
+    favorite: asset.favorite,
+    tags: asset.tags || [],
+    previewUrl: viewUrl(asset.derivatives?.find(derivative => derivative.status === "ready")?.url),
+    derivatives: (asset.derivatives || []).map(derivative => ({
+      kind: derivative.kind,
+      status: derivative.status,
+      url: viewUrl(derivative.url),
+      width: derivative.width,
+      height: derivative.height,
+      error: derivative.error,
+    })),
+    rank: asset.rank,
+    similarity: asset.similarity,
+    createdAt: asset.createdAt,
+  };
+}
+
+function presetResponse(preset: Preset, userId: string) {
+  return {
+    id: preset.id,
+    tool: preset.tool,
+    name: preset.name,
+    description: preset.description,
+    promptTemplate: preset.promptTemplate,
+    inputs: preset.inputs,
+    isShared: preset.isShared,
+    isOwner: preset.userId === userId,
+    createdAt: preset.createdAt,
+    updatedAt: preset.updatedAt
+  };
+}
+
+// Pipeline with the latest job of each step
+function pipelineResponse({ pipeline, jobs }: PipelineRun) {
+  const latest = latestStepJobs(jobs);
+
+  return {
+    id: pipeline.id,
+    name: pipeline.name,
+    prompt: pipeline.prompt,
+    status: pipeline.status,
+    creditsUsed: pipeline.creditsUsed,
+    createdAt: pipeline.createdAt,
+    updatedAt: pipeline.updatedAt,
+    steps: pipeline.steps.map(step => {
+      const job = latest.get(step.id);
+      return {
+        id: step.id,
+        tool: step.tool,
+        prompt: step.prompt || pipeline.prompt,
+        dependsOn: step.dependsOn,
+        runs: jobs.filter(run => run.pipelineStep === step.id).length,
+        job: job ? {
+          id: job.id,
+          status: job.status,
+          progress: job.progress,
+          assetUrls: viewUrls(job.assetUrls),
+          previewImage: viewUrl(job.previewImage),
+          thumbnailUrl: jobThumbnailUrl(job),
+          error: job.status === "failed" ? (job.meta as any)?.error : (job.meta as any)?.reason,
+          updatedAt: job.updatedAt
+        } : null
+      };
+    })
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Apply rate limiting to write routes only
   app.use("/api", generalRateLimit);
 
+  // Sessions, passport and the /api/auth/* endpoints
+  setupAuth(app);
+
   // Get user credits
-  app.get("/api/credits", async (req, res) => {
+  app.get("/api/credits", requireAuth, async (req, res) => {
     try {
-      const { db } = await import("./db");
-      const { users } = await import("@shared/schema");
-      const [user] = await db.select({ credits: users.credits })
-        .from(users)
-        .where({ column: 'id', value: DEMO_USER_ID });
-
-      if (!user) {
-        // Create demo user if doesn't exist
-        await db.insert(users).values({
-          id: DEMO_USER_ID,
-          username: "demo",
-          password: "demo",
-          credits: 25
-        }).onConflictDoNothing();
-        
-        return res.json({ credits: 25 });
-      }
-
-      res.json({ credits: user.credits });
+      res.json({ credits: await CreditService.getBalance(req.user!.id) });
     } catch (error) {
       console.error("Error getting credits:", error);
       res.status(500).json({ error: "Failed to get credits" });
     }
   });
 
+  // Credit ledger for the current user, newest first
+  app.get("/api/credits/history", requireAuth, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const [balance, transactions] = await Promise.all([
+        CreditService.getBalance(req.user!.id),
+        CreditService.getHistory(req.user!.id, limit, offset),
+      ]);
+
+      res.json({
+        balance,
+        transactions: transactions.map(entry => ({
+          id: entry.id,
+          kind: entry.kind,
+          amount: entry.amount,
+          jobId: entry.jobId,
+          note: entry.note,
+          createdAt: entry.createdAt,
+        })),
+      });
+    } catch (error) {
+      console.error("Error getting credit history:", error);
+      res.status(500).json({ error: "Failed to get credit history" });
+    }
+  });
+
   // Create a new job
-  app.post("/api/jobs", async (req, res) => {
+  app.post("/api/jobs", requireAuth, async (req, res) => {
     try {
-      const { tool, prompt, inputs } = req.body;
+      const { tool, presetId } = req.body;
+      let { prompt, inputs } = req.body;
 
       // Validate tool
       const validatedTool = toolSchema.parse(tool);
@@ -62,13 +316,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!prompt || typeof prompt !== "string") {
         return res.status(400).json({ error: "Prompt is required" });
       }
+      if (!jobInputsSchema.safeParse(inputs).success) {
+        return res.status(400).json({ error: "inputs must be an object" });
+      }
+
+      // A preset wraps the prompt in its template and fills in settings the request leaves out
+      if (presetId) {
+        ({ prompt, inputs } = await PresetService.applyPreset(presetId, req.user!.id, validatedTool, prompt, inputs));
+      }
+
+      const inputError = validateJobInputs(validatedTool, inputs);
+      if (inputError) {
+        return res.status(400).json({ error: inputError });
+      }
 
       const job = await JobService.createJob({
         tool: validatedTool,
         prompt,
         inputs: inputs || {},
-        userId: DEMO_USER_ID,
-        sessionId: DEMO_SESSION_ID
+        presetId,
+        userId: req.user!.id,
+        sessionId: req.sessionID
       });
 
       res.json({
@@ -79,32 +347,530 @@ export async function registerRoutes(app: Express): Promise<Server> {
           prompt: job.prompt,
           status: job.status,
           creditsUsed: job.creditsUsed,
+          presetId: job.presetId,
           createdAt: job.createdAt
         }
       });
 
     } catch (error) {
       console.error("Error creating job:", error);
-      const message = error instanceof Error ? error.message : "Failed to create job";
-      
-      if (message.includes("Insufficient credits")) {
-        return res.status(402).json({ error: "Insufficient credits", message });
+      sendJobCreationError(res, error, "Failed to create job");
+    }
+  });
+
+  // Re-run a past job with overrides, keeping a link to the original
+  app.post("/api/jobs/:jobId/remix", requireAuth, async (req, res) => {
+    try {
+      const overrides = z.object({
+        prompt: z.string().optional(),
+        inputs: z.record(z.any()).optional(),
+      }).safeParse(req.body || {});
+      if (!overrides.success) {
+        return res.status(400).json({ error: "Invalid remix overrides" });
       }
-      if (message.includes("Rate limit")) {
-        return res.status(429).json({ error: "Rate limit exceeded", message });
+
+      const job = await JobService.remixJob(req.params.jobId, {
+        ...overrides.data,
+        userId: req.user!.id,
+        sessionId: req.sessionID
+      });
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.status(201).json({
+        success: true,
+        job: {
+          id: job.id,
+          tool: job.tool,
+          prompt: job.prompt,
+          status: job.status,
+          creditsUsed: job.creditsUsed,
+          parentJobId: job.parentJobId,
+          createdAt: job.createdAt
+        }
+      });
+
+    } catch (error) {
+      console.error("Error remixing job:", error);
+      sendJobCreationError(res, error, "Failed to remix job");
+    }
+  });
+
+  // Create a batch of variations of one prompt
+  app.post("/api/batches", requireAuth, async (req, res) => {
+    try {
+      const parsed = batchRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid batch request" });
+      }
+
+      if (parsed.data.presetId) {
+        const applied = await PresetService.applyPreset(parsed.data.presetId, req.user!.id, parsed.data.tool, parsed.data.prompt, parsed.data.inputs);
+        Object.assign(parsed.data, { prompt: applied.prompt, inputs: applied.inputs });
+      }
+
+      const inputError = validateJobInputs(parsed.data.tool, parsed.data.inputs);
+      if (inputError) {
+        return res.status(400).json({ error: inputError });
+      }
+
+      const { batch, jobs } = await JobService.createBatch({
+        ...parsed.data,
+        userId: req.user!.id,
+        sessionId: req.sessionID
+      });
+
+      res.status(201).json({
+        success: true,
+        batch: {
+          id: batch.id,
+          tool: batch.tool,
+          prompt: batch.prompt,
+          count: batch.count,
+          creditsUsed: batch.creditsUsed,
+          createdAt: batch.createdAt,
+          jobIds: jobs.map(job => job.id)
+        }
+      });
+
+    } catch (error) {
+      console.error("Error creating batch:", error);
+      sendJobCreationError(res, error, "Failed to create batch");
+    }
+  });
+
+  // Get a batch with all of its variations
+  app.get("/api/batches/:batchId", requireAuth, async (req, res) => {
+    try {
+      const result = await JobService.getBatch(req.params.batchId, req.user!.id);
+      if (!result) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+
+      const { batch, jobs } = result;
+      res.json({
+        id: batch.id,
+        tool: batch.tool,
+        prompt: batch.prompt,
+        template: batch.template,
+        count: batch.count,
+        creditsUsed: batch.creditsUsed,
+        createdAt: batch.createdAt,
+        jobs: jobs.map(job => ({
+          id: job.id,
+          prompt: job.prompt,
+          status: job.status,
+          seed: (job.inputs as any)?.options?.seed,
+          assetUrls: viewUrls(job.assetUrls),
+          previewImage: viewUrl(job.previewImage),
+          thumbnailUrl: jobThumbnailUrl(job),
+          progress: job.progress,
+          isFavorite: job.isFavorite,
+          error: job.status === "failed" ? (job.meta as any)?.error : undefined,
+          updatedAt: job.updatedAt
+        }))
+      });
+
+    } catch (error) {
+      console.error("Error getting batch:", error);
+      res.status(500).json({ error: "Failed to get batch" });
+    }
+  });
+
+  // Expand a template over uploaded rows and price it, without creating anything
+  app.post("/api/bulk/preview", requireAuth, acceptFile, async (req, res) => {
+    try {
+      const parsed = bulkRequestSchema.safeParse(bulkRequestBody(req));
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid bulk request" });
+      }
+
+      const preview = await BulkService.preview(req.user!.id, parsed.data);
+      res.json({
+        tool: preview.tool,
+        template: preview.template,
+        variables: preview.variables,
+        columns: preview.columns,
+        rows: preview.rows,
+        count: preview.rows.length,
+        invalidRows: preview.invalidRows,
+        costPerJob: preview.costPerJob,
+        totalCost: preview.totalCost,
+        balance: preview.balance,
+        canAfford: preview.balance >= preview.totalCost,
+      });
+
+    } catch (error) {
+      console.error("Error previewing bulk request:", error);
+      sendJobCreationError(res, error, "Failed to preview bulk request");
+    }
+  });
+
+  // Expand a template over uploaded rows into a batch with one job per row
+  app.post("/api/bulk", requireAuth, acceptFile, async (req, res) => {
+    try {
+      const parsed = bulkRequestSchema.safeParse(bulkRequestBody(req));
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid bulk request" });
+      }
+
+      const preview = await BulkService.preview(req.user!.id, parsed.data);
+      const inputError = validateJobInputs(preview.tool, preview.inputs);
+      if (inputError) {
+        return res.status(400).json({ error: inputError });
+      }
+
+      const { batch, jobs } = await BulkService.createBulkBatch(preview, req.user!.id, req.sessionID, parsed.data.presetId);
+
+      res.status(201).json({
+        success: true,
+        batch: {
+          id: batch.id,
+          tool: batch.tool,
+          template: batch.template,
+          count: batch.count,
+          creditsUsed: batch.creditsUsed,
+          createdAt: batch.createdAt,
+          jobIds: jobs.map(job => job.id)
+        }
+      });
+
+    } catch (error) {
+      console.error("Error creating bulk batch:", error);
+      sendJobCreationError(res, error, "Failed to create bulk batch");
+    }
+  });
+
+  // Each row of a batch mapped to what it produced, as CSV (default) or JSON
+  app.get("/api/batches/:batchId/export", requireAuth, async (req, res) => {
+    try {
+      const format = req.query.format === "json" ? "json" : "csv";
+      const result = await BulkService.exportBatch(req.params.batchId, req.user!.id);
+      if (!result) {
+        return res.status(404).json({ error: "Batch not found" });
+      }
+
+      const { batch, columns, records } = result;
+      res.setHeader("Content-Disposition", `attachment; filename="batch-${batch.id}.${format}"`);
+
+      if (format === "json") {
+        return res.json({ batchId: batch.id, template: batch.template, rows: records });
+      }
+
+      const lines = records.map(record => columns.map(column => {
+        const value = record[column];
+        if (Array.isArray(value)) return value.join(" ");
+        return value === undefined || value === null ? "" : String(value);
+      }));
+      res.type("text/csv").send(toCsv([columns, ...lines]));
+
+    } catch (error) {
+      console.error("Error exporting batch:", error);
+      res.status(500).json({ error: "Failed to export batch" });
+    }
+  });
+
+  // Mark or unmark a job as a favourite
+  app.post("/api/jobs/:jobId/favorite", requireAuth, async (req, res) => {
+    try {
+      const favorite = z.object({ favorite: z.boolean() }).safeParse(req.body);
+      if (!favorite.success) {
+        return res.status(400).json({ error: "favorite must be true or false" });
+      }
+
+      const job = await JobService.setFavorite(req.params.jobId, req.user!.id, favorite.data.favorite);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.json({ id: job.id, isFavorite: job.isFavorite });
+
+    } catch (error) {
+      console.error("Error updating favourite:", error);
+      res.status(500).json({ error: "Failed to update favourite" });
+    }
+  });
+
+  // Start a pipeline: a DAG of tool steps, each fed by the outputs of the steps it depends on
+  app.post("/api/pipelines", requireAuth, async (req, res) => {
+    try {
+      // A pipeline preset supplies the steps, and its template wraps the prompt
+      let body = req.body || {};
+      if (body.presetId) {
+        const applied = await PresetService.applyPreset(body.presetId, req.user!.id, "pipeline", body.prompt, { steps: body.steps });
+        body = { ...body, prompt: applied.prompt, steps: applied.inputs.steps };
+      }
+
+      const parsed = pipelineRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid pipeline" });
+      }
+
+      const run = await PipelineService.createPipeline({
+        ...parsed.data,
+        userId: req.user!.id,
+        sessionId: req.sessionID
+      });
+
+      res.status(201).json({ success: true, pipeline: pipelineResponse(run) });
+
+    } catch (error) {
+      console.error("Error creating pipeline:", error);
+      sendJobCreationError(res, error, "Failed to create pipeline");
+    }
+  });
+
+  // List the user's pipelines, newest first
+  app.get("/api/pipelines", requireAuth, async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const runs = await PipelineService.getUserPipelines(req.user!.id, limit, offset);
+
+      res.json({
+        pipelines: runs.map(pipelineResponse),
+        pagination: {
+          limit,
+          offset,
+          hasMore: runs.length === limit
+        }
+      });
+
+    } catch (error) {
+      console.error("Error getting pipelines:", error);
+      res.status(500).json({ error: "Failed to get pipelines" });
+    }
+  });
+
+  app.get("/api/pipelines/:pipelineId", requireAuth, async (req, res) => {
+    try {
+      const run = await PipelineService.getPipeline(req.params.pipelineId, req.user!.id);
+      if (!run) {
+        return res.status(404).json({ error: "Pipeline not found" });
+      }
+
+      res.json(pipelineResponse(run));
+
+    } catch (error) {
+      console.error("Error getting pipeline:", error);
+      res.status(500).json({ error: "Failed to get pipeline" });
+    }
+  });
+
+  // Re-run a failed or cancelled pipeline from the steps that didn't complete
+  app.post("/api/pipelines/:pipelineId/resume", requireAuth, async (req, res) => {
+    try {
+      const run = await PipelineService.resumePipeline(req.params.pipelineId, req.user!.id, req.sessionID);
+      if (!run) {
+        return res.status(404).json({ error: "Pipeline not found" });
+      }
+
+      res.json({ success: true, pipeline: pipelineResponse(run) });
+
+    } catch (error) {
+      if (error instanceof PipelineStateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error resuming pipeline:", error);
+      sendJobCreationError(res, error, "Failed to resume pipeline");
+    }
+  });
+
+  // Cancel a running pipeline and refund the steps that hadn't finished
+  app.post("/api/pipelines/:pipelineId/cancel", requireAuth, async (req, res) => {
+    try {
+      const run = await PipelineService.cancelPipeline(req.params.pipelineId, req.user!.id);
+      if (!run) {
+        return res.status(404).json({ error: "Pipeline not found" });
+      }
+
+      res.json({
+        success: true,
+        pipeline: pipelineResponse(run),
+        credits: await CreditService.getBalance(req.user!.id)
+      });
+
+    } catch (error) {
+      if (error instanceof PipelineStateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error cancelling pipeline:", error);
+      res.status(500).json({ error: "Failed to cancel pipeline" });
+    }
+  });
+
+  // Presets visible to the user: their own and everyone's shared ones
+  app.get("/api/presets", requireAuth, async (req, res) => {
+    try {
+      const tool = presetToolSchema.safeParse(req.query.tool);
+      const list = await PresetService.listPresets(req.user!.id, tool.success ? tool.data : undefined);
+
+      res.json({ presets: list.map(preset => presetResponse(preset, req.user!.id)) });
+
+    } catch (error) {
+      console.error("Error getting presets:", error);
+      res.status(500).json({ error: "Failed to get presets" });
+    }
+  });
+
+  app.post("/api/presets", requireAuth, async (req, res) => {
+    try {
+      const parsed = presetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid preset" });
+      }
+
+      const preset = await PresetService.createPreset(req.user!.id, parsed.data);
+      res.status(201).json({ success: true, preset: presetResponse(preset, req.user!.id) });
+
+    } catch (error) {
+      if (error instanceof PresetValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error creating preset:", error);
+      res.status(500).json({ error: "Failed to create preset" });
+    }
+  });
+
+  app.get("/api/presets/:presetId", requireAuth, async (req, res) => {
+    try {
+      const preset = await PresetService.getPreset(req.params.presetId, req.user!.id);
+      if (!preset) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+
+      res.json(presetResponse(preset, req.user!.id));
+
+    } catch (error) {
+      console.error("Error getting preset:", error);
+      res.status(500).json({ error: "Failed to get preset" });
+    }
+  });
+
+  // Owners only; a shared preset is read-only for everyone else
+  app.patch("/api/presets/:presetId", requireAuth, async (req, res) => {
+    try {
+      const parsed = presetUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid preset" });
+      }
+
+      const preset = await PresetService.updatePreset(req.params.presetId, req.user!.id, parsed.data);
+      if (!preset) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+
+      res.json({ success: true, preset: presetResponse(preset, req.user!.id) });
+
+    } catch (error) {
+      if (error instanceof PresetValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error updating preset:", error);
+      res.status(500).json({ error: "Failed to update preset" });
+    }
+  });
+
+  app.delete("/api/presets/:presetId", requireAuth, async (req, res) => {
+    try {
+      if (!(await PresetService.deletePreset(req.params.presetId, req.user!.id))) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+
+      res.json({ success: true });
+
+    } catch (error) {
+      console.error("Error deleting preset:", error);
+      res.status(500).json({ error: "Failed to delete preset" });
+    }
+  });
+
+  // Upload a job input (3D model for texturing, image for img2video/img2mesh)
+  app.post("/api/uploads", requireAuth, acceptFile, async (req, res) => {
+    try {
+      const kind = uploadKindSchema.safeParse(req.body.kind);
+      if (!kind.success) {
+        return res.status(400).json({ error: "Upload kind must be \"model\" or \"image\"" });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ error: "No file provided" });
+      }
+
+      const validationError = FileService.validateUpload(kind.data, req.file);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const url = await FileService.storeUpload(req.file.buffer, req.file.originalname);
+
+      res.status(201).json({
+        url: viewUrl(url),
+        kind: kind.data,
+        filename: req.file.originalname,
+        size: req.file.size,
+      });
+
+    } catch (error) {
+      console.error("Error storing upload:", error);
+      res.status(500).json({ error: "Failed to store upload" });
+    }
+  });
+
+  // Live updates for all of the current user's jobs (registered before /api/jobs/:jobId)
+  app.get("/api/jobs/events", requireAuth, (req, res) => {
+    const userId = req.user!.id;
+    let unsubscribe = () => {};
+    const send = JobEvents.openStream(req, res, () => unsubscribe());
+
+    unsubscribe = JobEvents.subscribe((event) => {
+      if (event.userId === userId) send(event);
+    });
+  });
+
+  // Live updates for one job: current state first, then every change until it finishes
+  app.get("/api/jobs/:jobId/events", requireAuth, async (req, res) => {
+    try {
+      const job = await JobService.getJob(req.params.jobId);
+      if (!job || job.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      let unsubscribe = () => {};
+      const send = JobEvents.openStream(req, res, () => unsubscribe());
+
+      send(JobEvents.toEvent(job));
+      if (JobEvents.isTerminal(job.status)) {
+        return res.end();
+      }
+
+      unsubscribe = JobEvents.subscribe((event) => {
+        if (event.jobId !== job.id) return;
+        send(event);
+        if (JobEvents.isTerminal(event.status)) {
+          unsubscribe();
+          res.end();
+        }
+      });
+
+    } catch (error) {
+      console.error("Error opening job event stream:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to open event stream" });
       }
-      
-      res.status(400).json({ error: message });
     }
   });
 
   // Get job status
-  app.get("/api/jobs/:jobId", async (req, res) => {
+  app.get("/api/jobs/:jobId", requireAuth, async (req, res) => {
     try {
       const { jobId } = req.params;
       const job = await JobService.getJob(jobId);
 
-      if (!job) {
+      if (!job || job.userId !== req.user!.id) {
         return res.status(404).json({ error: "Job not found" });
       }
 
@@ -112,9 +878,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         id: job.id,
         tool: job.tool,
         prompt: job.prompt,
+        inputs: jobInputsResponse(job.inputs),
         status: job.status,
-        assetUrls: job.assetUrls,
-        meta: job.meta,
+        assetUrls: viewUrls(job.assetUrls),
+        previewImage: viewUrl(job.previewImage),
+        progress: job.progress,
+        provider: job.provider,
+        attempts: job.attempts || [],
+        batchId: job.batchId,
+        isFavorite: job.isFavorite,
+        parentJobId: job.parentJobId,
+        pipelineId: job.pipelineId,
+        meta: jobMetaResponse(job.meta),
         creditsUsed: job.creditsUsed,
         createdAt: job.createdAt,
         updatedAt: job.updatedAt
@@ -126,13 +901,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cancel a queued or processing job and refund its credits
+  app.post("/api/jobs/:jobId/cancel", requireAuth, async (req, res) => {
+    try {
+      const job = await JobService.cancelJob(req.params.jobId, req.user!.id);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.json({
+        id: job.id,
+        status: job.status,
+        creditsRefunded: job.creditsUsed,
+        credits: await CreditService.getBalance(req.user!.id),
+      });
+
+    } catch (error) {
+      if (error instanceof JobNotCancellableError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ error: "Failed to cancel job" });
+    }
+  });
+
   // Get user's jobs
-  app.get("/api/jobs", async (req, res) => {
+  app.get("/api/jobs", requireAuth, async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const tool = toolSchema.safeParse(req.query.tool);
 
-      const jobs = await JobService.getUserJobs(DEMO_USER_ID, limit, offset);
+      const jobs = await JobService.getUserJobs(req.user!.id, limit, offset, tool.success ? tool.data : undefined);
 
       res.json({
         jobs: jobs.map(job => ({
@@ -140,8 +941,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           tool: job.tool,
           prompt: job.prompt,
           status: job.status,
-          assetUrls: job.assetUrls,
-          meta: job.meta,
+          assetUrls: viewUrls(job.assetUrls),
+          thumbnailUrl: jobThumbnailUrl(job),
+          progress: job.progress,
+          provider: job.provider,
+          batchId: job.batchId,
+          isFavorite: job.isFavorite,
+          parentJobId: job.parentJobId,
+          pipelineId: job.pipelineId,
+          meta: jobMetaResponse(job.meta),
           creditsUsed: job.creditsUsed,
           createdAt: job.createdAt,
           updatedAt: job.updatedAt
@@ -160,7 +968,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Legacy generate endpoint for backward compatibility
-  app.post("/api/generate", async (req, res) => {
+  app.post("/api/generate", requireAuth, async (req, res) => {
     try {
       const { prompt, jobType } = req.body;
 
@@ -176,8 +984,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         tool: "text2image",
         prompt,
         inputs: {},
-        userId: DEMO_USER_ID,
-        sessionId: DEMO_SESSION_ID
+        userId: req.user!.id,
+        sessionId: req.sessionID
       });
 
       // For backward compatibility, wait for completion
@@ -189,24 +997,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (updatedJob?.status === "completed" && updatedJob.assetUrls && Array.isArray(updatedJob.assetUrls) && updatedJob.assetUrls.length > 0) {
           // Get updated credits
-          const { db } = await import("./db");
-          const { users } = await import("@shared/schema");
-          const { eq } = await import("drizzle-orm");
-
-          const [user] = await db.select({ credits: users.credits })
-            .from(users)
-            .where(eq(users.id, DEMO_USER_ID));
+          const creditsRemaining = await CreditService.getBalance(req.user!.id);
 
           return res.json({
             success: true,
             asset: {
               id: updatedJob.id,
               prompt: updatedJob.prompt,
-              url: updatedJob.assetUrls[0],
+              url: viewUrl(updatedJob.assetUrls[0]),
               jobType: "text-to-image",
               createdAt: updatedJob.createdAt
             },
-            creditsRemaining: user?.credits || 0
+            creditsRemaining
           });
         }
 
@@ -264,33 +1066,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin endpoint to add credits (protected by password)
   app.post("/api/admin/credits", async (req, res) => {
     try {
-      const { password, amount } = req.body;
+      const { password, username, amount, note, idempotencyKey } = req.body;
       const adminPassword = process.env.ADMIN_PASSWORD || "admin123";
 
       if (password !== adminPassword) {
         return res.status(401).json({ error: "Invalid admin password" });
       }
 
-      if (!amount || amount <= 0) {
+      if (!Number.isInteger(amount) || amount <= 0) {
         return res.status(400).json({ error: "Invalid amount" });
       }
 
-      const { db } = await import("./db");
+      if (!username || typeof username !== "string") {
+        return res.status(400).json({ error: "Username is required" });
+      }
+
+      const { db, eq } = await import("./db");
       const { users } = await import("@shared/schema");
-      const { eq } = await import("drizzle-orm");
+  
+      const [user] = await db.select().from(users).where(eq(users.username, username));
 
-      const [user] = await db.select().from(users).where(eq(users.id, DEMO_USER_ID));
-      
-      if (user) {
-        await db.update(users)
-          .set({ credits: user.credits + amount })
-          .where(eq(users.id, DEMO_USER_ID));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
       }
 
+      const entry = await CreditService.apply(db, {
+        userId: user.id,
+        kind: "adjustment",
+        amount,
+        idempotencyKey: typeof idempotencyKey === "string" && idempotencyKey ? `admin:${idempotencyKey}` : undefined,
+        note: typeof note === "string" && note ? note : "Admin top-up",
+      });
+
       res.json({ 
         success: true, 
-        message: `Added ${amount} credits`,
-        newBalance: user ? user.credits + amount : amount
+        message: entry
+          ? `Added ${amount} credits to ${user.username}`
+          : `Adjustment ${idempotencyKey} was already applied to ${user.username}`,
+        newBalance: await CreditService.getBalance(user.id)
       });
 
     } catch (error) {
@@ -300,25 +1113,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Legacy assets endpoint for backward compatibility
-  app.get("/api/assets", async (req, res) => {
+  app.get("/api/assets", requireAuth, async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
-
-      const jobs = await JobService.getUserJobs(DEMO_USER_ID, limit, offset);
+      const query = assetQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors[0]?.message || "Invalid asset query" });
+      }
 
-      // Convert jobs to legacy asset format
-      const assets = jobs
-        .filter(job => job.status === "completed" && job.assetUrls && job.assetUrls.length > 0)
-        .map(job => ({
-          id: job.id,
-          prompt: job.prompt,
-          url: job.assetUrls![0], // Use first asset URL
-          jobType: job.tool === "text2image" ? "text-to-image" : job.tool,
-          createdAt: job.createdAt
-        }));
+      const { limit, offset, q, collection, tag } = query.data;
+      const { assets, total } = await AssetService.listAssets({
+        ...query.data,
+        q: q || undefined,
+        collectionId: collection === "none" ? null : collection || undefined,
+        tag: tag || undefined,
+        sort: query.data.sort ?? (q ? "relevance" : "newest"),
+        userId: req.user!.id,
+      });
 
-      res.json(assets);
+      res.json({
+        assets: assets.map(assetResponse),
+        total,
+        limit,
+        offset,
+        nextOffset: offset + assets.length < total ? offset + assets.length : null,
+      });
 
     } catch (error) {
       console.error("Error getting assets:", error);
@@ -326,17 +1144,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Asset download endpoint
-  app.get("/api/assets/:id/download", async (req, res) => {
+  // Assets semantically closest to free text
+  app.get("/api/assets/similar", requireAuth, async (req, res) => {
+    try {
+      const query = similarQuerySchema.safeParse(req.query);
+      if (!query.success || !query.data.q) {
+        return res.status(400).json({ error: "q is required" });
+      }
+
+      const similar = await AssetService.findSimilar(req.user!.id, { text: query.data.q }, query.data.limit);
+      res.json({ assets: similar!.map(assetResponse) });
+
+    } catch (error) {
+      console.error("Error finding similar assets:", error);
+      res.status(500).json({ error: "Failed to find similar assets" });
+    }
+  });
+
+  // Assets most like one of the user's own
+  app.get("/api/assets/:id/similar", requireAuth, async (req, res) => {
+    try {
+      const query = similarQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors[0]?.message || "Invalid query" });
+      }
+
+      const similar = await AssetService.findSimilar(req.user!.id, { assetId: req.params.id }, query.data.limit);
+      if (!similar) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      res.json({ assets: similar.map(assetResponse) });
+
+    } catch (error) {
+      console.error("Error finding similar assets:", error);
+      res.status(500).json({ error: "Failed to find similar assets" });
+    }
+  });
+
+  // Inspection report for a 3D model asset: geometry, bounds, materials, textures, watertightness
+  app.get("/api/assets/:id/inspect", requireAuth, async (req, res) => {
+    try {
+      const asset = await AssetService.getAsset(req.params.id, req.user!.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      const inspection = await InspectionService.forAsset(asset);
+      if (!inspection.report) {
+        return res.status(422).json({ error: `The model could not be inspected: ${inspection.error}` });
+      }
+
+      res.json({ assetId: asset.id, url: viewUrl(inspection.url), inspectedAt: inspection.inspectedAt, report: inspection.report });
+
+    } catch (error) {
+      if (error instanceof NotInspectableError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error inspecting asset:", error);
+      res.status(500).json({ error: "Failed to inspect asset" });
+    }
+  });
+
+  // Asset download endpoint; ?format= converts 3D models first
+  app.get("/api/assets/:id/download", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const job = await JobService.getJob(id);
+      const query = downloadQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors[0]?.message || "Invalid format" });
+      }
+
+      // An asset id picks that file; a job id (as older links use) means its first output
+      let assetUrl = (await AssetService.getAsset(id, req.user!.id))?.url;
+      if (!assetUrl) {
+        const job = await JobService.getJob(id);
+        if (job?.userId === req.user!.id && Array.isArray(job.assetUrls)) {
+          assetUrl = job.assetUrls[0];
+        }
+      }
 
-      if (!job || !job.assetUrls || !Array.isArray(job.assetUrls) || job.assetUrls.length === 0) {
+      if (!assetUrl) {
         return res.status(404).json({ error: "Asset not found" });
       }
 
-      const assetUrl = job.assetUrls[0];
+      // Converted copies are stored, then served like any other stored file
+      const { format } = query.data;
+      if (format) {
+        const convertedKey = await ConversionService.convert(assetUrl, format);
+        if (convertedKey) assetUrl = assetUrlForKey(convertedKey);
+      }
       
       // Handle data URLs (base64 encoded images)
       if (assetUrl.startsWith("data:")) {
@@ -354,39 +1251,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.send(buffer);
       }
 
-      // Handle local file paths (starts with /uploads/)
-      if (assetUrl.startsWith("/uploads/")) {
-        // Serve the local file directly
-        const path = await import('path');
-        const filePath = path.join(process.cwd(), assetUrl);
-        
-        // Set appropriate headers for download
-        const extension = path.extname(assetUrl).toLowerCase();
-        const mimeType = extension === '.glb' ? 'model/gltf-binary' : 
-                        extension === '.gltf' ? 'model/gltf+json' : 
-                        'application/octet-stream';
-        
-        res.setHeader('Content-Type', mimeType);
-        res.setHeader('Content-Disposition', `attachment; filename="generated-${id}${extension}"`);
-        
-        // Use sendFile for efficient file serving
-        return res.sendFile(filePath, (err) => {
-          if (err) {
-            console.error('Error serving local file:', err);
-            res.status(404).json({ error: 'File not found' });
-          }
+      // Stored assets: redirect to a short-lived signed URL from the storage backend
+      const storageKey = keyFromAssetUrl(assetUrl);
+      if (storageKey) {
+        const storage = getStorageBackend();
+        if (!(await storage.stat(storageKey))) {
+          return res.status(404).json({ error: "File not found" });
+        }
+
+        const extension = path.extname(storageKey).toLowerCase();
+        const signedUrl = await storage.getSignedUrl(storageKey, {
+          downloadName: `generated-${id}${extension}`,
         });
+        return res.redirect(signedUrl);
       }
 
       // For external URLs, redirect to the asset
       res.redirect(assetUrl);
 
     } catch (error) {
+      if (error instanceof ConversionError) {
+        return res.status(422).json({ error: error.message });
+      }
       console.error("Error downloading asset:", error);
       res.status(500).json({ error: "Failed to download asset" });
     }
   });
 
+  // Favourite, file or retag one asset
+  app.patch("/api/assets/:id", requireAuth, async (req, res) => {
+    try {
+      const parsed = assetUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid asset update" });
+      }
+
+      const asset = await AssetService.updateAsset(req.params.id, req.user!.id, parsed.data);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      res.json({ success: true, asset: assetResponse(asset) });
+
+    } catch (error) {
+      if (error instanceof CollectionNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error updating asset:", error);
+      res.status(500).json({ error: "Failed to update asset" });
+    }
+  });
+
+  app.delete("/api/assets/:id", requireAuth, async (req, res) => {
+    try {
+      const { updated } = await AssetService.applyBulkAction(req.user!.id, { action: "delete", assetIds: [req.params.id] });
+      if (!updated) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      res.json({ success: true });
+
+    } catch (error) {
+      console.error("Error deleting asset:", error);
+      res.status(500).json({ error: "Failed to delete asset" });
+    }
+  });
+
+  // Move, tag, untag, favourite or delete a selection of assets
+  app.post("/api/assets/bulk", requireAuth, async (req, res) => {
+    try {
+      const parsed = assetBulkActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid bulk action" });
+      }
+
+      const result = await AssetService.applyBulkAction(req.user!.id, parsed.data);
+      res.json({ success: true, ...result });
+
+    } catch (error) {
+      if (error instanceof CollectionNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error applying bulk asset action:", error);
+      res.status(500).json({ error: "Failed to update assets" });
+    }
+  });
+
+  // The user's tags, most used first
+  app.get("/api/tags", requireAuth, async (req, res) => {
+    try {
+      res.json({ tags: await AssetService.listTags(req.user!.id) });
+    } catch (error) {
+      console.error("Error getting tags:", error);
+      res.status(500).json({ error: "Failed to get tags" });
+    }
+  });
+
+  app.get("/api/collections", requireAuth, async (req, res) => {
+    try {
+      res.json({ collections: await CollectionService.listCollections(req.user!.id) });
+    } catch (error) {
+      console.error("Error getting collections:", error);
+      res.status(500).json({ error: "Failed to get collections" });
+    }
+  });
+
+  app.post("/api/collections", requireAuth, async (req, res) => {
+    try {
+      const parsed = collectionRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid collection" });
+      }
+
+      const collection = await CollectionService.createCollection(req.user!.id, parsed.data);
+      res.status(201).json({ success: true, collection });
+
+    } catch (error) {
+      if (error instanceof CollectionNameTakenError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error creating collection:", error);
+      res.status(500).json({ error: "Failed to create collection" });
+    }
+  });
+
+  app.patch("/api/collections/:collectionId", requireAuth, async (req, res) => {
+    try {
+      const parsed = collectionRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid collection" });
+      }
+
+      const collection = await CollectionService.renameCollection(req.params.collectionId, req.user!.id, parsed.data);
+      if (!collection) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+
+      res.json({ success: true, collection });
+
+    } catch (error) {
+      if (error instanceof CollectionNameTakenError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error renaming collection:", error);
+      res.status(500).json({ error: "Failed to rename collection" });
+    }
+  });
+
+  // Deleting a collection leaves its assets in the library, unfiled
+  app.delete("/api/collections/:collectionId", requireAuth, async (req, res) => {
+    try {
+      if (!(await CollectionService.deleteCollection(req.params.collectionId, req.user!.id))) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+
+      res.json({ success: true });
+
+    } catch (error) {
+      console.error("Error deleting collection:", error);
+      res.status(500).json({ error: "Failed to delete collection" });
+    }
+  });
+
   // Tool information endpoint
   app.get("/api/tools", async (req, res) => {
     res.json({
@@ -405,6 +1431,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           cost: toolCosts.text2mesh,
           category: "3d"
         },
+        {
+          id: "img2mesh",
+          name: "Image to 3D",
+          description: "Generate 3D models from an image",
+          cost: toolCosts.img2mesh,
+          category: "3d"
+        },
         {
           id: "texturing",
           name: "AI Texturing",
@@ -418,6 +1451,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           description: "Generate videos from images",
           cost: toolCosts.img2video,
           category: "video"
+        },
+        {
+          id: "meshprocess",
+          name: "Mesh Optimization",
+          description: "Decimated LODs of a 3D model, with optional Draco or meshopt compression and KTX2 textures",
+          cost: toolCosts.meshprocess,
+          category: "3d"
         }
       ]
     });
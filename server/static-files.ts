@@ -1,51 +1,50 @@
-// Static file serving setup with proper MIME types
+// Serving /uploads from the configured storage backend
 import express from 'express';
-import path from 'path';
-import mime from 'mime-types';
+import { pipeline } from 'stream/promises';
+import { getStorageBackend } from './storage-backend/backend-factory';
+import { verifySignedUrl } from './storage-backend/signed-urls';
 
 export function setupStaticFiles(app: express.Express): void {
-  // Set custom MIME types for 3D model files
-  mime.types['glb'] = 'model/gltf-binary';
-  mime.types['gltf'] = 'model/gltf+json';
-  mime.types['bin'] = 'application/octet-stream';
-  mime.types['ktx2'] = 'image/ktx2';
-
-  // Serve uploads directory with proper headers
-  app.use('/uploads', (req, res, next) => {
-    const ext = path.extname(req.path).toLowerCase();
-    
-    // Set appropriate Content-Type based on file extension
-    switch (ext) {
-      case '.glb':
-        res.setHeader('Content-Type', 'model/gltf-binary');
-        break;
-      case '.gltf':
-        res.setHeader('Content-Type', 'model/gltf+json');
-        break;
-      case '.bin':
-        res.setHeader('Content-Type', 'application/octet-stream');
-        break;
-      case '.ktx2':
-        res.setHeader('Content-Type', 'image/ktx2');
-        break;
-      case '.png':
-        res.setHeader('Content-Type', 'image/png');
-        break;
-      case '.jpg':
-      case '.jpeg':
-        res.setHeader('Content-Type', 'image/jpeg');
-        break;
-      default:
-        // Let express handle other types
-        break;
+  const storage = getStorageBackend();
+
+  // Serve stored objects with proper headers; any instance can serve any key
+  app.get('/uploads/:key', async (req, res) => {
+    const { key } = req.params;
+
+    // Only signed links are served: the API signs every stored URL it hands to the user who
+    // owns it, and the link must be intact and unexpired
+    if (!verifySignedUrl(key, req.query)) {
+      return res.status(403).json({ error: 'Link is missing, invalid or has expired' });
+    }
+
+    try {
+      const object = await storage.get(key);
+      if (!object) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      res.setHeader('Content-Type', object.contentType);
+      if (object.contentLength !== undefined) {
+        res.setHeader('Content-Length', object.contentLength);
+      }
+      if (typeof req.query.download === 'string') {
+        res.setHeader('Content-Disposition', `attachment; filename="${req.query.download}"`);
+      }
+
+      // Enable CORS for 3D model loading
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+
+      await pipeline(object.body, res);
+    } catch (error) {
+      console.error(`[STATIC] Error serving ${key}:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to read file' });
+      } else {
+        res.destroy();
+      }
     }
-    
-    // Enable CORS for 3D model loading
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
-    
-    next();
-  }, express.static(path.join(process.cwd(), 'uploads')));
-
-  console.log('[STATIC] Set up /uploads directory with proper MIME types');
+  });
+
+  console.log(`[STATIC] Serving /uploads from ${storage.name} storage`);
 }
\ No newline at end of file
@@ -0,0 +1,66 @@
+// Storage backend selection from environment
+
+import path from "path";
+import type { StorageBackend, StorageConfig } from "./types";
+import { LocalStorageBackend } from "./local-backend";
+import { S3StorageBackend } from "./s3-backend";
+
+// Get storage configuration from environment
+export function getStorageConfig(): StorageConfig {
+  const ttl = parseInt(process.env.STORAGE_SIGNED_URL_TTL || "", 10);
+  const viewTtl = parseInt(process.env.STORAGE_VIEW_URL_TTL || "", 10);
+
+  return {
+    backend: (process.env.STORAGE_BACKEND || "local").toLowerCase(),
+    localDir: process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), "uploads"),
+    signedUrlTtlSeconds: Number.isFinite(ttl) && ttl > 0 ? ttl : 15 * 60,
+    // Long enough to outlast a browser session, as the client keeps fetched data until reload
+    viewUrlTtlSeconds: Number.isFinite(viewTtl) && viewTtl > 0 ? viewTtl : 24 * 60 * 60,
+    s3: {
+      bucket: process.env.S3_BUCKET || "",
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      // Self-hosted S3 stand-ins generally need path-style addressing
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === "true"
+        : !!process.env.S3_ENDPOINT,
+      prefix: process.env.S3_PREFIX || "",
+    },
+  };
+}
+
+// Backend instance (singleton pattern)
+let backend: StorageBackend | null = null;
+
+export function getStorageBackend(): StorageBackend {
+  if (backend) return backend;
+
+  const config = getStorageConfig();
+
+  switch (config.backend) {
+    case "s3":
+      backend = new S3StorageBackend(config.s3!, config.signedUrlTtlSeconds);
+      console.log(`[STORAGE] Using S3 bucket ${config.s3!.bucket}${config.s3!.endpoint ? ` at ${config.s3!.endpoint}` : ""}`);
+      break;
+    case "local":
+    default:
+      backend = new LocalStorageBackend(config.localDir, config.signedUrlTtlSeconds);
+      console.log(`[STORAGE] Using local disk at ${config.localDir}`);
+      break;
+  }
+
+  return backend;
+}
+
+// Storage key for a /uploads URL, or null for external and data URLs
+export function keyFromAssetUrl(url: string): string | null {
+  if (!url.startsWith("/uploads/")) return null;
+  const key = decodeURIComponent(url.slice("/uploads/".length).split("?")[0]);
+  return key && !key.includes("/") ? key : null;
+}
+
+export function assetUrlForKey(key: string): string {
+  return `/uploads/${key}`;
+}
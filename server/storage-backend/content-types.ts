@@ -0,0 +1,18 @@
+// Content types for stored assets, including 3D formats mime-types doesn't know
+import path from "path";
+import mime from "mime-types";
+
+const CUSTOM_TYPES: Record<string, string> = {
+  ".glb": "model/gltf-binary",
+  ".gltf": "model/gltf+json",
+  ".bin": "application/octet-stream",
+  ".obj": "model/obj",
+  ".ply": "application/ply",
+  ".usdz": "model/vnd.usdz+zip",
+  ".ktx2": "image/ktx2",
+};
+
+export function contentTypeFor(key: string): string {
+  const extension = path.extname(key).toLowerCase();
+  return CUSTOM_TYPES[extension] || mime.lookup(extension) || "application/octet-stream";
+}
@@ -0,0 +1,78 @@
+// Local disk storage backend (single instance / development)
+
+import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { contentTypeFor } from "./content-types";
+import { signUploadUrl } from "./signed-urls";
+import type { StorageBackend, StoredObject, StoredObjectInfo, SignedUrlOptions } from "./types";
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = "local" as const;
+
+  constructor(private rootDir: string, private defaultTtlSeconds: number) {}
+
+  // Keys are flat file names; anything that could escape the root is rejected
+  private resolve(key: string): string {
+    if (!key || key !== path.basename(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.rootDir, key);
+  }
+
+  async put(key: string, body: Buffer | Readable, _contentType?: string): Promise<void> {
+    await fsp.mkdir(this.rootDir, { recursive: true });
+    const filePath = this.resolve(key);
+
+    if (Buffer.isBuffer(body)) {
+      await fsp.writeFile(filePath, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(filePath));
+    }
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const info = await this.stat(key);
+    if (!info) return null;
+
+    return {
+      body: fs.createReadStream(this.resolve(key)),
+      contentType: contentTypeFor(key),
+      contentLength: info.size,
+    };
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fsp.stat(this.resolve(key));
+      if (!stats.isFile()) return null;
+      return { key, size: stats.size, lastModified: stats.mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fsp.rm(this.resolve(key), { force: true });
+  }
+
+  async list(): Promise<StoredObjectInfo[]> {
+    let names: string[];
+    try {
+      names = await fsp.readdir(this.rootDir);
+    } catch {
+      return [];
+    }
+
+    const entries = await Promise.all(names.map(name => this.stat(name)));
+    return entries.filter((entry): entry is StoredObjectInfo => entry !== null);
+  }
+
+  // Served by the /uploads handler, which checks the signature before honouring it
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresInSeconds ?? this.defaultTtlSeconds);
+    return signUploadUrl(key, expires, options.downloadName || "");
+  }
+}
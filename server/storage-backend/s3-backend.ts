@@ -0,0 +1,144 @@
+// S3-compatible storage backend (AWS S3, MinIO, R2, ...) for multi-instance deployments
+
+import { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { contentTypeFor } from "./content-types";
+import type { StorageBackend, StorageConfig, StoredObject, StoredObjectInfo, SignedUrlOptions } from "./types";
+
+type S3Config = NonNullable<StorageConfig["s3"]>;
+
+// Missing objects surface as NotFound (HEAD) or NoSuchKey (GET)
+function isNotFound(error: any): boolean {
+  return error?.name === "NotFound" || error?.name === "NoSuchKey" || error?.$metadata?.httpStatusCode === 404;
+}
+
+export class S3StorageBackend implements StorageBackend {
+  readonly name = "s3" as const;
+  private client: S3Client;
+
+  constructor(private config: S3Config, private defaultTtlSeconds: number) {
+    if (!config.bucket) {
+      throw new Error("S3_BUCKET is required for the s3 storage backend");
+    }
+
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined, // Fall back to the default AWS credential chain
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.config.prefix}${key}`;
+  }
+
+  async put(key: string, body: Buffer | Readable, contentType?: string): Promise<void> {
+    // Streams of unknown length can't be signed for a single PUT, so buffer them
+    const payload = Buffer.isBuffer(body) ? body : await this.toBuffer(body);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(key),
+      Body: payload,
+      ContentType: contentType || contentTypeFor(key),
+    }));
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(key),
+      }));
+
+      return {
+        body: result.Body as Readable,
+        contentType: result.ContentType || contentTypeFor(key),
+        contentLength: result.ContentLength,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: this.objectKey(key),
+      }));
+      return { key, size: result.ContentLength ?? 0, lastModified: result.LastModified ?? new Date(0) };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(key),
+    }));
+  }
+
+  async list(): Promise<StoredObjectInfo[]> {
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: this.config.prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of page.Contents || []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key.slice(this.config.prefix.length),
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  // Presigned GET straight to the bucket, so downloads don't pass through the app
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.objectKey(key),
+      ResponseContentDisposition: options.downloadName
+        ? `attachment; filename="${options.downloadName}"`
+        : undefined,
+    });
+
+    return getSignedUrl(this.client, command, {
+      expiresIn: options.expiresInSeconds ?? this.defaultTtlSeconds,
+    });
+  }
+
+  private async toBuffer(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+}
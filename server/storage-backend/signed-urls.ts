@@ -0,0 +1,75 @@
+// Signed /uploads URLs. The /uploads handler serves nothing without one, whichever backend
+// holds the file, so every stored URL handed to a client goes through viewUrl()
+
+import crypto from "crypto";
+import { getStorageConfig, keyFromAssetUrl, assetUrlForKey } from "./backend-factory";
+
+function getSigningSecret(): string {
+  return process.env.STORAGE_SIGNING_SECRET || process.env.SESSION_SECRET || "development-storage-secret";
+}
+
+function sign(key: string, expires: number, downloadName: string): string {
+  return crypto.createHmac("sha256", getSigningSecret())
+    .update(`${key}\n${expires}\n${downloadName}`)
+    .digest("hex");
+}
+
+// `expires` is in seconds since the epoch
+export function signUploadUrl(key: string, expires: number, downloadName: string = ""): string {
+  const params = new URLSearchParams({
+    expires: String(expires),
+    signature: sign(key, expires, downloadName),
+  });
+  if (downloadName) params.set("download", downloadName);
+
+  return `/uploads/${encodeURIComponent(key)}?${params.toString()}`;
+}
+
+// Check the expires/signature query of a signed /uploads URL
+export function verifySignedUrl(key: string, query: Record<string, unknown>): boolean {
+  const expires = Number(query.expires);
+  const signature = typeof query.signature === "string" ? query.signature : "";
+  const downloadName = typeof query.download === "string" ? query.download : "";
+
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(sign(key, expires, downloadName), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Whether a URL is a stored file's, signed or not
+export function isUploadUrl(url: string): boolean {
+  return keyFromAssetUrl(url) !== null;
+}
+
+// A signed URL, as the client sent it, that is intact and unexpired
+export function isValidSignedUrl(url: string): boolean {
+  const key = keyFromAssetUrl(url);
+  if (!key) return false;
+  const query = Object.fromEntries(new URLSearchParams(url.split("?")[1] || ""));
+  return verifySignedUrl(key, query);
+}
+
+// The stored form of a /uploads URL, without its signature
+export function canonicalUploadUrl(url: string): string {
+  const key = keyFromAssetUrl(url);
+  return key ? assetUrlForKey(key) : url;
+}
+
+// Link for showing a stored file in the app; other URLs pass through. Expiry is rounded up to
+// a whole TTL window so the same file keeps the same URL (and stays cached) within the window
+export function viewUrl(url: string): string;
+export function viewUrl(url: string | null | undefined): string | null;
+export function viewUrl(url: string | null | undefined): string | null {
+  const key = url ? keyFromAssetUrl(url) : null;
+  if (!key) return url ?? null;
+
+  const ttl = getStorageConfig().viewUrlTtlSeconds;
+  const expires = (Math.floor(Date.now() / 1000 / ttl) + 2) * ttl;
+  return signUploadUrl(key, expires);
+}
+
+export function viewUrls(urls: string[] | null | undefined): string[] | null {
+  return urls ? urls.map(url => viewUrl(url)) : null;
+}
@@ -0,0 +1,48 @@
+// Storage backend interfaces for generated assets and uploads
+
+import type { Readable } from "stream";
+
+export interface StoredObject {
+  body: Readable;
+  contentType: string;
+  contentLength?: number;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds?: number;
+  downloadName?: string; // Sets Content-Disposition: attachment when present
+}
+
+// Objects are addressed by a flat key (e.g. "upload_<uuid>.png"); the public
+// URL for a key is always /uploads/<key>, whichever backend holds it
+export interface StorageBackend {
+  readonly name: "local" | "s3";
+  put(key: string, body: Buffer | Readable, contentType?: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  list(): Promise<StoredObjectInfo[]>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+export interface StorageConfig {
+  backend: string; // "local" | "s3"
+  localDir: string;
+  signedUrlTtlSeconds: number;
+  viewUrlTtlSeconds: number; // For the links the app shows stored files through
+  s3?: {
+    bucket: string;
+    region: string;
+    endpoint?: string; // For MinIO and other S3-compatible services
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle: boolean;
+    prefix: string;
+  };
+}
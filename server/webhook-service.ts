@@ -1,7 +1,12 @@
 // Webhook service for handling vendor callbacks
 
 import crypto from "crypto";
-import { JobService } from "./job-service";
+import type { JobAttempt } from "@shared/schema";
+import { JobService, PROVIDER_ACTIVE_STATUSES } from "./job-service";
+import { JobEvents } from "./job-events";
+import { AssetService } from "./asset-service";
+import { InspectionService } from "./inspection-service";
+import { settleRunningAttempt } from "./providers/retry-policy";
 
 export interface WebhookRequest {
   jobId: string;
@@ -48,7 +53,8 @@ export class WebhookService {
       }
 
       if (status === "completed" && result) {
-        await this.completeJob(jobId, result.assetUrls, result.meta);
+        const meta = await InspectionService.withInspections(job.tool, result.assetUrls, result.meta);
+        await this.completeJob(jobId, result.assetUrls, meta, job.attempts);
       } else if (status === "failed") {
         await this.failJob(jobId, error || "Webhook reported failure");
       }
@@ -62,50 +68,70 @@ export class WebhookService {
   private static async completeJob(
     jobId: string, 
     assetUrls: string[], 
-    meta?: Record<string, any>
+    meta?: Record<string, any> | null,
+    attempts?: JobAttempt[] | null
   ): Promise<void> {
-    const { db } = await import("./db");
+    const { db, eq, and, inArray } = await import("./db");
     const { jobs } = await import("@shared/schema");
-    const { eq } = await import("drizzle-orm");
 
-    await db.update(jobs)
+    // Late callbacks for cancelled or failed jobs are ignored
+    const [job] = await db.update(jobs)
       .set({
         status: "completed",
         assetUrls,
         meta,
+        progress: { percent: 100, stage: "completed", etaSeconds: 0 },
+        attempts: settleRunningAttempt(attempts ?? null, { status: "completed" }),
+        leaseOwner: null,
+        leaseExpiresAt: null,
         updatedAt: new Date()
       })
-      .where(eq(jobs.id, jobId));
+      .where(and(eq(jobs.id, jobId), inArray(jobs.status, PROVIDER_ACTIVE_STATUSES)))
+      .returning();
+
+    if (job) {
+      await AssetService.recordJob(job);
+      JobEvents.publishJob(job);
+    }
   }
 
   // Fail job via webhook
   private static async failJob(jobId: string, error: string): Promise<void> {
-    const { db } = await import("./db");
-    const { jobs, users } = await import("@shared/schema");
-    const { eq } = await import("drizzle-orm");
+    const { db, eq, and, inArray } = await import("./db");
+    const { jobs } = await import("@shared/schema");
+    const { CreditService } = await import("./credit-service");
 
     // Get job and refund credits
     const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
     if (!job) return;
 
-    await db.transaction(async (tx) => {
-      // Refund credits
-      const [user] = await tx.select().from(users).where(eq(users.id, job.userId));
-      if (user) {
-        await tx.update(users)
-          .set({ credits: user.credits + job.creditsUsed })
-          .where(eq(users.id, job.userId));
-      }
+    // A worker holding the lease sees the same failure and retries or fails over itself
+    if (job.status === "processing" && job.leaseExpiresAt && job.leaseExpiresAt > new Date()) {
+      console.log(`[WEBHOOK] Failure for job ${jobId} left to its worker: ${error}`);
+      return;
+    }
 
-      // Update job status
-      await tx.update(jobs)
+    const failed = await db.transaction(async (tx) => {
+      // Update job status unless it already finished or was cancelled
+      const [updated] = await tx.update(jobs)
         .set({
           status: "failed",
           meta: { error },
+          attempts: settleRunningAttempt(job.attempts, { status: "failed", error }),
+          leaseOwner: null,
+          leaseExpiresAt: null,
           updatedAt: new Date()
         })
-        .where(eq(jobs.id, jobId));
+        .where(and(eq(jobs.id, jobId), inArray(jobs.status, PROVIDER_ACTIVE_STATUSES)))
+        .returning();
+      if (!updated) return null;
+
+      // Refund credits unless polling already did
+      await CreditService.refundJob(tx, job, error);
+      return updated;
     });
+
+    if (failed) JobEvents.publishJob(failed);
   }
 
   // Simulate webhook for testing
@@ -1,44 +1,96 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
-  credits: integer("credits").notNull().default(25), // Updated to 25 credits
+  passwordHash: text("password_hash").notNull(), // scrypt hash, "salt:hash" hex
+  credits: integer("credits").notNull().default(25), // Cached balance, only written alongside a credit_transactions row
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
-  password: true,
+  passwordHash: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Credentials accepted by the signup/login endpoints
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(32),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+// User shape safe to send to the client
+export type PublicUser = Pick<User, "id" | "username" | "credits">;
+
+// Provider-reported progress for a running job
+export interface JobProgress {
+  percent: number; // 0-100
+  stage?: string; // e.g. "preview", "refine", "downloading"
+  etaSeconds?: number;
+}
+
+// One try of a job against one provider
+export interface JobAttempt {
+  provider: string; // e.g. "MESHY"
+  attempt: number; // 1-based, per provider
+  providerJobId?: string;
+  status: "running" | "completed" | "failed";
+  error?: string;
+  errorStatus?: number; // HTTP status of the failing call, 0 for network errors and timeouts
+  startedAt: string;
+  finishedAt?: string;
+}
+
 // Enhanced jobs table for AI studio
 export const jobs = pgTable("jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  tool: text("tool").notNull(), // "text2image" | "text2mesh" | "texturing" | "img2video"
+  tool: text("tool").notNull(), // "text2image" | "text2mesh" | "img2mesh" | "texturing" | "img2video" | "meshprocess"
   prompt: text("prompt").notNull(),
   inputs: jsonb("inputs"), // For file uploads, images, models
-  status: text("status").notNull().default("queued"), // "queued" | "processing" | "completed" | "failed"
-  assetUrls: jsonb("asset_urls"), // Array of URLs for multi-asset results
+  status: text("status").notNull().default("queued"), // "waiting" | "queued" | "processing" | "completed" | "failed" | "cancelled"; pipeline steps wait on their dependencies
+  assetUrls: jsonb("asset_urls").$type<string[]>(), // Array of URLs for multi-asset results
   previewImage: text("preview_image"), // For image preview alongside 3D models
-  provider: text("provider"), // "SIM" | "MESHY" | "REPLICATE"
+  provider: text("provider"), // "SIM" | "MESHY" | "REPLICATE"; the provider of the latest attempt
   providerJobId: text("provider_job_id"), // External job ID for tracking
   meta: jsonb("meta"), // Additional metadata
+  progress: jsonb("progress").$type<JobProgress>(), // Latest progress reported by the provider
+  attempts: jsonb("attempts").$type<JobAttempt[]>(), // Provider tries in order, including retries and failovers
   userId: varchar("user_id").notNull(),
   sessionId: varchar("session_id").notNull(),
   creditsUsed: integer("credits_used").notNull(),
+  batchId: varchar("batch_id"), // Set for variations created together through /api/batches
+  batchIndex: integer("batch_index"), // Position within the batch
+  parentJobId: varchar("parent_job_id"), // Job this one was remixed from
+  pipelineId: varchar("pipeline_id"), // Set for steps of a pipeline run
+  pipelineStep: text("pipeline_step"), // Step ID within the pipeline; a resumed step gets a new job with the same ID
+  presetId: varchar("preset_id"), // Preset applied when the job was created
+  isFavorite: boolean("is_favorite").notNull().default(false),
+  // Queue lease: the worker currently running the job and when its claim lapses
+  leaseOwner: text("lease_owner"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("jobs_user_created_idx").on(table.userId, table.createdAt), // Job history listing
+  index("jobs_status_tool_idx").on(table.status, table.tool, table.createdAt), // Queue claims
+  index("jobs_batch_idx").on(table.batchId),
+  index("jobs_parent_idx").on(table.parentJobId), // Remix lineage
+  index("jobs_pipeline_idx").on(table.pipelineId),
+]);
 
 export const insertJobSchema = createInsertSchema(jobs).omit({
   id: true,
+  leaseOwner: true,
+  leaseExpiresAt: true,
+  heartbeatAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -46,17 +98,326 @@ export const insertJobSchema = createInsertSchema(jobs).omit({
 export type Job = typeof jobs.$inferSelect;
 export type InsertJob = z.infer<typeof insertJobSchema>;
 
+// A set of variations requested together; each variation is a child job with batchId set
+export const jobBatches = pgTable("job_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  tool: text("tool").notNull(),
+  prompt: text("prompt").notNull(), // Base prompt; variants may override it
+  count: integer("count").notNull(),
+  creditsUsed: integer("credits_used").notNull(), // Total across all child jobs
+  template: text("template"), // Set for bulk runs: the prompt template each row was expanded into
+  rows: jsonb("rows").$type<Record<string, string>[]>(), // Bulk rows, in batchIndex order
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("job_batches_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+export type JobBatch = typeof jobBatches.$inferSelect;
+
+// A run of chained tool steps; each step is a job with pipelineId set
+export const pipelines = pgTable("pipelines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name"),
+  prompt: text("prompt").notNull(), // Default prompt for steps without their own
+  steps: jsonb("steps").$type<PipelineStep[]>().notNull(), // The DAG as submitted
+  status: text("status").notNull().default("running"), // "running" | "completed" | "failed" | "cancelled"
+  creditsUsed: integer("credits_used").notNull(), // Charged across the first run and any resumes, before refunds
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("pipelines_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+export type Pipeline = typeof pipelines.$inferSelect;
+
+// Saved settings for a tool (or a whole pipeline), private to their owner unless shared
+export const presets = pgTable("presets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // Owner; only they can change or delete it
+  tool: text("tool").notNull(), // A tool, or "pipeline" for saved pipeline steps
+  name: text("name").notNull(),
+  description: text("description"),
+  promptTemplate: text("prompt_template"), // Scaffold wrapped around the user's prompt, e.g. "{prompt}, studio lighting"
+  inputs: jsonb("inputs").$type<Record<string, any>>(), // Tool inputs and options; { steps } for pipelines
+  isShared: boolean("is_shared").notNull().default(false), // Visible to every user
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("presets_user_idx").on(table.userId),
+  index("presets_tool_idx").on(table.tool, table.isShared),
+]);
+
+export type Preset = typeof presets.$inferSelect;
+
+// Append-only credit ledger; a user's balance is the sum of their amounts
+export const creditTransactions = pgTable("credit_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  kind: text("kind").notNull(), // "charge" | "refund" | "grant" | "adjustment"
+  amount: integer("amount").notNull(), // Signed: charges are negative
+  jobId: varchar("job_id"), // Set for job charges and refunds
+  idempotencyKey: text("idempotency_key"), // e.g. "job:<id>:refund"; a key is applied at most once
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("credit_transactions_idempotency_key_idx").on(table.idempotencyKey),
+  index("credit_transactions_user_created_idx").on(table.userId, table.createdAt), // History listing
+]);
+
+export const creditTransactionKindSchema = z.enum(["charge", "refund", "grant", "adjustment"]);
+export type CreditTransactionKind = z.infer<typeof creditTransactionKindSchema>;
+
+export type CreditTransaction = typeof creditTransactions.$inferSelect;
+
 // Tool types and costs
 export const toolCosts = {
   "text2image": 1,
   "text2mesh": 5,
+  "img2mesh": 5,
   "texturing": 3,
   "img2video": 4,
+  "meshprocess": 2,
 } as const;
 
-export const toolSchema = z.enum(["text2image", "text2mesh", "texturing", "img2video"]);
+export const toolSchema = z.enum(["text2image", "text2mesh", "img2mesh", "texturing", "img2video", "meshprocess"]);
 export type Tool = z.infer<typeof toolSchema>;
 
+// Text to image parameters; resolved to concrete values when a job is created so it can be reproduced
+export const aspectRatioSchema = z.enum(["1:1", "16:9", "9:16", "4:3", "3:4", "3:2", "2:3"]);
+export type AspectRatio = z.infer<typeof aspectRatioSchema>;
+
+export const aspectRatioPresets: Record<AspectRatio, { width: number; height: number }> = {
+  "1:1": { width: 1024, height: 1024 },
+  "16:9": { width: 1344, height: 768 },
+  "9:16": { width: 768, height: 1344 },
+  "4:3": { width: 1152, height: 896 },
+  "3:4": { width: 896, height: 1152 },
+  "3:2": { width: 1216, height: 832 },
+  "2:3": { width: 832, height: 1216 },
+};
+
+export const samplerSchema = z.enum(["default", "euler", "euler_a", "dpmpp_2m", "ddim"]);
+export type Sampler = z.infer<typeof samplerSchema>;
+
+export const textToImageParamsSchema = z.object({
+  seed: z.number().int().min(0).max(2 ** 31 - 1).optional(),
+  negativePrompt: z.string().trim().max(1000).optional(),
+  guidanceScale: z.number().min(0).max(20).optional(),
+  steps: z.number().int().min(1).max(50).optional(),
+  sampler: samplerSchema.optional(),
+  aspectRatio: aspectRatioSchema.optional(),
+  width: z.number().int().min(256).max(2048).multipleOf(8).optional(), // Used when no aspect ratio preset is given
+  height: z.number().int().min(256).max(2048).multipleOf(8).optional(),
+});
+
+export type TextToImageParams = z.infer<typeof textToImageParamsSchema>;
+export type ResolvedTextToImageParams = Required<Omit<TextToImageParams, "aspectRatio">> & Pick<TextToImageParams, "aspectRatio">;
+
+// FLUX.1-schnell is distilled for few steps and no classifier-free guidance
+export const textToImageDefaults = {
+  negativePrompt: "",
+  guidanceScale: 0,
+  steps: 4,
+  sampler: "default" as Sampler,
+};
+
+// Fill in every parameter; a missing seed is picked at random so the result can be regenerated later
+export function resolveTextToImageParams(params: TextToImageParams, randomSeed: () => number): ResolvedTextToImageParams {
+  const size = params.aspectRatio
+    ? aspectRatioPresets[params.aspectRatio]
+    : { width: params.width ?? 1024, height: params.height ?? 1024 };
+
+  return {
+    seed: params.seed ?? randomSeed(),
+    negativePrompt: params.negativePrompt ?? textToImageDefaults.negativePrompt,
+    guidanceScale: params.guidanceScale ?? textToImageDefaults.guidanceScale,
+    steps: params.steps ?? textToImageDefaults.steps,
+    sampler: params.sampler ?? textToImageDefaults.sampler,
+    aspectRatio: params.aspectRatio,
+    width: size.width,
+    height: size.height,
+  };
+}
+
+// Mesh processing: LODs of a finished model at triangle budgets, optionally compressed and with
+// textures transcoded to KTX2. Budgets are sorted from most to least detailed when the job is created
+export const MAX_LOD_LEVELS = 4;
+export const meshCompressionSchema = z.enum(["none", "draco", "meshopt"]);
+export type MeshCompression = z.infer<typeof meshCompressionSchema>;
+
+export const meshProcessingOptionsSchema = z.object({
+  lods: z.array(z.number().int().min(12).max(5_000_000)).min(1).max(MAX_LOD_LEVELS)
+    .refine(lods => new Set(lods).size === lods.length, "LOD budgets must be different")
+    .default([50_000, 10_000, 2_000]),
+  compression: meshCompressionSchema.default("none"),
+  textures: z.enum(["original", "ktx2"]).default("original"),
+});
+
+export type MeshProcessingOptions = z.infer<typeof meshProcessingOptionsSchema>;
+
+// Batch generation request: either N variations of one prompt or an explicit list of variants
+export const MAX_BATCH_SIZE = 8;
+
+export const batchVariantSchema = z.object({
+  prompt: z.string().trim().min(1).optional(), // Defaults to the batch prompt
+  seed: z.number().int().nonnegative().optional(),
+  options: z.record(z.any()).optional(), // Merged over inputs.options
+});
+
+export const batchRequestSchema = z.object({
+  tool: toolSchema,
+  prompt: z.string().trim().min(1, "Prompt is required"),
+  inputs: z.record(z.any()).optional(),
+  presetId: z.string().optional(),
+  count: z.number().int().min(1).max(MAX_BATCH_SIZE).optional(),
+  variants: z.array(batchVariantSchema).min(1).max(MAX_BATCH_SIZE).optional(),
+}).refine(request => (request.count === undefined) !== (request.variants === undefined), {
+  message: "Provide either count or variants",
+});
+
+export type BatchVariant = z.infer<typeof batchVariantSchema>;
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
+
+// Bulk generation: a prompt template with {variable} placeholders expanded once per row of
+// uploaded CSV (with a header row) or JSON objects. The result is stored as a batch
+export const MAX_BULK_ROWS = 500;
+export const TEMPLATE_VARIABLE_PATTERN = /\{([A-Za-z_][A-Za-z0-9_-]*)\}/g;
+
+export const bulkRequestSchema = z.object({
+  tool: toolSchema,
+  template: z.string().trim().min(1, "Template is required").max(2000)
+    .refine(template => new RegExp(TEMPLATE_VARIABLE_PATTERN).test(template), "Template must contain at least one {variable}"),
+  csv: z.string().optional(),
+  rows: z.array(z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))).optional(),
+  inputs: z.record(z.any()).optional(),
+  presetId: z.string().optional(),
+}).refine(request => (request.csv === undefined) !== (request.rows === undefined), {
+  message: "Provide either csv or rows",
+});
+
+export type BulkRequest = z.infer<typeof bulkRequestSchema>;
+
+// Pipeline definition: a DAG of tool steps. When a step's dependencies complete, their outputs
+// fill in whatever inputs the step didn't set itself
+export const MAX_PIPELINE_STEPS = 8;
+
+export type PipelineInput = "imageUrl" | "modelUrl";
+
+// Inputs each tool needs, and what a finished step hands on to the steps that depend on it.
+// Only produced assets are handed on, so a step needing something further back depends on that step too
+export const pipelineToolInputs: Record<Tool, PipelineInput[]> = {
+  text2image: [],
+  text2mesh: [],
+  img2mesh: ["imageUrl"],
+  texturing: ["modelUrl"],
+  img2video: ["imageUrl"],
+  meshprocess: ["modelUrl"],
+};
+
+export const pipelineToolOutputs: Record<Tool, PipelineInput[]> = {
+  text2image: ["imageUrl"],
+  text2mesh: ["modelUrl", "imageUrl"], // The preview render, where the provider makes one
+  img2mesh: ["modelUrl"],
+  texturing: [],
+  img2video: [],
+  meshprocess: ["modelUrl"], // The most detailed LOD
+};
+
+export const pipelineStepSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]{1,32}$/, "Step IDs are 1-32 letters, digits, _ or -"),
+  tool: toolSchema,
+  prompt: z.string().trim().min(1).optional(), // Defaults to the pipeline prompt
+  inputs: z.record(z.any()).optional(),
+  dependsOn: z.array(z.string()).default([]),
+});
+
+export type PipelineStep = z.infer<typeof pipelineStepSchema>;
+
+// Why a step list can't run as a pipeline, or null if it can
+export function validatePipelineSteps(steps: PipelineStep[]): string | null {
+  const byId = new Map(steps.map(step => [step.id, step]));
+  if (byId.size !== steps.length) return "Step IDs must be unique";
+
+  for (const step of steps) {
+    const missing = step.dependsOn.find(id => !byId.has(id));
+    if (missing) return `Step ${step.id} depends on unknown step ${missing}`;
+  }
+
+  // Inputs a step can count on: its own plus the outputs of the steps it depends on
+  const available = new Map<string, Set<string>>();
+  const visiting = new Set<string>();
+  const resolve = (step: PipelineStep): Set<string> | null => {
+    const known = available.get(step.id);
+    if (known) return known;
+    if (visiting.has(step.id)) return null;
+    visiting.add(step.id);
+
+    const inputs = new Set(Object.keys(step.inputs || {}));
+    if (step.tool === "meshprocess") {
+      // Mesh processing takes its model as an asset id, or from an earlier step
+      inputs.delete("modelUrl");
+      if (step.inputs?.assetId) inputs.add("modelUrl");
+    }
+    for (const id of step.dependsOn) {
+      const dependency = byId.get(id)!;
+      if (!resolve(dependency)) return null;
+      pipelineToolOutputs[dependency.tool].forEach(output => inputs.add(output));
+    }
+
+    visiting.delete(step.id);
+    available.set(step.id, inputs);
+    return inputs;
+  };
+
+  for (const step of steps) {
+    const inputs = resolve(step);
+    if (!inputs) return `Step ${step.id} is part of a dependency cycle`;
+
+    const needed = pipelineToolInputs[step.tool].find(input => !inputs.has(input));
+    if (needed) return `Step ${step.id} (${step.tool}) needs ${needed} from its inputs or a step it depends on`;
+  }
+
+  return null;
+}
+
+export const pipelineStepsSchema = z.array(pipelineStepSchema).min(1).max(MAX_PIPELINE_STEPS).superRefine((steps, ctx) => {
+  const problem = validatePipelineSteps(steps);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+});
+
+export const pipelineRequestSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  prompt: z.string().trim().min(1, "Prompt is required"),
+  steps: pipelineStepsSchema,
+});
+
+export type PipelineRequest = z.infer<typeof pipelineRequestSchema>;
+
+// Presets: named settings per tool, or saved pipeline steps
+export const PRESET_PROMPT_PLACEHOLDER = "{prompt}";
+
+export const presetToolSchema = z.enum([...toolSchema.options, "pipeline"]);
+export type PresetTool = z.infer<typeof presetToolSchema>;
+
+const presetFields = {
+  name: z.string().trim().min(1, "Name is required").max(80),
+  description: z.string().trim().max(500).nullable().optional(),
+  promptTemplate: z.string().trim().max(2000)
+    .refine(template => template.includes(PRESET_PROMPT_PLACEHOLDER), `Prompt template must contain ${PRESET_PROMPT_PLACEHOLDER}`)
+    .nullable()
+    .optional(),
+  inputs: z.record(z.any()).nullable().optional(),
+  isShared: z.boolean().optional(),
+};
+
+export const presetRequestSchema = z.object({ tool: presetToolSchema, ...presetFields });
+export const presetUpdateSchema = z.object(presetFields).partial();
+
+export type PresetRequest = z.infer<typeof presetRequestSchema>;
+export type PresetUpdate = z.infer<typeof presetUpdateSchema>;
+
 // Session tracking for rate limiting
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -66,15 +427,41 @@ export const sessions = pgTable("sessions", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-// Assets table for persistent storage of generated content
+// Full-text document for an asset: the prompt ranks above everything else. Queries must build
+// the same expression for the index to be used
+export function assetSearchVector(prompt: AnyPgColumn, searchText: AnyPgColumn) {
+  return sql`(setweight(to_tsvector('english', ${prompt}), 'A') || setweight(to_tsvector('english', coalesce(${searchText}, '')), 'B'))`;
+}
+
+// One row per output file of a completed job, recorded by AssetService
 export const assets = pgTable("assets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  tool: text("tool").notNull(),
   prompt: text("prompt").notNull(),
   url: text("url").notNull(),
-  jobType: text("job_type").notNull(),
-  userId: varchar("user_id").notNull(),
+  position: integer("position").notNull(), // Index into the job's assetUrls
+  kind: text("kind").notNull(), // image, model, video or file
+  mimeType: text("mime_type"),
+  sizeBytes: integer("size_bytes"),
+  width: integer("width"), // Images only
+  height: integer("height"),
+  status: text("status").notNull().default("pending"), // pending until probed, then ready or unavailable
+  searchText: text("search_text"), // Enhanced prompt and metadata, searched alongside the prompt
+  embedding: jsonb("embedding").$type<number[]>(), // For "find similar"
+  embeddingModel: text("embedding_model"), // Vectors are only compared with others from the same model
+  collectionId: varchar("collection_id"), // At most one collection; null means unfiled
+  favorite: boolean("favorite").notNull().default(false),
+  deletedAt: timestamp("deleted_at"), // Hidden from the library; kept so the backfill doesn't record it again
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("assets_job_position_idx").on(table.jobId, table.position),
+  index("assets_user_created_idx").on(table.userId, table.createdAt),
+  index("assets_user_tool_idx").on(table.userId, table.tool),
+  index("assets_search_idx").using("gin", assetSearchVector(table.prompt, table.searchText)),
+  index("assets_collection_idx").on(table.collectionId),
+]);
 
 export const insertAssetSchema = createInsertSchema(assets).omit({
   id: true,
@@ -83,3 +470,81 @@ export const insertAssetSchema = createInsertSchema(assets).omit({
 
 export type Asset = typeof assets.$inferSelect;
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
+
+// Previews made from an asset: a thumbnail for images, a poster frame for videos and a
+// rendered still for 3D models
+export const assetDerivatives = pgTable("asset_derivatives", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assetId: varchar("asset_id").notNull(),
+  kind: text("kind").notNull(), // thumbnail, poster or still
+  status: text("status").notNull(), // ready, or failed with an error
+  url: text("url"),
+  width: integer("width"),
+  height: integer("height"),
+  sizeBytes: integer("size_bytes"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("asset_derivatives_asset_kind_idx").on(table.assetId, table.kind),
+]);
+
+export type AssetDerivative = typeof assetDerivatives.$inferSelect;
+
+// Named folders for a user's assets
+export const collections = pgTable("collections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("collections_user_name_idx").on(table.userId, table.name),
+]);
+
+export type Collection = typeof collections.$inferSelect;
+
+// Free-form labels, any number per asset
+export const assetTags = pgTable("asset_tags", {
+  assetId: varchar("asset_id").notNull(),
+  userId: varchar("user_id").notNull(), // The asset's owner, so tag lists don't need a join
+  tag: text("tag").notNull(), // Normalised: trimmed, lower case, single spaces
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("asset_tags_asset_tag_idx").on(table.assetId, table.tag),
+  index("asset_tags_user_tag_idx").on(table.userId, table.tag),
+]);
+
+export type AssetTag = typeof assetTags.$inferSelect;
+
+// Organising assets: collections, tags, favourites and bulk actions
+export const MAX_BULK_ASSETS = 100;
+
+export const collectionRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+});
+
+const tagSchema = z.string()
+  .transform(tag => tag.trim().toLowerCase().replace(/\s+/g, " "))
+  .pipe(z.string().min(1, "Tags can't be empty").max(40, "Tags are at most 40 characters"));
+const tagsSchema = z.array(tagSchema).min(1, "At least one tag is required").max(20)
+  .transform(tags => Array.from(new Set(tags)));
+
+export const assetUpdateSchema = z.object({
+  favorite: z.boolean().optional(),
+  collectionId: z.string().nullable().optional(), // null takes it out of its collection
+  tags: z.array(tagSchema).max(20).transform(tags => Array.from(new Set(tags))).optional(), // Replaces the asset's tags
+});
+
+export const assetBulkActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("move"), collectionId: z.string().nullable() }),
+  z.object({ action: z.literal("tag"), tags: tagsSchema }),
+  z.object({ action: z.literal("untag"), tags: tagsSchema }),
+  z.object({ action: z.literal("favorite"), favorite: z.boolean() }),
+  z.object({ action: z.literal("delete") }),
+]).and(z.object({
+  assetIds: z.array(z.string()).min(1, "Select at least one asset").max(MAX_BULK_ASSETS),
+}));
+
+export type CollectionRequest = z.infer<typeof collectionRequestSchema>;
+export type AssetUpdate = z.infer<typeof assetUpdateSchema>;
+export type AssetBulkAction = z.infer<typeof assetBulkActionSchema>;